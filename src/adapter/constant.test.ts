@@ -0,0 +1,271 @@
+import parser from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESLint, type TSESTree } from "@typescript-eslint/utils";
+import { Linter } from "eslint";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { createConstantResolver } from "./constant";
+import { getStaticSql, setStaticSqlContext } from "./lib/helpers";
+
+describe("Constant Resolver", () => {
+  it("should resolve const declarations in the same scope", () => {
+    // GIVEN
+    const code = `
+      async function load() {
+        const query = "SELECT id FROM users";
+        return connection.execute(query);
+      }
+    `;
+
+    // WHEN / THEN
+    expect(resolveFirstArgument(code)).toBe("SELECT id FROM users");
+  });
+
+  it("should resolve module-level constants through other constants", () => {
+    // GIVEN
+    const code = `
+      const BASE_QUERY = \`SELECT id FROM users\`;
+      const USER_QUERY = BASE_QUERY;
+      export async function load() {
+        return connection.execute(USER_QUERY);
+      }
+    `;
+
+    // WHEN / THEN
+    expect(resolveFirstArgument(code)).toBe("SELECT id FROM users");
+  });
+
+  it("should not resolve let variables, parameters or circular constants", () => {
+    expect(resolveFirstArgument('let query = "SELECT 1"; connection.execute(query);')).toBeNull();
+    expect(resolveFirstArgument("(query) => connection.execute(query);")).toBeNull();
+    expect(resolveFirstArgument("const a = b; const b = a; connection.execute(a);")).toBeNull();
+  });
+
+  it("should resolve imported constants from their literal type", () => {
+    // GIVEN
+    const code = `
+      import { USER_QUERY } from "./queries";
+      connection.execute(USER_QUERY);
+    `;
+    const queries = 'export const USER_QUERY = "SELECT id, email FROM users";';
+
+    // WHEN / THEN
+    expect(resolveFirstArgument(code, { queries })).toBe("SELECT id, email FROM users");
+    expect(resolveFirstArgument(code)).toBeNull();
+  });
+});
+
+describe("Constant Folding", () => {
+  it("should fold + chains", () => {
+    expect(resolveFirstArgument('query("SELECT id " + "FROM users " + "LIMIT " + 10);')).toBe(
+      "SELECT id FROM users LIMIT 10",
+    );
+  });
+
+  it("should fold templates interpolating constant fragments", () => {
+    // GIVEN
+    const code = `
+      const USER_COLUMNS = "id, email";
+      const FROM_USERS = \`FROM users\`;
+      query(\`SELECT \${USER_COLUMNS} \${FROM_USERS} WHERE \${\`id = ?\`}\`);
+    `;
+
+    // WHEN / THEN
+    expect(resolveFirstArgument(code)).toBe("SELECT id, email FROM users WHERE id = ?");
+  });
+
+  it("should fold join() of literal arrays", () => {
+    expect(resolveFirstArgument('query(["SELECT id", "FROM users"].join(" "));')).toBe(
+      "SELECT id FROM users",
+    );
+    expect(resolveFirstArgument('query(["a", "b"].join());')).toBe("a,b");
+  });
+
+  it("should give up when a part is dynamic", () => {
+    expect(resolveFirstArgument('query("SELECT id FROM " + table);')).toBeNull();
+    expect(resolveFirstArgument("query(`SELECT ${columns()} FROM users`);")).toBeNull();
+    expect(resolveFirstArgument('query(["SELECT id", ...rest].join(" "));')).toBeNull();
+    expect(resolveFirstArgument('query("SELECT " - 1);')).toBeNull();
+  });
+});
+
+describe("Value Placeholders", () => {
+  const options = { valuePlaceholder: () => "?" };
+
+  it("should replace values after operators and value keywords", () => {
+    // GIVEN
+    const code =
+      "query(`SELECT id FROM users WHERE id = ${id} AND name LIKE ${name} LIMIT ${limit}`);";
+
+    // WHEN / THEN
+    expect(resolveFirstArgument(code, options)).toBe(
+      "SELECT id FROM users WHERE id = ? AND name LIKE ? LIMIT ?",
+    );
+  });
+
+  it("should replace values in parenthesized lists", () => {
+    // GIVEN
+    const code =
+      "query(`SELECT id FROM users WHERE status IN (${list}) AND created_at BETWEEN ${from} AND ${to}`);";
+
+    // WHEN / THEN
+    expect(resolveFirstArgument(code, options)).toBe(
+      "SELECT id FROM users WHERE status IN (?) AND created_at BETWEEN ? AND ?",
+    );
+  });
+
+  it("should number placeholders and drop values inside string literals", () => {
+    // GIVEN
+    const code =
+      "query(`SELECT id FROM users WHERE id = ${id} OR email LIKE '%${q}%' OR id = ${b}`);";
+
+    // WHEN
+    const sql = resolveFirstArgument(code, {
+      valuePlaceholder: (index) => `$${String(index + 1)}`,
+    });
+
+    // THEN
+    expect(sql).toBe("SELECT id FROM users WHERE id = $1 OR email LIKE '%%' OR id = $2");
+  });
+
+  it("should give up on identifiers and fragments", () => {
+    expect(resolveFirstArgument("query(`SELECT id FROM ${table}`);", options)).toBeNull();
+    expect(resolveFirstArgument("query(`SELECT id, ${column} FROM users`);", options)).toBeNull();
+    expect(resolveFirstArgument("query(`SELECT id FROM users ${where}`);", options)).toBeNull();
+  });
+
+  it("should keep giving up on dynamic values without placeholders", () => {
+    expect(resolveFirstArgument("query(`SELECT id FROM users WHERE id = ${id}`);")).toBeNull();
+  });
+});
+
+describe("SQL Files", () => {
+  const files: Record<string, string> = { "./get-user.sql": "SELECT id FROM users WHERE id = ?" };
+  const options = { readSqlFile: (specifier: string) => files[specifier] ?? null };
+
+  it("should read files loaded with readFileSync(new URL(..., import.meta.url))", () => {
+    expect(
+      resolveFirstArgument(
+        'connection.execute(readFileSync(new URL("./get-user.sql", import.meta.url), "utf8"));',
+        options,
+      ),
+    ).toBe("SELECT id FROM users WHERE id = ?");
+    expect(
+      resolveFirstArgument(
+        'const GET_USER = fs.readFileSync(new URL("./get-user.sql", import.meta.url)).toString(); connection.execute(GET_USER);',
+        options,
+      ),
+    ).toBe("SELECT id FROM users WHERE id = ?");
+  });
+
+  it("should read files imported with ?raw", () => {
+    // GIVEN
+    const code = 'import getUser from "./get-user.sql?raw"; connection.execute(getUser);';
+
+    // WHEN / THEN
+    expect(resolveFirstArgument(code, options)).toBe("SELECT id FROM users WHERE id = ?");
+  });
+
+  it("should not read paths that are not relative to the module", () => {
+    expect(
+      resolveFirstArgument('connection.execute(readFileSync("./get-user.sql", "utf8"));', options),
+    ).toBeNull();
+  });
+});
+
+/** Calls whose first argument is resolved */
+const QUERY_METHODS = new Set(["query", "execute"]);
+
+/**
+ * Lint `code` and resolve the first argument of its first `query()` / `execute()` call
+ *
+ * With `queries`, the file is type-checked with `./queries.ts` holding that source.
+ */
+function resolveFirstArgument(
+  code: string,
+  {
+    queries,
+    valuePlaceholder,
+    readSqlFile,
+  }: {
+    queries?: string;
+    valuePlaceholder?: (index: number) => string;
+    readSqlFile?: (specifier: string) => string | null;
+  } = {},
+): string | null {
+  let sql: string | null | undefined;
+
+  const rule: TSESLint.RuleModule<"unused"> = {
+    meta: { type: "problem", messages: { unused: "" }, schema: [] },
+    defaultOptions: [],
+    create(context) {
+      setStaticSqlContext(context.sourceCode.ast, {
+        resolveConstant: createConstantResolver(
+          context.sourceCode,
+          context.sourceCode.parserServices ?? null,
+          readSqlFile ?? null,
+        ),
+        valuePlaceholder: valuePlaceholder ?? null,
+        readSqlFile: readSqlFile ?? null,
+        getScope: (node) => context.sourceCode.getScope(node),
+      });
+      return {
+        CallExpression(node: TSESTree.CallExpression) {
+          const callee = node.callee;
+          const name = callee.type === AST_NODE_TYPES.MemberExpression ? callee.property : callee;
+          if (
+            sql === undefined &&
+            name.type === AST_NODE_TYPES.Identifier &&
+            QUERY_METHODS.has(name.name)
+          ) {
+            sql = getStaticSql(node.arguments[0]);
+          }
+        },
+      };
+    },
+  };
+
+  const linter = new Linter({ configType: "flat", cwd: "/project" });
+  linter.verify(
+    code,
+    [
+      {
+        files: ["**/*.ts"],
+        languageOptions: {
+          parser,
+          parserOptions: queries === undefined ? {} : { programs: [createProgram(code, queries)] },
+        },
+        plugins: { test: { rules: { resolve: rule as never } } },
+        rules: { "test/resolve": "error" },
+      },
+    ],
+    "/project/index.ts",
+  );
+
+  return sql ?? null;
+}
+
+/**
+ * Create a TypeScript program for `/project/index.ts` and `/project/queries.ts`
+ */
+function createProgram(code: string, queries: string): ts.Program {
+  const files = new Map([
+    ["/project/index.ts", code],
+    ["/project/queries.ts", queries],
+  ]);
+  const options: ts.CompilerOptions = {
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    noLib: true,
+  };
+  const host = ts.createCompilerHost(options);
+  host.getSourceFile = (fileName, languageVersion) => {
+    const text = files.get(fileName);
+    return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion);
+  };
+  host.fileExists = (fileName) => files.has(fileName);
+  host.readFile = (fileName) => files.get(fileName);
+  host.directoryExists = (path) => [...files.keys()].some((file) => file.startsWith(`${path}/`));
+  host.getCurrentDirectory = () => "/project";
+  return ts.createProgram(["/project/index.ts"], options, host);
+}
@@ -0,0 +1,76 @@
+import {
+  AST_NODE_TYPES,
+  ASTUtils,
+  type ParserServices,
+  TSESLint,
+  type TSESTree,
+} from "@typescript-eslint/utils";
+
+import { type ConstantResolver, getStaticSql } from "./lib/helpers";
+
+/** Relative `.sql` module specifier, with or without the bundler `?raw` suffix */
+const SQL_IMPORT = /^\.\.?\/.*\.sql(?:\?raw)?$/i;
+
+/**
+ * Create a resolver for identifiers holding SQL constants
+ *
+ * `const` declarations of the file are resolved with the scope manager (also through other
+ * constants). Imported constants need type information: their string literal type is the SQL.
+ * Default imports of relative `.sql` files (`import q from "./q.sql?raw"`) read the file.
+ */
+export function createConstantResolver(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  parserServices: Partial<ParserServices> | null,
+  readSqlFile: ((specifier: string) => string | null) | null = null,
+): ConstantResolver {
+  // Variables being resolved: `const a = b; const b = a;` must not recurse forever
+  const resolving = new Set<TSESLint.Scope.Variable>();
+
+  return (identifier) => {
+    const variable = ASTUtils.findVariable(sourceCode.getScope(identifier), identifier);
+    const definition = variable?.defs.length === 1 ? variable.defs[0] : undefined;
+    if (!variable || !definition || resolving.has(variable)) {
+      return null;
+    }
+
+    if (definition.type === TSESLint.Scope.DefinitionType.ImportBinding) {
+      const declaration = definition.parent;
+      if (
+        declaration.type === AST_NODE_TYPES.ImportDeclaration &&
+        definition.node.type === AST_NODE_TYPES.ImportDefaultSpecifier &&
+        SQL_IMPORT.test(declaration.source.value)
+      ) {
+        return readSqlFile?.(declaration.source.value.replace(/\?raw$/, "")) ?? null;
+      }
+      return getLiteralType(identifier, parserServices);
+    }
+    if (
+      definition.type !== TSESLint.Scope.DefinitionType.Variable ||
+      definition.parent.kind !== "const" ||
+      definition.node.id.type !== AST_NODE_TYPES.Identifier
+    ) {
+      return null;
+    }
+
+    resolving.add(variable);
+    try {
+      return getStaticSql(definition.node.init ?? undefined);
+    } finally {
+      resolving.delete(variable);
+    }
+  };
+}
+
+/**
+ * Get the string literal type of an identifier (null without type information)
+ */
+function getLiteralType(
+  identifier: TSESTree.Identifier,
+  parserServices: Partial<ParserServices> | null,
+): string | null {
+  if (!parserServices?.program || !parserServices.getTypeAtLocation) {
+    return null;
+  }
+  const type = parserServices.getTypeAtLocation(identifier);
+  return type.isStringLiteral() ? type.value : null;
+}
@@ -1,12 +1,22 @@
 /**
  * Supported database engines
  */
-export type DatabaseEngine = "mysql" | "mariadb" | "postgresql";
+export type DatabaseEngine = "mysql" | "mariadb" | "postgresql" | "sqlite";
 
 /**
  * Supported library types
  */
-export type LibraryType = "mysql2" | "prisma" | "typeorm" | "data-api";
+export type LibraryType =
+  | "mysql2"
+  | "prisma"
+  | "typeorm"
+  | "data-api"
+  | "knex"
+  | "kysely"
+  | "drizzle"
+  | "sequelize"
+  | "mariadb"
+  | "mysql";
 
 /**
  * Database connection configuration
@@ -16,7 +26,7 @@ export interface DatabaseConfig {
   host: string;
   /**
    * DB port
-   * @default 3306
+   * @default 3306 (5432 for PostgreSQL)
    */
   port?: number;
   /** DB user */
@@ -27,6 +37,56 @@ export interface DatabaseConfig {
   database: string;
 }
 
+/**
+ * SQLite database file configuration
+ */
+export interface SqliteConfig {
+  /** Path to the SQLite database file */
+  filename: string;
+}
+
+/**
+ * Supported offline schema sources
+ */
+export type SchemaSourceType = "snapshot" | "ddl" | "migrations" | "prisma";
+
+/**
+ * Offline schema source configuration (used instead of a live database)
+ */
+export interface SchemaSourceConfig {
+  /** Schema source type */
+  source: SchemaSourceType;
+  /** Absolute path to the schema source */
+  path: string;
+}
+
+/**
+ * Configuration used to create a database adapter
+ */
+export type ConnectionConfig = DatabaseConfig | SqliteConfig | SchemaSourceConfig;
+
+/**
+ * Query detection target (a method call or a tagged template routed to a library adapter)
+ */
+export interface TargetConfig {
+  /** Method name of the call (`db.selectMany(...)` -> "selectMany") */
+  method?: string;
+  /** Tag name of the tagged template (`sql`...``, `prisma.$queryRaw`...``) */
+  tag?: string;
+  /** Regular expression matched against the receiver (`db`, `this.db`) */
+  receiver?: string;
+  /**
+   * Index of the argument holding the SQL string.
+   * When omitted, the library adapter extracts the SQL.
+   */
+  sqlArgument?: number;
+  /**
+   * Library adapter that extracts the SQL and writes the type annotation
+   * @default the `library` option
+   */
+  library?: LibraryType;
+}
+
 /**
  * Plugin options for check-sql rule
  */
@@ -41,6 +101,57 @@ export interface PluginOptions {
    * @default "mysql2"
    */
   library?: LibraryType;
-  /** Database connection configuration */
-  database?: DatabaseConfig;
+  /**
+   * Database connection configuration
+   * (`{ filename }` relative to the working directory for SQLite)
+   */
+  database?: DatabaseConfig | SqliteConfig;
+  /**
+   * Path to a schema snapshot JSON file (relative to the working directory).
+   * When specified, types are resolved offline and `database` is not used.
+   */
+  schemaSnapshot?: string;
+  /**
+   * Path to a SQL file with CREATE TABLE statements (relative to the working directory).
+   * Used when `schemaSnapshot` is not specified.
+   */
+  schemaFile?: string;
+  /**
+   * Path to a directory of ordered `.sql` migrations (relative to the working directory).
+   * Used when neither `schemaSnapshot` nor `schemaFile` is specified.
+   */
+  migrationsDir?: string;
+  /**
+   * Path to a Prisma schema file (relative to the working directory).
+   * Used when no other offline schema source is specified.
+   */
+  prismaSchema?: string;
+  /**
+   * Calls and tagged templates to check.
+   * When specified, only matching queries are checked instead of the library defaults.
+   */
+  targets?: TargetConfig[];
+  /**
+   * Check the receiver type with typescript-eslint type information
+   * (requires `parserOptions.projectService` or `parserOptions.project`).
+   * Queries whose receiver is not a library connection type or one of `receiverTypes` are skipped.
+   * @default false
+   */
+  typeAware?: boolean;
+  /**
+   * Additional receiver type names accepted in `typeAware` mode (e.g. a project `Database` class)
+   */
+  receiverTypes?: string[];
+  /**
+   * Dynamic `${}` values in SQL template literals: `"skip"` the query, or replace values in
+   * value positions (`WHERE id = ${id}`) with placeholders before the statement is prepared
+   * @default "skip"
+   */
+  interpolations?: "skip" | "placeholder";
+  /**
+   * Treat `:name` in mysql2 queries as named placeholders, like `namedPlaceholders: true` on the
+   * connection. A `namedPlaceholders` literal in the query options takes precedence.
+   * @default false
+   */
+  namedPlaceholders?: boolean;
 }
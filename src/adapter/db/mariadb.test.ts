@@ -0,0 +1,125 @@
+/**
+ * MariaDB Adapter Unit Tests
+ *
+ * The database tests require a MariaDB connection and are skipped
+ * if MARIADB_HOST environment variable is not set.
+ */
+
+import mariadb from "mariadb";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import type { DatabaseConfig } from "./config.i";
+import { MariaDBAdapter } from "./mariadb";
+
+const DB_CONFIG: DatabaseConfig = {
+  host: process.env["MARIADB_HOST"] ?? "localhost",
+  port: parseInt(process.env["MARIADB_PORT"] ?? "3306", 10),
+  user: process.env["MARIADB_USER"] ?? "root",
+  password: process.env["MARIADB_PASSWORD"] ?? "password",
+  database: process.env["MARIADB_NAME"] ?? "test_db",
+};
+
+// Skip tests if database is not available
+const skipIfNoDb = process.env["MARIADB_HOST"] ? describe : describe.skip;
+
+describe("MariaDB Adapter", () => {
+  describe("parseServerVersion", () => {
+    it("should detect MariaDB versions", () => {
+      expect(MariaDBAdapter.parseServerVersion("10.11.6-MariaDB-1:10.11.6+maria~ubu2204")).toEqual({
+        major: 10,
+        minor: 11,
+        isMariaDB: true,
+      });
+    });
+
+    it("should strip the replication prefix of old MariaDB servers", () => {
+      expect(MariaDBAdapter.parseServerVersion("5.5.5-10.4.32-MariaDB")).toEqual({
+        major: 10,
+        minor: 4,
+        isMariaDB: true,
+      });
+    });
+
+    it("should detect MySQL servers", () => {
+      expect(MariaDBAdapter.parseServerVersion("8.0.36")).toEqual({
+        major: 8,
+        minor: 0,
+        isMariaDB: false,
+      });
+    });
+
+    it("should return null for unknown versions", () => {
+      expect(MariaDBAdapter.parseServerVersion("")).toBeNull();
+    });
+  });
+
+  describe("isJsonValidCheck", () => {
+    it("should match json_valid on the column", () => {
+      expect(MariaDBAdapter.isJsonValidCheck("json_valid(`settings`)", "settings")).toBe(true);
+    });
+
+    it("should not match other columns or clauses", () => {
+      expect(MariaDBAdapter.isJsonValidCheck("json_valid(`other`)", "settings")).toBe(false);
+      expect(MariaDBAdapter.isJsonValidCheck("`age` > 0", "age")).toBe(false);
+    });
+  });
+
+  skipIfNoDb("with database", () => {
+    let adapter: MariaDBAdapter;
+
+    beforeAll(async () => {
+      const connection = await mariadb.createConnection(DB_CONFIG);
+      await connection.query("DROP TABLE IF EXISTS mariadb_types");
+      await connection.query("DROP SEQUENCE IF EXISTS mariadb_seq");
+      await connection.query(
+        "CREATE TABLE mariadb_types (uuid_col UUID NOT NULL, inet6_col INET6, json_col JSON)",
+      );
+      await connection.query("CREATE SEQUENCE mariadb_seq");
+      await connection.end();
+
+      adapter = new MariaDBAdapter(DB_CONFIG);
+      await adapter.connect();
+    });
+
+    afterAll(async () => {
+      await adapter.disconnect();
+
+      const connection = await mariadb.createConnection(DB_CONFIG);
+      await connection.query("DROP TABLE IF EXISTS mariadb_types");
+      await connection.query("DROP SEQUENCE IF EXISTS mariadb_seq");
+      await connection.end();
+    });
+
+    it("should resolve MariaDB-only column types", async () => {
+      // WHEN
+      const metadata = await adapter.getQueryMetadata(
+        "SELECT uuid_col, inet6_col, json_col FROM mariadb_types",
+      );
+
+      // THEN
+      expect(metadata.columns).toMatchObject([
+        { name: "uuid_col", type: "UUID" },
+        { name: "inet6_col", type: "INET6" },
+        { name: "json_col", type: "JSON" },
+      ]);
+    });
+
+    it("should type NEXTVAL as non-null BIGINT", async () => {
+      // WHEN
+      const metadata = await adapter.getQueryMetadata("SELECT NEXTVAL(mariadb_seq) AS id");
+
+      // THEN
+      expect(metadata.columns[0]).toMatchObject({ alias: "id", type: "BIGINT", nullable: false });
+    });
+
+    it("should keep the placeholder count next to sequence function columns", async () => {
+      // WHEN
+      const metadata = await adapter.getQueryMetadata(
+        "SELECT NEXTVAL(mariadb_seq) AS id, uuid_col FROM mariadb_types WHERE inet6_col = ?",
+      );
+
+      // THEN
+      expect(metadata.parameterCount).toBe(1);
+    });
+  });
+});
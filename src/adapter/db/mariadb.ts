@@ -0,0 +1,212 @@
+import type { FieldInfo, Pool, PoolConnection } from "mariadb";
+import parser from "node-sql-parser";
+
+import type { ColumnMeta, QueryMeta } from "../../types/meta.i";
+
+import { MySQLAdapter } from "./mysql";
+
+const { Parser } = parser;
+
+/** Parsed server version */
+export interface ServerVersion {
+  major: number;
+  minor: number;
+  isMariaDB: boolean;
+}
+
+/** Row of INFORMATION_SCHEMA.COLUMNS used to detect MariaDB-only types */
+interface MariaDBColumnRow {
+  DATA_TYPE: string;
+}
+
+/** MariaDB-only data types and the version that introduced them */
+const MARIADB_DATA_TYPES: Record<string, { type: string; since: [number, number] }> = {
+  inet6: { type: "INET6", since: [10, 5] },
+  uuid: { type: "UUID", since: [10, 7] },
+  inet4: { type: "INET4", since: [10, 10] },
+};
+
+/** Sequences (NEXTVAL / LASTVAL / SETVAL) were added in 10.3 */
+const SEQUENCE_SINCE: [number, number] = [10, 3];
+
+/** INFORMATION_SCHEMA.CHECK_CONSTRAINTS was added in 10.3 */
+const CHECK_CONSTRAINTS_SINCE: [number, number] = [10, 3];
+
+/** Sequence functions and whether they can return NULL */
+const SEQUENCE_FUNCTIONS: Record<string, boolean> = {
+  NEXTVAL: false,
+  LASTVAL: true,
+  SETVAL: true,
+};
+
+/** Column types reported for UUID, INET and JSON (LONGTEXT) columns */
+const STRING_TYPES = new Set(["CHAR", "VARCHAR", "TEXT"]);
+
+/**
+ * MariaDB database adapter
+ *
+ * Extends the MySQL adapter with MariaDB-only types that prepared statements report as strings:
+ * `UUID`, `INET4` / `INET6`, JSON columns (`LONGTEXT` with a `json_valid` CHECK constraint)
+ * and sequence functions.
+ */
+export class MariaDBAdapter extends MySQLAdapter {
+  private serverVersion: ServerVersion | null = null;
+  private sqlParser = new Parser();
+
+  /**
+   * Establish connection pool and detect the server version
+   */
+  override async connect(): Promise<void> {
+    await super.connect();
+
+    const rows = await this.getPool().query<{ version: string }[]>("SELECT VERSION() AS version");
+    this.serverVersion = MariaDBAdapter.parseServerVersion(rows[0]?.version ?? "");
+  }
+
+  /**
+   * Get column metadata for a SQL query, including sequence function results
+   */
+  override async getQueryMetadata(sql: string): Promise<QueryMeta> {
+    const metadata = await super.getQueryMetadata(sql);
+    if (!this.supports(SEQUENCE_SINCE)) {
+      return metadata;
+    }
+
+    const sequenceFunctions = this.getSequenceFunctions(sql);
+    const columns = metadata.columns.map((column, index) => {
+      const functionName = sequenceFunctions[index];
+      if (!functionName) return column;
+      return { ...column, type: "BIGINT", nullable: SEQUENCE_FUNCTIONS[functionName] ?? true };
+    });
+
+    return { ...metadata, columns };
+  }
+
+  /**
+   * Resolve MariaDB-only types from INFORMATION_SCHEMA for string-typed columns
+   */
+  protected override async refineColumn(
+    metadata: ColumnMeta,
+    field: FieldInfo,
+    connection: PoolConnection,
+  ): Promise<ColumnMeta> {
+    const table = field.orgTable();
+    const column = field.orgName();
+    if (!STRING_TYPES.has(metadata.type) || !table || !column || metadata.enumValues) {
+      return metadata;
+    }
+
+    const rows = await connection.query<MariaDBColumnRow[]>(
+      `SELECT DATA_TYPE FROM INFORMATION_SCHEMA.COLUMNS
+      WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+      [this.config.database, table, column],
+    );
+    const dataType = rows[0]?.DATA_TYPE.toLowerCase();
+    if (!dataType) return metadata;
+
+    const mariadbType = MARIADB_DATA_TYPES[dataType];
+    if (mariadbType && this.supports(mariadbType.since)) {
+      return { ...metadata, type: mariadbType.type };
+    }
+
+    if (dataType === "longtext" && (await this.hasJsonValidCheck(table, column, connection))) {
+      return { ...metadata, type: "JSON" };
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Check if a column is guarded by a `json_valid(column)` CHECK constraint (the JSON alias)
+   */
+  private async hasJsonValidCheck(
+    table: string,
+    column: string,
+    connection: PoolConnection,
+  ): Promise<boolean> {
+    if (!this.supports(CHECK_CONSTRAINTS_SINCE)) {
+      return false;
+    }
+
+    const rows = await connection.query<{ CHECK_CLAUSE: string }[]>(
+      `SELECT CHECK_CLAUSE FROM INFORMATION_SCHEMA.CHECK_CONSTRAINTS
+      WHERE CONSTRAINT_SCHEMA = ? AND TABLE_NAME = ?`,
+      [this.config.database, table],
+    );
+
+    return rows.some((row) => MariaDBAdapter.isJsonValidCheck(row.CHECK_CLAUSE, column));
+  }
+
+  /**
+   * Get the sequence function name for each select column (undefined for other columns)
+   */
+  private getSequenceFunctions(sql: string): (string | undefined)[] {
+    try {
+      const ast = this.sqlParser.astify(sql, { database: "MariaDB" });
+      const selectAst = Array.isArray(ast) ? ast[0] : ast;
+      if (selectAst?.type !== "select" || !Array.isArray(selectAst.columns)) {
+        return [];
+      }
+
+      return selectAst.columns
+        .map((col: { expr?: unknown }) => getFunctionName(col.expr))
+        .map((name) => (name && name in SEQUENCE_FUNCTIONS ? name : undefined));
+    } catch {
+      // `NEXT VALUE FOR seq` and other unparsable queries keep the prepared metadata
+      return [];
+    }
+  }
+
+  /**
+   * Check if the connected server is MariaDB at or above the given version
+   */
+  private supports([major, minor]: [number, number]): boolean {
+    const version = this.serverVersion;
+    if (!version?.isMariaDB) return false;
+    return version.major > major || (version.major === major && version.minor >= minor);
+  }
+
+  /**
+   * Get the connection pool
+   */
+  private getPool(): Pool {
+    if (!this.pool) {
+      throw new Error("Not connected to database");
+    }
+    return this.pool;
+  }
+
+  /**
+   * Parse `SELECT VERSION()` output: "10.11.6-MariaDB-1:10.11.6+maria~ubu2204" -> 10.11 (MariaDB)
+   */
+  static parseServerVersion(version: string): ServerVersion | null {
+    const match = /^(?:5\.5\.5-)?(\d+)\.(\d+)/.exec(version);
+    if (!match?.[1] || !match[2]) return null;
+
+    return {
+      major: parseInt(match[1], 10),
+      minor: parseInt(match[2], 10),
+      isMariaDB: /mariadb/i.test(version),
+    };
+  }
+
+  /**
+   * Check if a CHECK clause is `json_valid(column)`
+   */
+  static isJsonValidCheck(clause: string, column: string): boolean {
+    const match = /^\s*json_valid\(\s*`?([^`)]+)`?\s*\)\s*$/i.exec(clause);
+    return match?.[1]?.toLowerCase() === column.toLowerCase();
+  }
+}
+
+/**
+ * Get the upper-cased function name of a select expression
+ */
+function getFunctionName(expr: unknown): string | undefined {
+  if (!expr || typeof expr !== "object") return undefined;
+
+  const e = expr as { type?: string; name?: { name?: { value?: string }[] } };
+  if (e.type !== "function") return undefined;
+
+  return e.name?.name?.[0]?.value?.toUpperCase();
+}
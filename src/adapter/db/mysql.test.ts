@@ -579,6 +579,29 @@ skipIfNoDb("MySQL Adapter", () => {
       expect(col.nullable).toBe(false);
     });
   });
+
+  // =========================================================================
+  // Schema Catalog
+  // =========================================================================
+
+  describe("Schema Catalog", () => {
+    it("should read table columns from INFORMATION_SCHEMA", async () => {
+      // WHEN
+      const catalog = await adapter.getSchemaCatalog();
+
+      // THEN
+      const users = catalog.tables["users"];
+      expect(users).toBeDefined();
+      expect(Object.keys(users?.columns ?? {})[0]).toBe("id");
+      expect(users?.columns["id"]).toMatchObject({ nullable: false });
+      expect(users?.columns["email"]).toMatchObject({ type: "VARCHAR(255)", nullable: true });
+      expect(users?.columns["status"]).toEqual({
+        type: "ENUM",
+        nullable: false,
+        values: ["pending", "active", "inactive"],
+      });
+    });
+  });
 });
 
 // =========================================================================
@@ -636,6 +659,47 @@ describe("MySQL Adapter - Unit Tests", () => {
       expect(deleteResult).toBe(false);
     });
 
+    it("should detect write statements", () => {
+      expect(MySQLAdapter.isWriteQuery("INSERT INTO users (id) VALUES (?)")).toBe(true);
+      expect(MySQLAdapter.isWriteQuery("  update users SET email = ?")).toBe(true);
+      expect(MySQLAdapter.isWriteQuery("DELETE FROM users")).toBe(true);
+      expect(MySQLAdapter.isWriteQuery("REPLACE INTO users (id) VALUES (?)")).toBe(true);
+      expect(MySQLAdapter.isWriteQuery("SELECT * FROM users")).toBe(false);
+      expect(MySQLAdapter.isWriteQuery("UPDATED_AT")).toBe(false);
+      expect(
+        MySQLAdapter.isWriteQuery("WITH old AS (SELECT id FROM users) DELETE FROM users"),
+      ).toBe(true);
+      expect(MySQLAdapter.isWriteQuery("DELETE FROM users RETURNING id")).toBe(false);
+    });
+
+    it("should detect statements producing a result set", () => {
+      expect(MySQLAdapter.isSelectQuery("INSERT INTO users (email) VALUES (?) RETURNING id")).toBe(
+        true,
+      );
+      expect(MySQLAdapter.isSelectQuery("DELETE FROM users WHERE id = ? RETURNING *")).toBe(true);
+      expect(
+        MySQLAdapter.isSelectQuery("WITH recent AS (SELECT id FROM users) SELECT id FROM recent"),
+      ).toBe(true);
+      expect(
+        MySQLAdapter.isSelectQuery("(SELECT id FROM users) UNION (SELECT id FROM posts)"),
+      ).toBe(true);
+      expect(MySQLAdapter.isSelectQuery("VALUES ROW(1, 'a'), ROW(2, 'b')")).toBe(true);
+      expect(MySQLAdapter.isSelectQuery("TABLE users")).toBe(true);
+      expect(MySQLAdapter.isSelectQuery("-- RETURNING\nSELECT 1")).toBe(true);
+    });
+
+    it("should ignore RETURNING in subqueries, strings and comments", () => {
+      expect(
+        MySQLAdapter.isSelectQuery("INSERT INTO logs (note) VALUES ('RETURNING') /* RETURNING */"),
+      ).toBe(false);
+      expect(
+        MySQLAdapter.isSelectQuery(
+          "WITH moved AS (DELETE FROM users RETURNING id) INSERT INTO archive SELECT id FROM moved",
+        ),
+      ).toBe(false);
+      expect(MySQLAdapter.isSelectQuery("SHOW TABLES")).toBe(false);
+    });
+
     it("should handle case insensitivity", () => {
       // GIVEN
       const lowerCaseSql = "select * from users";
@@ -2,7 +2,9 @@ import type { FieldInfo, Pool, PoolConnection } from "mariadb";
 import mariadb from "mariadb";
 import parser from "node-sql-parser";
 
+import { NON_CODE_PATTERN } from "../../parser/parameters";
 import type { ColumnMeta, QueryMeta } from "../../types/meta.i";
+import type { ColumnSchema, SchemaCatalog } from "../../types/schema.i";
 
 import type { DatabaseConfig } from "./config.i";
 import type { IDatabaseAdapter } from "./db.i";
@@ -103,6 +105,20 @@ const AGGREGATE_FUNCTIONS = new Set([
   "VARIANCE",
 ]);
 
+/** Statements that return rows */
+const RESULT_SET_STATEMENTS = new Set(["SELECT", "VALUES", "TABLE"]);
+
+/** Statements that write rows (and return them only with a RETURNING clause) */
+const WRITE_STATEMENTS = new Set(["INSERT", "UPDATE", "DELETE", "REPLACE"]);
+
+/** Main keyword of a statement */
+interface StatementKeyword {
+  /** `SELECT`, `INSERT`, ... (null for empty SQL) */
+  keyword: string | null;
+  /** Whether the statement has its own RETURNING clause */
+  returning: boolean;
+}
+
 /** Parsed column info from SQL */
 interface ParsedColumnInfo {
   alias: string | null;
@@ -111,11 +127,22 @@ interface ParsedColumnInfo {
   hasCoalesce: boolean;
 }
 
+/** Row of INFORMATION_SCHEMA.COLUMNS used for schema snapshots */
+interface InformationSchemaColumn {
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  DATA_TYPE: string;
+  COLUMN_TYPE: string;
+  IS_NULLABLE: string;
+}
+
 /**
- * Extended Prepare interface with columns method (not in type definitions but exists in runtime)
+ * Extended Prepare interface with columns method and parameter count (not in type definitions
+ * but exist in runtime)
  */
 interface PrepareWithColumns {
   id: number;
+  parameterCount: number;
   close(): void;
   columns(): FieldInfo[];
 }
@@ -124,8 +151,8 @@ interface PrepareWithColumns {
  * MySQL/MariaDB database adapter using prepared statements to fetch query metadata
  */
 export class MySQLAdapter implements IDatabaseAdapter {
-  private pool: Pool | null = null;
-  private config: DatabaseConfig;
+  protected pool: Pool | null = null;
+  protected config: DatabaseConfig;
   private parser: InstanceType<typeof Parser>;
 
   /**
@@ -187,12 +214,57 @@ export class MySQLAdapter implements IDatabaseAdapter {
 
       prepared.close();
 
-      return { columns };
+      return { columns, parameterCount: prepared.parameterCount };
     } finally {
       await connection.release();
     }
   }
 
+  /**
+   * Read every table and view column from INFORMATION_SCHEMA as a schema catalog
+   *
+   * Tables are returned in name order and columns in ordinal position order.
+   */
+  async getSchemaCatalog(): Promise<SchemaCatalog> {
+    if (!this.pool) {
+      throw new Error("Not connected to database");
+    }
+
+    const rows = await this.pool.query<InformationSchemaColumn[]>(
+      `SELECT TABLE_NAME, COLUMN_NAME, DATA_TYPE, COLUMN_TYPE, IS_NULLABLE
+      FROM INFORMATION_SCHEMA.COLUMNS
+      WHERE TABLE_SCHEMA = ?
+      ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+      [this.config.database],
+    );
+
+    const catalog: SchemaCatalog = { tables: {} };
+    for (const row of rows) {
+      const table = (catalog.tables[row.TABLE_NAME] ??= { columns: {} });
+      table.columns[row.COLUMN_NAME] = this.toColumnSchema(row);
+    }
+
+    return catalog;
+  }
+
+  /**
+   * Convert an INFORMATION_SCHEMA.COLUMNS row to a snapshot column definition
+   */
+  private toColumnSchema(row: InformationSchemaColumn): ColumnSchema {
+    const nullable = row.IS_NULLABLE === "YES";
+
+    if (row.DATA_TYPE.toLowerCase() === "enum") {
+      return { type: "ENUM", nullable, values: this.parseEnumColumnType(row.COLUMN_TYPE) };
+    }
+
+    // SET('a','b') keeps its member list out of the type name
+    if (row.COLUMN_TYPE.includes("'")) {
+      return { type: row.DATA_TYPE.toUpperCase(), nullable };
+    }
+
+    return { type: row.COLUMN_TYPE.toUpperCase(), nullable };
+  }
+
   /**
    * Parse SQL to extract column information (aggregates, coalesce, etc.)
    */
@@ -356,7 +428,18 @@ export class MySQLAdapter implements IDatabaseAdapter {
       metadata.enumValues = await this.getEnumValues(table, name, connection);
     }
 
-    return metadata;
+    return this.refineColumn(metadata, field, connection);
+  }
+
+  /**
+   * Hook for engine-specific column refinements (no-op for MySQL)
+   */
+  protected refineColumn(
+    metadata: ColumnMeta,
+    _field: FieldInfo,
+    _connection: PoolConnection,
+  ): Promise<ColumnMeta> {
+    return Promise.resolve(metadata);
   }
 
   /**
@@ -376,11 +459,16 @@ export class MySQLAdapter implements IDatabaseAdapter {
     const row = rows[0];
     if (!row) return [];
 
-    const columnType = row.COLUMN_TYPE;
+    return this.parseEnumColumnType(row.COLUMN_TYPE);
+  }
+
+  /**
+   * Parse enum values: "enum('a','b','c')" -> ['a', 'b', 'c']
+   */
+  private parseEnumColumnType(columnType: string): string[] {
     const match = /enum\((.+)\)/i.exec(columnType);
     if (!match?.[1]) return [];
 
-    // Parse enum values: "enum('a','b','c')" -> ['a', 'b', 'c']
     return match[1].split(",").map((v) => v.trim().replace(/^'|'$/g, ""));
   }
 
@@ -392,9 +480,55 @@ export class MySQLAdapter implements IDatabaseAdapter {
   }
 
   /**
-   * Check if SQL is a SELECT query
+   * Check if SQL produces a result set
+   *
+   * `SELECT` (also parenthesized or after `WITH`), `VALUES` and `TABLE` statements, and writes
+   * with a `RETURNING` clause return rows.
    */
   static isSelectQuery(sql: string): boolean {
-    return /^\s*SELECT\b/i.test(sql);
+    const { keyword, returning } = getStatementKeyword(sql);
+    if (keyword === null) return false;
+    return RESULT_SET_STATEMENTS.has(keyword) || (WRITE_STATEMENTS.has(keyword) && returning);
+  }
+
+  /**
+   * Check if SQL is an INSERT / UPDATE / DELETE / REPLACE statement without a result set
+   */
+  static isWriteQuery(sql: string): boolean {
+    const { keyword, returning } = getStatementKeyword(sql);
+    return keyword !== null && WRITE_STATEMENTS.has(keyword) && !returning;
+  }
+}
+
+/**
+ * Find the main keyword of a statement
+ *
+ * Leading parentheses are skipped (`(SELECT ...) UNION ...`), and so are the common table
+ * expressions of a `WITH` clause (`WITH recent AS (...) DELETE ...`). RETURNING counts only at
+ * the nesting level of the keyword, not inside subqueries.
+ */
+function getStatementKeyword(sql: string): StatementKeyword {
+  let depth = 0;
+  let withDepth: number | null = null;
+  let keyword: string | null = null;
+  let keywordDepth = 0;
+  let returning = false;
+
+  for (const [token] of sql.replace(NON_CODE_PATTERN, " ").matchAll(/[()]|\w+/g)) {
+    const word = token.toUpperCase();
+    if (word === "(" || word === ")") {
+      depth += word === "(" ? 1 : -1;
+    } else if (keyword !== null) {
+      returning ||= word === "RETURNING" && depth === keywordDepth;
+    } else if (withDepth === null && word === "WITH") {
+      withDepth = depth;
+    } else if (
+      withDepth === null ||
+      (depth === withDepth && (RESULT_SET_STATEMENTS.has(word) || WRITE_STATEMENTS.has(word)))
+    ) {
+      keyword = word;
+      keywordDepth = depth;
+    }
   }
+  return { keyword, returning };
 }
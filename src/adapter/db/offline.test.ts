@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import type { SchemaCatalog } from "../../types/schema.i";
+
+import { OfflineAdapter } from "./offline";
+
+const CATALOG: SchemaCatalog = {
+  tables: {
+    users: {
+      columns: {
+        id: { type: "INT", nullable: false },
+        email: { type: "VARCHAR(255)", nullable: true },
+      },
+    },
+  },
+};
+
+describe("Offline Adapter", () => {
+  it("should resolve query metadata from catalog", async () => {
+    // GIVEN
+    const adapter = new OfflineAdapter(() => CATALOG);
+    await adapter.connect();
+
+    // WHEN
+    const metadata = await adapter.getQueryMetadata("SELECT id, email FROM users");
+
+    // THEN
+    expect(metadata.columns).toMatchObject([
+      { name: "id", type: "INT", nullable: false },
+      { name: "email", type: "VARCHAR", nullable: true },
+    ]);
+  });
+
+  it("should reject when catalog is not loaded", async () => {
+    // GIVEN
+    const adapter = new OfflineAdapter(() => CATALOG);
+
+    // WHEN
+    const metadataPromise = adapter.getQueryMetadata("SELECT id FROM users");
+
+    // THEN
+    await expect(metadataPromise).rejects.toThrow("Schema catalog is not loaded");
+  });
+
+  it("should propagate catalog loading errors on connect", async () => {
+    // GIVEN
+    const adapter = new OfflineAdapter(() => {
+      throw new Error("broken snapshot");
+    });
+
+    // WHEN
+    const connectPromise = adapter.connect();
+
+    // THEN
+    await expect(connectPromise).rejects.toThrow("broken snapshot");
+  });
+
+  it("should reject invalid SQL", async () => {
+    // GIVEN
+    const adapter = new OfflineAdapter(() => CATALOG);
+    await adapter.connect();
+
+    // WHEN
+    const metadataPromise = adapter.getQueryMetadata("SELECT unknown_col FROM users");
+
+    // THEN
+    await expect(metadataPromise).rejects.toThrow("Unknown column");
+  });
+});
@@ -0,0 +1,55 @@
+import { resolveQueryMeta } from "../../schema/resolve";
+import type { QueryMeta } from "../../types/meta.i";
+import type { SchemaCatalog } from "../../types/schema.i";
+
+import type { IDatabaseAdapter } from "./db.i";
+
+/**
+ * Offline database adapter that resolves query metadata from a schema catalog
+ * instead of preparing statements on a live database
+ */
+export class OfflineAdapter implements IDatabaseAdapter {
+  private catalog: SchemaCatalog | null = null;
+  private readonly loadCatalog: () => SchemaCatalog;
+
+  /**
+   * Create a new offline adapter instance
+   *
+   * @param loadCatalog - Loads the schema catalog (called on connect)
+   */
+  constructor(loadCatalog: () => SchemaCatalog) {
+    this.loadCatalog = loadCatalog;
+  }
+
+  /**
+   * Load the schema catalog
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve) => {
+      this.catalog = this.loadCatalog();
+      resolve();
+    });
+  }
+
+  /**
+   * Release the loaded schema catalog
+   */
+  disconnect(): Promise<void> {
+    this.catalog = null;
+    return Promise.resolve();
+  }
+
+  /**
+   * Get column metadata for a SQL query by resolving it against the catalog
+   */
+  getQueryMetadata(sql: string): Promise<QueryMeta> {
+    const catalog = this.catalog;
+    if (!catalog) {
+      return Promise.reject(new Error("Schema catalog is not loaded"));
+    }
+
+    return new Promise((resolve) => {
+      resolve(resolveQueryMeta(catalog, sql));
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+
+import { loadPeerDependency } from "./peer";
+
+describe("loadPeerDependency", () => {
+  it("should return the loaded module", async () => {
+    // GIVEN
+    const driver = { default: "driver" };
+
+    // WHEN
+    const loaded = await loadPeerDependency("sqlite", "better-sqlite3", () =>
+      Promise.resolve(driver),
+    );
+
+    // THEN
+    expect(loaded).toBe(driver);
+  });
+
+  it("should name the missing package of the engine", async () => {
+    // GIVEN
+    const load = () => Promise.reject(new Error("Cannot find package 'postgres'"));
+
+    // WHEN
+    const loading = loadPeerDependency("postgresql", "postgres", load);
+
+    // THEN
+    await expect(loading).rejects.toThrow(
+      "Database engine 'postgresql' requires the 'postgres' package",
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import type { DatabaseEngine } from "./config.i";
+
+/**
+ * Load the driver of a database engine shipped as an optional peer dependency
+ *
+ * Drivers are imported when the engine is first used, so projects only install the driver of
+ * the engine they configure.
+ */
+export async function loadPeerDependency<T>(
+  engine: DatabaseEngine,
+  packageName: string,
+  load: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    throw new Error(
+      `Database engine '${engine}' requires the '${packageName}' package; install it next to eslint-plugin-sql-typing (npm install -D ${packageName})`,
+      { cause: error },
+    );
+  }
+}
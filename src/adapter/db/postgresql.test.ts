@@ -0,0 +1,131 @@
+/**
+ * PostgreSQL Adapter Unit Tests
+ *
+ * These tests verify the PostgreSQL adapter correctly resolves column metadata
+ * from Parse/Describe row descriptions and the system catalogs.
+ *
+ * Note: These tests require a PostgreSQL database connection.
+ * They will be skipped if PG_HOST environment variable is not set.
+ */
+
+import postgres from "postgres";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import type { DatabaseConfig } from "./config.i";
+import { PostgreSQLAdapter } from "./postgresql";
+
+const DB_CONFIG: DatabaseConfig = {
+  host: process.env["PG_HOST"] ?? "localhost",
+  port: parseInt(process.env["PG_PORT"] ?? "5432", 10),
+  user: process.env["PG_USER"] ?? "postgres",
+  password: process.env["PG_PASSWORD"] ?? "password",
+  database: process.env["PG_NAME"] ?? "test_db",
+};
+
+// Skip tests if database is not available
+const skipIfNoDb = process.env["PG_HOST"] ? describe : describe.skip;
+
+skipIfNoDb("PostgreSQL Adapter", () => {
+  let adapter: PostgreSQLAdapter;
+  let sql: postgres.Sql;
+
+  beforeAll(async () => {
+    sql = postgres({ ...DB_CONFIG, onnotice: () => undefined });
+    await sql`DROP TABLE IF EXISTS pg_adapter_posts`;
+    await sql`DROP TABLE IF EXISTS pg_adapter_users`;
+    await sql`DROP TYPE IF EXISTS pg_adapter_status`;
+    await sql`CREATE TYPE pg_adapter_status AS ENUM ('pending', 'active')`;
+    await sql`
+      CREATE TABLE pg_adapter_users (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        email TEXT,
+        status pg_adapter_status NOT NULL,
+        tags TEXT[],
+        created_at TIMESTAMPTZ NOT NULL
+      )
+    `;
+    await sql`
+      CREATE TABLE pg_adapter_posts (
+        id SERIAL PRIMARY KEY,
+        user_id INT NOT NULL REFERENCES pg_adapter_users (id),
+        title TEXT NOT NULL
+      )
+    `;
+
+    adapter = new PostgreSQLAdapter(DB_CONFIG);
+    await adapter.connect();
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    await sql`DROP TABLE IF EXISTS pg_adapter_posts`;
+    await sql`DROP TABLE IF EXISTS pg_adapter_users`;
+    await sql`DROP TYPE IF EXISTS pg_adapter_status`;
+    await sql.end();
+  });
+
+  it("should resolve column types and nullability", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata(
+      "SELECT id, name, email, tags, created_at FROM pg_adapter_users",
+    );
+
+    // THEN
+    expect(metadata.columns).toMatchObject([
+      { name: "id", table: "pg_adapter_users", type: "INT4", nullable: false },
+      { name: "name", table: "pg_adapter_users", type: "VARCHAR", nullable: false },
+      { name: "email", table: "pg_adapter_users", type: "TEXT", nullable: true },
+      { name: "tags", table: "pg_adapter_users", type: "_TEXT", nullable: true },
+      { name: "created_at", table: "pg_adapter_users", type: "TIMESTAMPTZ", nullable: false },
+    ]);
+  });
+
+  it("should resolve enum labels in declaration order", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata("SELECT status FROM pg_adapter_users");
+
+    // THEN
+    expect(metadata.columns[0]).toMatchObject({
+      name: "status",
+      type: "ENUM",
+      enumValues: ["pending", "active"],
+      nullable: false,
+    });
+  });
+
+  it("should keep aliases and treat expressions other than COUNT / EXISTS as nullable", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata(
+      "SELECT id AS user_id, COUNT(*) AS total, EXISTS (SELECT 1 FROM pg_adapter_posts) AS has_posts, MAX(name) AS last_name FROM pg_adapter_users WHERE id = $1 GROUP BY id",
+    );
+
+    // THEN
+    expect(metadata.columns).toMatchObject([
+      { name: "id", alias: "user_id", type: "INT4", nullable: false },
+      { name: "total", table: null, type: "INT8", nullable: false },
+      { name: "has_posts", table: null, type: "BOOL", nullable: false },
+      { name: "last_name", table: null, type: "VARCHAR", nullable: true },
+    ]);
+  });
+
+  it("should treat columns of outer-joined tables as nullable", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata(`
+      SELECT u.name, p.title FROM pg_adapter_users u
+      LEFT JOIN pg_adapter_posts p ON p.user_id = u.id
+    `);
+
+    // THEN
+    expect(metadata.columns).toMatchObject([
+      { name: "name", table: "pg_adapter_users", nullable: false },
+      { name: "title", table: "pg_adapter_posts", nullable: true },
+    ]);
+  });
+
+  it("should reject invalid queries", async () => {
+    await expect(
+      adapter.getQueryMetadata("SELECT missing FROM pg_adapter_users"),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,202 @@
+import type postgres from "postgres";
+
+import { getNonNullColumns, getOuterJoinedTables } from "../../parser/parser";
+import type { ColumnMeta, QueryMeta } from "../../types/meta.i";
+
+import type { DatabaseConfig } from "./config.i";
+import type { IDatabaseAdapter } from "./db.i";
+import { loadPeerDependency } from "./peer";
+
+/** Row of pg_type used to resolve type OIDs */
+interface PgTypeRow {
+  oid: number;
+  typname: string;
+  typtype: string;
+}
+
+/** Row of pg_attribute used to resolve column names and nullability */
+interface PgAttributeRow {
+  attrelid: number;
+  attnum: number;
+  attname: string;
+  attnotnull: boolean;
+  relname: string;
+}
+
+/** Row of pg_enum used to resolve enum labels */
+interface PgEnumRow {
+  enumtypid: number;
+  enumlabel: string;
+}
+
+/** Resolved type information for a type OID */
+interface PgTypeInfo {
+  name: string;
+  enumValues?: string[];
+}
+
+/**
+ * PostgreSQL database adapter using the extended protocol (Parse/Describe) to fetch query metadata
+ */
+export class PostgreSQLAdapter implements IDatabaseAdapter {
+  private sql: postgres.Sql | null = null;
+  private config: DatabaseConfig;
+  private readonly typeCache = new Map<number, PgTypeInfo>();
+
+  /**
+   * Create a new PostgreSQL adapter instance
+   */
+  constructor(config: DatabaseConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Establish connection pool to PostgreSQL database
+   */
+  async connect(): Promise<void> {
+    const { default: connect } = await loadPeerDependency(
+      "postgresql",
+      "postgres",
+      () => import("postgres"),
+    );
+    this.sql = connect({
+      host: this.config.host,
+      port: this.config.port ?? 5432,
+      user: this.config.user,
+      password: this.config.password,
+      database: this.config.database,
+      max: 5,
+      onnotice: () => undefined,
+    });
+
+    // Test connection
+    await this.sql`SELECT 1`;
+  }
+
+  /**
+   * Close all connections in the pool
+   */
+  async disconnect(): Promise<void> {
+    if (this.sql) {
+      await this.sql.end();
+      this.sql = null;
+    }
+  }
+
+  /**
+   * Get column metadata for a SQL query using Parse/Describe (the query is not executed)
+   */
+  async getQueryMetadata(sql: string): Promise<QueryMeta> {
+    const statement = await this.getSql().unsafe(sql).describe();
+    const fields = statement.columns;
+
+    const types = await this.getTypes(fields.map((field) => field.type));
+    const attributes = await this.getAttributes(
+      fields.filter((field) => field.table !== 0).map((field) => field.table),
+    );
+
+    // NOT NULL columns of outer-joined tables are NULL when the joined row is missing
+    const outerJoinedTables = getOuterJoinedTables(sql, "postgresql");
+    const nonNullColumns = getNonNullColumns(sql, "postgresql");
+
+    const columns: ColumnMeta[] = fields.map((field, index) => {
+      const typeInfo = types.get(field.type) ?? { name: "unknown" };
+      const attribute = attributes.get(`${String(field.table)}:${String(field.number)}`);
+
+      const metadata: ColumnMeta = {
+        name: attribute?.attname ?? field.name,
+        table: attribute?.relname ?? null,
+        type: typeInfo.enumValues ? "ENUM" : typeInfo.name.toUpperCase(),
+        typeCode: field.type,
+        // Computed columns have no table attribute: only COUNT / EXISTS are known to be non-null
+        nullable: attribute
+          ? !attribute.attnotnull || outerJoinedTables.has(attribute.relname.toLowerCase())
+          : nonNullColumns[index] !== true,
+      };
+
+      if (attribute && attribute.attname !== field.name) {
+        metadata.alias = field.name;
+      }
+
+      if (typeInfo.enumValues) {
+        metadata.enumValues = typeInfo.enumValues;
+      }
+
+      return metadata;
+    });
+
+    return { columns, parameterCount: statement.types.length };
+  }
+
+  /**
+   * Resolve type OIDs to type names (and enum labels for enum types)
+   */
+  private async getTypes(oids: number[]): Promise<Map<number, PgTypeInfo>> {
+    const sql = this.getSql();
+    const missing = [...new Set(oids)].filter((oid) => !this.typeCache.has(oid));
+
+    if (missing.length > 0) {
+      const rows = await sql<PgTypeRow[]>`
+        SELECT oid::int AS oid, typname, typtype FROM pg_type WHERE oid = ANY(${missing})
+      `;
+
+      const enumOids = rows.filter((row) => row.typtype === "e").map((row) => row.oid);
+      const enumRows =
+        enumOids.length > 0
+          ? await sql<PgEnumRow[]>`
+              SELECT enumtypid::int AS enumtypid, enumlabel FROM pg_enum
+              WHERE enumtypid = ANY(${enumOids})
+              ORDER BY enumtypid, enumsortorder
+            `
+          : [];
+
+      for (const row of rows) {
+        const info: PgTypeInfo = { name: row.typname };
+        if (row.typtype === "e") {
+          info.enumValues = enumRows
+            .filter((enumRow) => enumRow.enumtypid === row.oid)
+            .map((enumRow) => enumRow.enumlabel);
+        }
+        this.typeCache.set(row.oid, info);
+      }
+    }
+
+    const result = new Map<number, PgTypeInfo>();
+    for (const oid of oids) {
+      const info = this.typeCache.get(oid);
+      if (info) result.set(oid, info);
+    }
+    return result;
+  }
+
+  /**
+   * Fetch column names and NOT NULL constraints from pg_attribute, keyed by `table:attnum`
+   */
+  private async getAttributes(tableOids: number[]): Promise<Map<string, PgAttributeRow>> {
+    const result = new Map<string, PgAttributeRow>();
+    if (tableOids.length === 0) return result;
+
+    const sql = this.getSql();
+    const rows = await sql<PgAttributeRow[]>`
+      SELECT a.attrelid::int AS attrelid, a.attnum::int AS attnum, a.attname, a.attnotnull, c.relname
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      WHERE a.attrelid = ANY(${[...new Set(tableOids)]}) AND a.attnum > 0 AND NOT a.attisdropped
+    `;
+
+    for (const row of rows) {
+      result.set(`${String(row.attrelid)}:${String(row.attnum)}`, row);
+    }
+    return result;
+  }
+
+  /**
+   * Get the connected client
+   */
+  private getSql(): postgres.Sql {
+    if (!this.sql) {
+      throw new Error("Not connected to database");
+    }
+    return this.sql;
+  }
+}
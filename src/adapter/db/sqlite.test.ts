@@ -0,0 +1,124 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import Database from "better-sqlite3";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { SQLiteAdapter } from "./sqlite";
+
+describe("SQLite Adapter", () => {
+  let tempDir: string;
+  let adapter: SQLiteAdapter;
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "sql-typing-sqlite-"));
+    const filename = join(tempDir, "test.db");
+
+    const db = new Database(filename);
+    db.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        email TEXT,
+        created_at DATETIME NOT NULL
+      );
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users (id),
+        body BLOB
+      );
+    `);
+    db.close();
+
+    adapter = new SQLiteAdapter({ filename });
+    await adapter.connect();
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should extract declared types and nullability", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata(
+      "SELECT id, name, email, created_at FROM users WHERE id = ?",
+    );
+
+    // THEN
+    expect(metadata.columns).toEqual([
+      { name: "id", table: "users", type: "INTEGER", typeCode: 0, nullable: false },
+      { name: "name", table: "users", type: "VARCHAR", typeCode: 0, nullable: false },
+      { name: "email", table: "users", type: "TEXT", typeCode: 0, nullable: true },
+      { name: "created_at", table: "users", type: "DATETIME", typeCode: 0, nullable: false },
+    ]);
+  });
+
+  it("should keep aliases and resolve joined tables", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata(
+      "SELECT u.name AS author, p.body FROM posts p JOIN users u ON u.id = p.user_id",
+    );
+
+    // THEN
+    expect(metadata.columns).toMatchObject([
+      { name: "name", alias: "author", table: "users", type: "VARCHAR", nullable: false },
+      { name: "body", table: "posts", type: "BLOB", nullable: true },
+    ]);
+  });
+
+  it("should treat columns of outer-joined tables as nullable", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata(
+      "SELECT u.name, p.user_id FROM users u LEFT JOIN posts p ON p.user_id = u.id",
+    );
+
+    // THEN
+    expect(metadata.columns).toMatchObject([
+      { name: "name", table: "users", nullable: false },
+      { name: "user_id", table: "posts", nullable: true },
+    ]);
+  });
+
+  it("should treat expression columns as nullable with unknown type", async () => {
+    // WHEN
+    const metadata = await adapter.getQueryMetadata("SELECT COUNT(*) AS total FROM users");
+
+    // THEN
+    expect(metadata.columns).toEqual([
+      { name: "total", table: null, type: "UNKNOWN", typeCode: 0, nullable: true },
+    ]);
+  });
+
+  it("should reject invalid queries", async () => {
+    await expect(adapter.getQueryMetadata("SELECT missing FROM users")).rejects.toThrow(
+      "no such column",
+    );
+  });
+
+  it("should prepare write statements without columns", async () => {
+    await expect(
+      adapter.getQueryMetadata("UPDATE users SET email = ? WHERE id = ?"),
+    ).resolves.toEqual({ columns: [] });
+    await expect(
+      adapter.getQueryMetadata("INSERT INTO users (id, emial) VALUES (?, ?)"),
+    ).rejects.toThrow("no column named emial");
+  });
+
+  it("should fail to connect when the file does not exist", async () => {
+    // GIVEN
+    const missingAdapter = new SQLiteAdapter({ filename: join(tempDir, "missing.db") });
+
+    // WHEN / THEN
+    await expect(missingAdapter.connect()).rejects.toThrow();
+  });
+
+  describe("normalizeDeclaredType", () => {
+    it("should strip parameters and upper-case the type", () => {
+      expect(SQLiteAdapter.normalizeDeclaredType("varchar(255)")).toBe("VARCHAR");
+      expect(SQLiteAdapter.normalizeDeclaredType("decimal(10, 2)")).toBe("DECIMAL");
+      expect(SQLiteAdapter.normalizeDeclaredType(null)).toBe("UNKNOWN");
+    });
+  });
+});
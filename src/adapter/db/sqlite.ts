@@ -0,0 +1,158 @@
+import type Database from "better-sqlite3";
+
+import { getOuterJoinedTables } from "../../parser/parser";
+import type { ColumnMeta, QueryMeta } from "../../types/meta.i";
+
+import type { SqliteConfig } from "./config.i";
+import type { IDatabaseAdapter } from "./db.i";
+import { loadPeerDependency } from "./peer";
+
+/** Row of `PRAGMA table_info` */
+interface TableInfoRow {
+  name: string;
+  type: string;
+  notnull: number;
+  pk: number;
+}
+
+/** SQLite has no numeric type codes, so every column uses this code */
+const SQLITE_TYPE_CODE = 0;
+
+/**
+ * SQLite database adapter backed by a local database file
+ *
+ * Statements are prepared (never executed) to read column names and declared types
+ * (`sqlite3_column_decltype`); nullability comes from `PRAGMA table_info`.
+ */
+export class SQLiteAdapter implements IDatabaseAdapter {
+  private db: Database.Database | null = null;
+  private config: SqliteConfig;
+
+  /**
+   * Create a new SQLite adapter instance
+   */
+  constructor(config: SqliteConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Open the database file (read-only)
+   */
+  async connect(): Promise<void> {
+    const { default: Driver } = await loadPeerDependency(
+      "sqlite",
+      "better-sqlite3",
+      () => import("better-sqlite3"),
+    );
+    this.db = new Driver(this.config.filename, { readonly: true, fileMustExist: true });
+  }
+
+  /**
+   * Close the database file
+   */
+  disconnect(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+    return Promise.resolve();
+  }
+
+  /**
+   * Get column metadata for a SQL query using a prepared statement
+   */
+  getQueryMetadata(sql: string): Promise<QueryMeta> {
+    return new Promise((resolve) => {
+      const db = this.getDatabase();
+      const statement = db.prepare(sql);
+      const tableInfo = new Map<string, Map<string, TableInfoRow>>();
+      // NOT NULL columns of outer-joined tables are NULL when the joined row is missing
+      const outerJoinedTables = getOuterJoinedTables(sql, "sqlite");
+
+      // Statements returning no data (INSERT / UPDATE / DELETE) have no columns to describe
+      const columns = (statement.reader ? statement.columns() : []).map((column): ColumnMeta => {
+        const name = column.column ?? column.name;
+        const info = column.table ? this.getTableInfo(db, column.table, tableInfo) : null;
+        const row = info?.get(name.toLowerCase());
+
+        const metadata: ColumnMeta = {
+          name,
+          table: column.table,
+          type: SQLiteAdapter.normalizeDeclaredType(column.type),
+          typeCode: SQLITE_TYPE_CODE,
+          // Expression columns have no declared constraints, so nullability is unknown
+          nullable:
+            row && column.table
+              ? !SQLiteAdapter.isNotNull(row, info) ||
+                outerJoinedTables.has(column.table.toLowerCase())
+              : true,
+        };
+
+        if (column.column && column.name !== column.column) {
+          metadata.alias = column.name;
+        }
+
+        return metadata;
+      });
+
+      resolve({ columns });
+    });
+  }
+
+  /**
+   * Get `PRAGMA table_info` rows keyed by lower-cased column name
+   */
+  private getTableInfo(
+    db: Database.Database,
+    table: string,
+    cache: Map<string, Map<string, TableInfoRow>>,
+  ): Map<string, TableInfoRow> {
+    let info = cache.get(table);
+    if (!info) {
+      const rows = db.pragma(`table_info(${quoteIdentifier(table)})`) as TableInfoRow[];
+      info = new Map(rows.map((row) => [row.name.toLowerCase(), row]));
+      cache.set(table, info);
+    }
+    return info;
+  }
+
+  /**
+   * Get the opened database
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      throw new Error("Not connected to database");
+    }
+    return this.db;
+  }
+
+  /**
+   * Check if a column can never be NULL
+   *
+   * An `INTEGER PRIMARY KEY` column is an alias for the rowid and is never NULL
+   * even without a NOT NULL constraint.
+   */
+  static isNotNull(row: TableInfoRow, info: Map<string, TableInfoRow> | null): boolean {
+    if (row.notnull === 1) return true;
+
+    const primaryKeys = [...(info?.values() ?? [])].filter((column) => column.pk > 0);
+    return row.pk > 0 && primaryKeys.length === 1 && row.type.toUpperCase() === "INTEGER";
+  }
+
+  /**
+   * Normalize a declared type: "varchar(255)" -> "VARCHAR", null -> "UNKNOWN"
+   */
+  static normalizeDeclaredType(declaredType: string | null): string {
+    if (!declaredType) return "UNKNOWN";
+    return declaredType
+      .replace(/\(.*\)/, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .toUpperCase();
+  }
+}
+
+/**
+ * Quote an identifier for use in a PRAGMA argument
+ */
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
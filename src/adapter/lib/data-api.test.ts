@@ -0,0 +1,234 @@
+import { parseForESLint } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, TSESLint, type TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { DataApiAdapter } from "./data-api";
+import { setStaticSqlContext } from "./helpers";
+
+const SDK_CODE = `
+const command = new ExecuteStatementCommand({
+  resourceArn,
+  secretArn,
+  sql: "SELECT id, email FROM users WHERE id = :id",
+  parameters: [{ name: "id", value: { longValue: 1 } }],
+  formatRecordsAs: "JSON",
+});
+const output = await client.send(command);
+const rows = JSON.parse(output.formattedRecords ?? "[]");
+`;
+
+describe("Data API Library Adapter", () => {
+  const adapter = new DataApiAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect wrapper query calls", () => {
+      expect(adapter.isTargetMethod(parseQuery('data.query("SELECT id FROM users")'))).toBe(true);
+      expect(
+        adapter.isTargetMethod(parseQuery('data.query({ sql: "SELECT id FROM users" })')),
+      ).toBe(true);
+    });
+
+    it("should detect JSON.parse of formatted records", () => {
+      expect(adapter.isTargetMethod(parseQuery(SDK_CODE, "parse"))).toBe(true);
+    });
+
+    it("should detect inline awaited send", () => {
+      // GIVEN
+      const code = `const rows = JSON.parse((await client.send(new ExecuteStatementCommand({ sql: "SELECT 1 AS one", formatRecordsAs: "JSON" }))).formattedRecords!);`;
+
+      // WHEN / THEN
+      expect(adapter.isTargetMethod(parseQuery(code, "parse"))).toBe(true);
+    });
+
+    it("should not detect records without JSON format", () => {
+      // GIVEN
+      const code = SDK_CODE.replace('formatRecordsAs: "JSON",', "");
+
+      // WHEN / THEN
+      expect(adapter.isTargetMethod(parseQuery(code, "parse"))).toBe(false);
+    });
+
+    it("should not follow reassignable or shadowed commands", () => {
+      // GIVEN
+      const reassignable = SDK_CODE.replace("const command", "let command");
+      const shadowed = `
+        const command = new ExecuteStatementCommand({ sql: "SELECT 1", formatRecordsAs: "JSON" });
+        async function list(command) {
+          const output = await client.send(command);
+          return JSON.parse(output.formattedRecords);
+        }
+      `;
+
+      // WHEN / THEN
+      expect(adapter.isTargetMethod(parseQuery(reassignable, "parse"))).toBe(false);
+      expect(adapter.isTargetMethod(parseQuery(shadowed, "parse"))).toBe(false);
+    });
+
+    it("should not detect other calls", () => {
+      expect(adapter.isTargetMethod(parseQuery("const value = JSON.parse(text);", "parse"))).toBe(
+        false,
+      );
+      expect(adapter.isTargetMethod(parseQuery('data.execute("SELECT 1")', "execute"))).toBe(false);
+    });
+  });
+
+  describe("SQL Extraction", () => {
+    it("should replace named parameters with ? placeholders", () => {
+      // GIVEN
+      const node = parseQuery(
+        "data.query(\"SELECT id FROM users WHERE id = :id AND email = ':id' AND status = :status\", { id, status })",
+      );
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBe(
+        "SELECT id FROM users WHERE id = ? AND email = ':id' AND status = ?",
+      );
+    });
+
+    it("should use numbered placeholders for PostgreSQL and keep casts", () => {
+      // GIVEN
+      const node = parseQuery(
+        'data.query({ sql: "SELECT id::text FROM users WHERE id = :id OR id = :other" })',
+      );
+
+      // WHEN
+      const sql = new DataApiAdapter("postgresql").extractSql(node);
+
+      // THEN
+      expect(sql).toBe("SELECT id::text FROM users WHERE id = $1 OR id = $2");
+    });
+
+    it("should extract SQL from the ExecuteStatementCommand", () => {
+      expect(adapter.extractSql(parseQuery(SDK_CODE, "parse"))).toBe(
+        "SELECT id, email FROM users WHERE id = ?",
+      );
+    });
+  });
+
+  describe("Result Types", () => {
+    it("should use the row type for wrappers and a row array for JSON records", () => {
+      // GIVEN
+      const wrapper = parseQuery('data.query("SELECT id FROM users")');
+      const sdk = parseQuery(SDK_CODE, "parse");
+
+      // WHEN / THEN
+      expect(adapter.formatRowsType("{ id: number }", wrapper)).toBe("{ id: number }");
+      expect(adapter.formatRowsType("{ id: number }", sdk)).toBe("{ id: number }[]");
+    });
+
+    it("should override driver types with Data API value types", () => {
+      // GIVEN
+      const wrapper = parseQuery('data.query("SELECT id FROM users")');
+      const sdk = parseQuery(SDK_CODE, "parse");
+
+      // WHEN
+      const wrapperOverrides = adapter.getTypeOverrides(wrapper);
+      const sdkOverrides = adapter.getTypeOverrides(sdk);
+
+      // THEN
+      expect(wrapperOverrides).toMatchObject({ BIGINT: "number", DATETIME: "string" });
+      expect(wrapperOverrides).not.toHaveProperty("BLOB");
+      expect(sdkOverrides).toMatchObject({ BIGINT: "number", BLOB: "string" });
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should insert the row type after the wrapper method", () => {
+      // GIVEN
+      const code = 'data.query("SELECT id FROM users")';
+      const node = parseQuery(code);
+
+      // WHEN
+      const fix = adapter.generateFix(node, adapter.formatRowsType("{ id: number }", node));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe('data.query<{ id: number }>("SELECT id FROM users")');
+    });
+
+    it("should annotate the variable receiving JSON records", () => {
+      // GIVEN
+      const node = parseQuery(SDK_CODE, "parse");
+
+      // WHEN
+      const fix = adapter.generateFix(node, adapter.formatRowsType("{ id: number }", node));
+
+      // THEN
+      expect(applyFix(SDK_CODE, fix)).toContain(
+        'const rows: { id: number }[] = JSON.parse(output.formattedRecords ?? "[]");',
+      );
+    });
+
+    it("should read an existing variable annotation", () => {
+      // GIVEN
+      const code = SDK_CODE.replace("const rows =", "const rows: { id: string }[] =");
+
+      // WHEN
+      const result = adapter.getExistingTypeAnnotation(parseQuery(code, "parse"), code);
+
+      // THEN
+      expect(result?.columns).toEqual({ id: { type: "string", nullable: false } });
+    });
+  });
+});
+
+/**
+ * Parse code and return the first call of `method` with parent pointers and scopes set
+ */
+function parseQuery(code: string, method = "query"): TSESTree.CallExpression {
+  const { ast: program, scopeManager } = parseForESLint(code, {
+    range: true,
+    loc: true,
+    tokens: true,
+    comment: true,
+  });
+  const sourceCode = new TSESLint.SourceCode({
+    text: code,
+    ast: program,
+    parserServices: null,
+    scopeManager,
+    visitorKeys: null,
+  });
+  setStaticSqlContext(program, {
+    resolveConstant: () => null,
+    valuePlaceholder: null,
+    readSqlFile: null,
+    getScope: (node) => sourceCode.getScope(node),
+  });
+  let found: TSESTree.CallExpression | null = null;
+
+  const visit = (node: TSESTree.Node, parent: TSESTree.Node | undefined) => {
+    (node as { parent?: TSESTree.Node | undefined }).parent = parent;
+    if (
+      node.type === AST_NODE_TYPES.CallExpression &&
+      node.callee.type === AST_NODE_TYPES.MemberExpression &&
+      node.callee.property.type === AST_NODE_TYPES.Identifier &&
+      node.callee.property.name === method
+    ) {
+      found ??= node;
+    }
+    for (const value of Object.values(node)) {
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child && child !== parent) {
+          visit(child as TSESTree.Node, node);
+        }
+      }
+    }
+  };
+  visit(program, undefined);
+
+  if (!found) {
+    throw new Error(`No ${method}() call found`);
+  }
+  return found;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string } | null): string {
+  if (!fix) {
+    throw new Error("No fix generated");
+  }
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
@@ -0,0 +1,319 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import type { DatabaseEngine } from "../db/config.i";
+
+import {
+  findProperty,
+  type AnnotatedPattern,
+  getConstInit,
+  getDeclaredPattern,
+  getMemberPropertyName,
+  getStaticSql,
+  getTypeArguments,
+  parseTypeAnnotation,
+  replaceNamedPlaceholders,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Wrapper methods taking SQL as first argument: data.query(sql, params) */
+const WRAPPER_METHODS = new Set(["query"]);
+
+/** AWS SDK command class */
+const COMMAND_CLASS = "ExecuteStatementCommand";
+
+/**
+ * Types the Data API returns differently from the database drivers
+ *
+ * Integers come back as `longValue` (number) and dates / JSON as `stringValue`.
+ */
+const DATA_API_TYPE_OVERRIDES: Record<string, string> = {
+  BIGINT: "number",
+  INT8: "number",
+  DATE: "string",
+  DATETIME: "string",
+  TIMESTAMP: "string",
+  TIMESTAMPTZ: "string",
+  JSON: "string",
+  JSONB: "string",
+};
+
+/** `formatRecordsAs: "JSON"` encodes binary values as base64 strings */
+const JSON_RECORDS_TYPE_OVERRIDES: Record<string, string> = {
+  ...DATA_API_TYPE_OVERRIDES,
+  BLOB: "string",
+  TINYBLOB: "string",
+  MEDIUMBLOB: "string",
+  LONGBLOB: "string",
+  BINARY: "string",
+  VARBINARY: "string",
+  BYTEA: "string",
+};
+
+/**
+ * Adapter for the AWS RDS Data API
+ *
+ * - Wrappers (`data-api-client` / `rds-data` style): `data.query<Row>(sql, { id })`,
+ *   where the type argument is the row type of `records`
+ * - AWS SDK: `JSON.parse(output.formattedRecords)` of an `ExecuteStatementCommand`
+ *   sent with `formatRecordsAs: "JSON"`, annotated on the receiving variable
+ *
+ * `:name` placeholders are turned into positional placeholders before preparing.
+ */
+export class DataApiAdapter implements ILibraryAdapter {
+  private dbEngine: DatabaseEngine;
+
+  /**
+   * Create a new Data API adapter (placeholders follow the database engine)
+   */
+  constructor(dbEngine: DatabaseEngine = "mysql") {
+    this.dbEngine = dbEngine;
+  }
+
+  /**
+   * Check if a node is a wrapper query call or a JSON.parse of SDK formatted records
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+    if (this.isWrapperCall(node)) {
+      return true;
+    }
+    return this.getCommandOptions(node) !== null && getDeclaredPattern(node) !== null;
+  }
+
+  /**
+   * Extract SQL and replace `:name` placeholders
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return null;
+    }
+
+    const sql = this.isWrapperCall(node)
+      ? this.getWrapperSql(node)
+      : getStaticSql(findProperty(this.getCommandOptions(node), "sql") ?? undefined);
+    if (sql === null) {
+      return null;
+    }
+
+    return replaceNamedPlaceholders(sql, (_name, index) =>
+      this.dbEngine === "postgresql" ? `$${String(index + 1)}` : "?",
+    );
+  }
+
+  /**
+   * Data API parameters are named objects; they are not checked
+   */
+  getParameterValues(): TSESTree.Expression[] | null {
+    return null;
+  }
+
+  /**
+   * Get the wrapper type argument or the annotation of the variable receiving JSON records
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const annotation = this.isWrapperCall(node)
+      ? getTypeArguments(node)?.params[0]
+      : this.getRecordsPattern(node)?.typeAnnotation?.typeAnnotation;
+    if (!annotation) {
+      return null;
+    }
+
+    const typeText = sourceCode.slice(annotation.range[0], annotation.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Insert or replace the wrapper type argument / records variable annotation
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo | null {
+    if (node.type === AST_NODE_TYPES.CallExpression && this.isWrapperCall(node)) {
+      const typeArgs = getTypeArguments(node);
+      if (typeArgs) {
+        return { range: typeArgs.range, text: `<${expectedType}>` };
+      }
+
+      const insertPosition = node.callee.range[1];
+      return { range: [insertPosition, insertPosition], text: `<${expectedType}>` };
+    }
+
+    const pattern = this.getRecordsPattern(node);
+    if (!pattern) {
+      return null;
+    }
+    if (pattern.typeAnnotation) {
+      return { range: pattern.typeAnnotation.range, text: `: ${expectedType}` };
+    }
+
+    const insertPosition = pattern.range[1];
+    return { range: [insertPosition, insertPosition], text: `: ${expectedType}` };
+  }
+
+  /**
+   * Wrappers take the row type; JSON records are an array of rows
+   */
+  formatRowsType(rowType: string, node: QueryExpression): string {
+    return this.isWrapperCall(node) ? rowType : `${rowType}[]`;
+  }
+
+  /**
+   * Data API values are decoded from typed fields, not by a database driver
+   */
+  getTypeOverrides(node: QueryExpression): Record<string, string> | null {
+    return this.isWrapperCall(node) ? DATA_API_TYPE_OVERRIDES : JSON_RECORDS_TYPE_OVERRIDES;
+  }
+
+  /**
+   * Data API has no mysql2-style options
+   */
+  getQueryOptions(_node: QueryExpression): QueryOptions {
+    return { nestTables: false, rowsAsArray: false };
+  }
+
+  /**
+   * Data API results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * Writes report `numberOfRecordsUpdated` on the response (not checked)
+   */
+  getWriteResultType(): WriteResultType | null {
+    return null;
+  }
+
+  /**
+   * Check if a node is `data.query(sql | { sql }, params)`
+   */
+  private isWrapperCall(node: QueryExpression): node is TSESTree.CallExpression {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+    const methodName = getMemberPropertyName(node.callee);
+    return methodName !== null && WRAPPER_METHODS.has(methodName);
+  }
+
+  /**
+   * Get wrapper SQL from a string argument or a `{ sql }` object
+   */
+  private getWrapperSql(node: TSESTree.CallExpression): string | null {
+    const firstArg = node.arguments[0];
+    if (firstArg?.type === AST_NODE_TYPES.ObjectExpression) {
+      return getStaticSql(findProperty(firstArg, "sql") ?? undefined);
+    }
+    return getStaticSql(firstArg);
+  }
+
+  /**
+   * Get the variable receiving `JSON.parse(output.formattedRecords)`
+   */
+  private getRecordsPattern(node: QueryExpression): AnnotatedPattern | null {
+    return getDeclaredPattern(node);
+  }
+
+  /**
+   * Resolve `JSON.parse(output.formattedRecords)` to the options of the
+   * `ExecuteStatementCommand` that produced `output` (only with `formatRecordsAs: "JSON"`)
+   */
+  private getCommandOptions(node: QueryExpression): TSESTree.ObjectExpression | null {
+    if (node.type !== AST_NODE_TYPES.CallExpression || !isJsonParse(node.callee)) {
+      return null;
+    }
+
+    // output.formattedRecords / output.formattedRecords! / output.formattedRecords ?? "[]"
+    const records = unwrapExpression(node.arguments[0]);
+    if (
+      records?.type !== AST_NODE_TYPES.MemberExpression ||
+      getMemberPropertyName(records) !== "formattedRecords"
+    ) {
+      return null;
+    }
+
+    // await client.send(command)
+    const sendCall = resolveExpression(records.object);
+    if (
+      sendCall?.type !== AST_NODE_TYPES.CallExpression ||
+      getMemberPropertyName(sendCall.callee) !== "send"
+    ) {
+      return null;
+    }
+
+    // new ExecuteStatementCommand({ ... })
+    const command = resolveExpression(sendCall.arguments[0]);
+    if (
+      command?.type !== AST_NODE_TYPES.NewExpression ||
+      command.callee.type !== AST_NODE_TYPES.Identifier ||
+      command.callee.name !== COMMAND_CLASS
+    ) {
+      return null;
+    }
+
+    const options = command.arguments[0];
+    if (options?.type !== AST_NODE_TYPES.ObjectExpression) {
+      return null;
+    }
+
+    const format = findProperty(options, "formatRecordsAs");
+    if (format?.type !== AST_NODE_TYPES.Literal || format.value !== "JSON") {
+      return null;
+    }
+
+    return options;
+  }
+}
+
+/**
+ * Check if a callee is `JSON.parse`
+ */
+function isJsonParse(callee: TSESTree.Expression): boolean {
+  return (
+    callee.type === AST_NODE_TYPES.MemberExpression &&
+    callee.object.type === AST_NODE_TYPES.Identifier &&
+    callee.object.name === "JSON" &&
+    getMemberPropertyName(callee) === "parse"
+  );
+}
+
+/**
+ * Strip `!`, `?? fallback`, `|| fallback`, optional chains and `await`
+ */
+function unwrapExpression(node: TSESTree.Node | undefined): TSESTree.Node | undefined {
+  if (!node) return undefined;
+
+  switch (node.type) {
+    case AST_NODE_TYPES.TSNonNullExpression:
+      return unwrapExpression(node.expression);
+    case AST_NODE_TYPES.LogicalExpression:
+      return unwrapExpression(node.left);
+    case AST_NODE_TYPES.ChainExpression:
+      return unwrapExpression(node.expression);
+    case AST_NODE_TYPES.AwaitExpression:
+      return unwrapExpression(node.argument);
+    default:
+      return node;
+  }
+}
+
+/**
+ * Unwrap an expression and follow identifiers to their `const` initializer
+ */
+function resolveExpression(node: TSESTree.Node | undefined): TSESTree.Node | undefined {
+  const expr = unwrapExpression(node);
+  if (expr?.type !== AST_NODE_TYPES.Identifier) {
+    return expr;
+  }
+  return unwrapExpression(getConstInit(expr) ?? undefined);
+}
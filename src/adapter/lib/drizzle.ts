@@ -0,0 +1,16 @@
+import { SqlTagAdapter, type SqlTagHelperKind } from "./sql-tag";
+
+/**
+ * Adapter for Drizzle `sql<T>`...`` templates (`await db.execute(sql<T>`...`)`)
+ *
+ * Interpolated columns and tables (`${users.id}`) are only told apart from values by their
+ * position: outside a value position the SQL is unknown and the query is skipped.
+ */
+export class DrizzleAdapter extends SqlTagAdapter {
+  protected readonly helpers: Readonly<Record<string, SqlTagHelperKind>> = {
+    param: "value",
+    placeholder: "value",
+    raw: "raw",
+    identifier: "identifier",
+  };
+}
@@ -0,0 +1,693 @@
+import { AST_NODE_TYPES, ASTUtils, TSESLint, type TSESTree } from "@typescript-eslint/utils";
+
+import type { ColumnTypeInfo, ColumnTypeRegistry } from "../../types/column.i";
+
+import type { NamedParameterValues, ParsedTypeAnnotation, QueryExpression } from "./lib.i";
+
+/**
+ * Get the explicit type arguments of a call or tagged template (`fn<T>(...)`, tag<T>`...`)
+ */
+export function getTypeArguments(
+  node: QueryExpression,
+): TSESTree.TSTypeParameterInstantiation | undefined {
+  return (node as QueryExpression & { typeArguments?: TSESTree.TSTypeParameterInstantiation })
+    .typeArguments;
+}
+
+/**
+ * Resolve an identifier to the SQL string constant it refers to
+ */
+export type ConstantResolver = (identifier: TSESTree.Identifier) => string | null;
+
+/**
+ * How the SQL of a linted file is folded (set by the rule)
+ */
+export interface StaticSqlContext {
+  /** Resolve identifiers to SQL constants */
+  resolveConstant: ConstantResolver;
+  /** Placeholder for the n-th dynamic value interpolated in a template (null to give up) */
+  valuePlaceholder: ((index: number) => string) | null;
+  /** Read a `.sql` file from a URL / specifier relative to the linted file (null if unreadable) */
+  readSqlFile: ((specifier: string) => string | null) | null;
+  /** Get the innermost scope of a node (null without scope analysis) */
+  getScope: ((node: TSESTree.Node) => TSESLint.Scope.Scope) | null;
+}
+
+/** Static SQL context registered for each linted file */
+const staticSqlContexts = new WeakMap<TSESTree.Program, StaticSqlContext>();
+
+/**
+ * Register how the SQL of a file is folded
+ */
+export function setStaticSqlContext(program: TSESTree.Program, context: StaticSqlContext): void {
+  staticSqlContexts.set(program, context);
+}
+
+/**
+ * Get the SQL of a string expression that folds to a constant
+ *
+ * Literals, constants, template literals, `+` chains and `[...].join(sep)` of static parts are
+ * folded, and `readFileSync(new URL("./query.sql", import.meta.url))` reads the file. Any
+ * dynamic part makes the whole SQL unknown (null). With a `valuePlaceholder`,
+ * dynamic template values (`WHERE id = ${id}`) become placeholders instead.
+ */
+export function getStaticSql(node: TSESTree.Node | undefined): string | null {
+  if (!node) {
+    return null;
+  }
+
+  const program = getProgram(node);
+  const context = program ? staticSqlContexts.get(program) : undefined;
+  let placeholderCount = 0;
+
+  const fold = (part: TSESTree.Node): string | number | null => {
+    switch (part.type) {
+      case AST_NODE_TYPES.Literal:
+        return typeof part.value === "string" || typeof part.value === "number" ? part.value : null;
+
+      // `const QUERY = "..."` (same file or imported)
+      case AST_NODE_TYPES.Identifier:
+        return context?.resolveConstant(part) ?? null;
+
+      case AST_NODE_TYPES.TemplateLiteral:
+        return getTemplateSql(part, (expression, sqlBefore) => {
+          const value = fold(expression);
+          if (value !== null) {
+            return String(value);
+          }
+          const valuePlaceholder = context?.valuePlaceholder;
+          if (!valuePlaceholder) {
+            return null;
+          }
+          return getValueSubstitute(sqlBefore, () => valuePlaceholder(placeholderCount++));
+        });
+
+      case AST_NODE_TYPES.BinaryExpression: {
+        if (part.operator !== "+") {
+          return null;
+        }
+        const left = fold(part.left);
+        const right = fold(part.right);
+        if (left === null || right === null) {
+          return null;
+        }
+        return typeof left === "number" && typeof right === "number"
+          ? left + right
+          : String(left) + String(right);
+      }
+
+      // `[...].join(" ")` / `readFileSync(new URL(...), "utf8")`
+      case AST_NODE_TYPES.CallExpression:
+        return foldJoin(part, fold) ?? foldSqlFileRead(part, fold, context?.readSqlFile ?? null);
+
+      // `"..." as const`
+      case AST_NODE_TYPES.TSAsExpression:
+      case AST_NODE_TYPES.TSSatisfiesExpression:
+        return fold(part.expression);
+
+      default:
+        return null;
+    }
+  };
+
+  const value = fold(node);
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * Get the initializer of the `const` an identifier refers to
+ *
+ * The variable is resolved with the scope manager (shadowing included) and must have a single
+ * `const` definition: parameters, `let` / `var` and destructured names are not followed.
+ */
+export function getConstInit(identifier: TSESTree.Identifier): TSESTree.Expression | null {
+  const program = getProgram(identifier);
+  const getScope = program ? staticSqlContexts.get(program)?.getScope : null;
+  if (!getScope) {
+    return null;
+  }
+
+  const variable = ASTUtils.findVariable(getScope(identifier), identifier);
+  const definition = variable?.defs.length === 1 ? variable.defs[0] : undefined;
+  if (
+    definition?.type !== TSESLint.Scope.DefinitionType.Variable ||
+    definition.parent.kind !== "const" ||
+    definition.node.id.type !== AST_NODE_TYPES.Identifier
+  ) {
+    return null;
+  }
+  return definition.node.init;
+}
+
+/** SQL text ending right before a value: comparison / arithmetic operators and value keywords */
+const VALUE_POSITION_PATTERN =
+  /(?:[=<>+\-*/%]|\b(?:IN|LIKE|ILIKE|BETWEEN|LIMIT|OFFSET|WHEN|THEN|ELSE)|\bBETWEEN\s+\S+\s+AND)\s*$/i;
+
+/** SQL text ending right before the parenthesis of a value list: `VALUES (` / `IN (` */
+const VALUE_LIST_PATTERN = /\b(?:VALUES|IN)\s*$/i;
+
+/**
+ * Get what replaces a dynamic template value given the SQL before it
+ *
+ * Inside a quoted string the value is dropped (`'%${q}%'` -> `'%%'`); in a value position
+ * (after an operator, a value keyword, or `(` / `,` of a `VALUES (...)` tuple or an `IN (...)`
+ * list) it becomes a placeholder. Elsewhere (table / column names, column lists, function
+ * arguments, fragments) the SQL cannot be known (null).
+ */
+export function getValueSubstitute(
+  sqlBefore: string,
+  nextPlaceholder: () => string,
+): string | null {
+  let inString = false;
+  // Whether each open parenthesis holds a value list, and whether the last closed one did
+  const lists: boolean[] = [];
+  let closedList = false;
+  for (let index = 0; index < sqlBefore.length; index++) {
+    const char = sqlBefore[index];
+    if (char === "'") {
+      inString = !inString;
+    } else if (!inString && char === "(") {
+      const before = sqlBefore.slice(0, index).trimEnd();
+      // `VALUES (...), (` continues the rows of a VALUES list
+      lists.push(VALUE_LIST_PATTERN.test(before) || (closedList && before.endsWith(",")));
+    } else if (!inString && char === ")") {
+      closedList = lists.pop() ?? false;
+    }
+  }
+
+  if (inString) {
+    return "";
+  }
+  const trimmed = sqlBefore.trimEnd();
+  if (VALUE_POSITION_PATTERN.test(trimmed) || (lists.at(-1) === true && /[(,]$/.test(trimmed))) {
+    return nextPlaceholder();
+  }
+  return null;
+}
+
+/**
+ * Fold `[a, b].join(sep)` of static elements (`sep` defaults to ",")
+ */
+function foldJoin(
+  node: TSESTree.CallExpression,
+  fold: (part: TSESTree.Node) => string | number | null,
+): string | null {
+  const callee = node.callee;
+  if (
+    getMemberPropertyName(callee) !== "join" ||
+    callee.type !== AST_NODE_TYPES.MemberExpression ||
+    callee.object.type !== AST_NODE_TYPES.ArrayExpression ||
+    node.arguments.length > 1
+  ) {
+    return null;
+  }
+
+  const separatorArg = node.arguments[0];
+  const separator = separatorArg ? fold(separatorArg) : ",";
+  if (separator === null) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  for (const element of callee.object.elements) {
+    const value = element ? fold(element) : null;
+    if (value === null) {
+      return null; // Holes, spreads and dynamic elements
+    }
+    parts.push(String(value));
+  }
+  return parts.join(String(separator));
+}
+
+/**
+ * Fold `readFileSync(new URL("./query.sql", import.meta.url), "utf8")` (or `.toString()` of it)
+ * to the content of the file
+ */
+function foldSqlFileRead(
+  node: TSESTree.CallExpression,
+  fold: (part: TSESTree.Node) => string | number | null,
+  readSqlFile: ((specifier: string) => string | null) | null,
+): string | null {
+  if (!readSqlFile) {
+    return null;
+  }
+
+  const callee = node.callee;
+  if (
+    callee.type === AST_NODE_TYPES.MemberExpression &&
+    getMemberPropertyName(callee) === "toString" &&
+    callee.object.type === AST_NODE_TYPES.CallExpression
+  ) {
+    return foldSqlFileRead(callee.object, fold, readSqlFile);
+  }
+
+  const name =
+    callee.type === AST_NODE_TYPES.Identifier ? callee.name : getMemberPropertyName(callee);
+  const url = node.arguments[0];
+  if (
+    name !== "readFileSync" ||
+    url?.type !== AST_NODE_TYPES.NewExpression ||
+    url.callee.type !== AST_NODE_TYPES.Identifier ||
+    url.callee.name !== "URL" ||
+    !isImportMetaUrl(url.arguments[1])
+  ) {
+    return null;
+  }
+
+  const specifier = url.arguments[0] ? fold(url.arguments[0]) : null;
+  return typeof specifier === "string" ? readSqlFile(specifier) : null;
+}
+
+/**
+ * Check if a node is `import.meta.url`
+ */
+function isImportMetaUrl(node: TSESTree.Node | undefined): boolean {
+  return (
+    node?.type === AST_NODE_TYPES.MemberExpression &&
+    node.object.type === AST_NODE_TYPES.MetaProperty &&
+    node.object.meta.name === "import" &&
+    getMemberPropertyName(node) === "url"
+  );
+}
+
+/**
+ * Get the SQL of a template literal, replacing each `${}` with the text from `interpolate`
+ * (null when an interpolation cannot be turned into SQL)
+ */
+export function getTemplateSql(
+  template: TSESTree.TemplateLiteral,
+  interpolate: (expression: TSESTree.Expression, sqlBefore: string) => string | null,
+): string | null {
+  let sql = "";
+  for (const [index, quasi] of template.quasis.entries()) {
+    sql += quasi.value.cooked ?? quasi.value.raw;
+
+    const expression = template.expressions[index];
+    if (!expression) continue;
+
+    const text = interpolate(expression, sql);
+    if (text === null) {
+      return null;
+    }
+    sql += text;
+  }
+  return sql;
+}
+
+/**
+ * Get the property name of a member expression callee / tag (`obj.name` -> "name")
+ */
+export function getMemberPropertyName(node: TSESTree.Node): string | null {
+  if (node.type !== AST_NODE_TYPES.MemberExpression) {
+    return null;
+  }
+  if (node.property.type !== AST_NODE_TYPES.Identifier) {
+    return null;
+  }
+  return node.property.name;
+}
+
+/**
+ * Find property value in object expression (`{ name: value }`)
+ */
+export function findProperty(
+  obj: TSESTree.ObjectExpression | null,
+  name: string,
+): TSESTree.Node | null {
+  for (const prop of obj?.properties ?? []) {
+    if (
+      prop.type === AST_NODE_TYPES.Property &&
+      prop.key.type === AST_NODE_TYPES.Identifier &&
+      prop.key.name === name
+    ) {
+      return prop.value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the values bound to the placeholders of a driver call: the array after the SQL
+ * (`query(sql, [a, b], callback)`) or the `values` of a `{ sql, values }` options object
+ *
+ * Empty without values; null when the values are not an array literal of plain elements.
+ */
+export function getValuesArray(
+  node: QueryExpression,
+  queryOptions: TSESTree.ObjectExpression | null,
+): TSESTree.Expression[] | null {
+  if (node.type !== AST_NODE_TYPES.CallExpression) {
+    return null;
+  }
+
+  const values = getValuesArgument(node, queryOptions);
+  if (!values) {
+    return [];
+  }
+  if (values.type !== AST_NODE_TYPES.ArrayExpression) {
+    return null;
+  }
+
+  const elements: TSESTree.Expression[] = [];
+  for (const element of values.elements) {
+    if (!element || element.type === AST_NODE_TYPES.SpreadElement) {
+      return null;
+    }
+    elements.push(element);
+  }
+  return elements;
+}
+
+/**
+ * Get the values object bound to `:name` placeholders (`execute(sql, { id })`), passed like a
+ * values array
+ *
+ * Without values no name is supplied; null when the values are not an object literal with
+ * plain keys.
+ */
+export function getValuesObject(
+  node: QueryExpression,
+  queryOptions: TSESTree.ObjectExpression | null,
+  names: string[],
+): NamedParameterValues | null {
+  if (node.type !== AST_NODE_TYPES.CallExpression) {
+    return null;
+  }
+
+  const values = getValuesArgument(node, queryOptions);
+  if (!values) {
+    return { names, object: null, properties: new Map() };
+  }
+  if (values.type !== AST_NODE_TYPES.ObjectExpression) {
+    return null;
+  }
+
+  const properties = new Map<string, TSESTree.Property>();
+  for (const property of values.properties) {
+    if (property.type !== AST_NODE_TYPES.Property || property.computed) {
+      return null;
+    }
+    const key =
+      property.key.type === AST_NODE_TYPES.Identifier
+        ? property.key.name
+        : String(property.key.value);
+    properties.set(key, property);
+  }
+  return { names, object: values, properties };
+}
+
+/**
+ * Get the values argument of a driver call (the callback is not a values argument)
+ */
+function getValuesArgument(
+  node: TSESTree.CallExpression,
+  queryOptions: TSESTree.ObjectExpression | null,
+): TSESTree.Node | null {
+  const secondArg = node.arguments[1];
+  return secondArg &&
+    secondArg.type !== AST_NODE_TYPES.ArrowFunctionExpression &&
+    secondArg.type !== AST_NODE_TYPES.FunctionExpression
+    ? secondArg
+    : findProperty(queryOptions, "values");
+}
+
+/**
+ * Parse type annotation string to extract column types
+ */
+export function parseTypeAnnotation(typeStr: string): ParsedTypeAnnotation {
+  const columns: ColumnTypeRegistry = {};
+
+  // Extract content between { and }
+  const match = /\{\s*([^}]+)\s*\}/.exec(typeStr);
+  if (!match?.[1]) {
+    return { columns, text: typeStr };
+  }
+
+  const content = match[1];
+
+  // Parse each column: "name: type" or "name: type | null"
+  // Remove comments before parsing
+  const columnParts = content
+    .replace(/\/\*[\s\S]*?\*\//g, "") // Remove block comments (/* ... */ and /** ... */)
+    .replace(/\/\/[^\n]*/g, "") // Remove line comments (// ...)
+    .split(";")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  for (const part of columnParts) {
+    const colonIndex = part.indexOf(":");
+    if (colonIndex === -1) continue;
+
+    const name = part.slice(0, colonIndex).trim();
+    const typeExpr = part.slice(colonIndex + 1).trim();
+
+    columns[name] = parseTypeExpression(typeExpr);
+  }
+
+  return { columns, text: typeStr };
+}
+
+/**
+ * Parse a single type expression
+ */
+function parseTypeExpression(typeExpr: string): ColumnTypeInfo {
+  const nullable = typeExpr.includes("| null");
+  const cleanExpr = typeExpr.replace(/\s*\|\s*null\s*$/, "").trim();
+
+  // Check for enum (union of string literals)
+  if (cleanExpr.includes('"')) {
+    const enumValues = extractEnumValues(cleanExpr);
+    if (enumValues.length > 0) {
+      return { type: "enum", nullable, enumValues };
+    }
+  }
+
+  return { type: cleanExpr, nullable };
+}
+
+/**
+ * Extract enum values from union type string
+ */
+function extractEnumValues(typeExpr: string): string[] {
+  const values: string[] = [];
+  const regex = /"([^"]+)"/g;
+  let match;
+  while ((match = regex.exec(typeExpr)) !== null) {
+    if (match[1]) {
+      values.push(match[1]);
+    }
+  }
+  return values;
+}
+
+/**
+ * Variable patterns that can carry a result type annotation
+ */
+export type AnnotatedPattern = TSESTree.Identifier | TSESTree.ArrayPattern;
+
+/**
+ * Get the variable an expression initializes: `const <pattern> = <expr>`
+ */
+export function getDeclaredPattern(expr: TSESTree.Node): AnnotatedPattern | null {
+  const declarator = expr.parent;
+  if (declarator?.type !== AST_NODE_TYPES.VariableDeclarator || declarator.init !== expr) {
+    return null;
+  }
+
+  const id = declarator.id;
+  if (id.type === AST_NODE_TYPES.Identifier || id.type === AST_NODE_TYPES.ArrayPattern) {
+    return id;
+  }
+  return null;
+}
+
+/**
+ * Replace `:name` placeholders outside string literals, quoted identifiers and comments
+ *
+ * `::` casts and `:=` assignments are kept as-is.
+ */
+export function replaceNamedPlaceholders(
+  sql: string,
+  placeholder: (name: string, index: number) => string,
+): string {
+  return replaceParameters(sql, /:([A-Za-z_]\w*)/y, (match, index) =>
+    placeholder(match[1] ?? "", index),
+  );
+}
+
+/**
+ * Replace parameters matched by a sticky `pattern` outside string literals, quoted identifiers
+ * and comments. Matches right after a word character, `:` or `$` are not parameters.
+ */
+export function replaceParameters(
+  sql: string,
+  pattern: RegExp,
+  placeholder: (match: RegExpExecArray, index: number) => string,
+): string {
+  let result = "";
+  let index = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i] ?? "";
+
+    // Skip quoted strings / identifiers
+    if (char === "'" || char === '"' || char === "`") {
+      const end = findClosingQuote(sql, i);
+      result += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    // Skip comments
+    if (char === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      const stop = end === -1 ? sql.length : end;
+      result += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (char === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      result += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (!/[\w:$]/.test(sql[i - 1] ?? "")) {
+      pattern.lastIndex = i;
+      const match = pattern.exec(sql);
+      if (match) {
+        result += placeholder(match, index++);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Find the index after the closing quote matching the quote at `start`
+ */
+function findClosingQuote(sql: string, start: number): number {
+  const quote = sql[start];
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (sql[i] === quote) {
+      // Doubled quote is an escaped quote
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+/**
+ * Check if a node is the literal `true`
+ */
+export function isTrueLiteral(node: TSESTree.Node | null): boolean {
+  return node?.type === AST_NODE_TYPES.Literal && node.value === true;
+}
+
+/**
+ * Read a boolean driver option: a literal in the query options wins, otherwise any
+ * `factoryNames` call of the file setting it to `true` (connection-wide default)
+ */
+export function getBooleanOption(
+  node: TSESTree.Node,
+  queryOptions: TSESTree.ObjectExpression | null,
+  factoryNames: ReadonlySet<string>,
+  name: string,
+): boolean {
+  const value = findProperty(queryOptions, name);
+  if (value?.type === AST_NODE_TYPES.Literal) {
+    return value.value === true;
+  }
+
+  return findFactoryOptions(node, factoryNames).some((options) =>
+    isTrueLiteral(findProperty(options, name)),
+  );
+}
+
+/** Options object literals of calls in a program, by callee name */
+const callOptionsCache = new WeakMap<TSESTree.Program, Map<string, TSESTree.ObjectExpression[]>>();
+
+/**
+ * Find the options object literals passed as first argument to `factoryNames` calls anywhere in
+ * the file of `node` (e.g. `mariadb.createPool({ bigIntAsNumber: true })`)
+ */
+export function findFactoryOptions(
+  node: TSESTree.Node,
+  factoryNames: ReadonlySet<string>,
+): TSESTree.ObjectExpression[] {
+  const program = getProgram(node);
+  if (!program) {
+    return [];
+  }
+
+  let callOptions = callOptionsCache.get(program);
+  if (!callOptions) {
+    callOptions = collectCallOptions(program);
+    callOptionsCache.set(program, callOptions);
+  }
+
+  return [...factoryNames].flatMap((name) => callOptions.get(name) ?? []);
+}
+
+/**
+ * Get the program of a node by walking up its parents (null when parents are not set)
+ */
+function getProgram(node: TSESTree.Node): TSESTree.Program | null {
+  let root: TSESTree.Node = node;
+  while (root.parent) {
+    root = root.parent;
+  }
+  return root.type === AST_NODE_TYPES.Program ? root : null;
+}
+
+/**
+ * Collect `name({ ... })` / `obj.name({ ... })` options object literals by callee name
+ */
+function collectCallOptions(program: TSESTree.Program): Map<string, TSESTree.ObjectExpression[]> {
+  const callOptions = new Map<string, TSESTree.ObjectExpression[]>();
+
+  const visit = (node: TSESTree.Node) => {
+    if (node.type === AST_NODE_TYPES.CallExpression) {
+      const name =
+        node.callee.type === AST_NODE_TYPES.Identifier
+          ? node.callee.name
+          : getMemberPropertyName(node.callee);
+      const options = node.arguments[0];
+      if (name !== null && options?.type === AST_NODE_TYPES.ObjectExpression) {
+        callOptions.set(name, [...(callOptions.get(name) ?? []), options]);
+      }
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key === "parent") continue;
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child) {
+          visit(child as TSESTree.Node);
+        }
+      }
+    }
+  };
+  visit(program);
+
+  return callOptions;
+}
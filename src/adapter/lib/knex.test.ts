@@ -0,0 +1,197 @@
+import { parse } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { KnexAdapter } from "./knex";
+
+describe("Knex Library Adapter", () => {
+  const adapter = new KnexAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect raw calls on knex and transactions", () => {
+      expect(adapter.isTargetMethod(parseRaw('await knex.raw("SELECT 1")'))).toBe(true);
+      expect(adapter.isTargetMethod(parseRaw('const r = await trx.raw("SELECT 1")'))).toBe(true);
+      expect(adapter.isTargetMethod(parseRaw('const p = this.db.raw("SELECT 1")'))).toBe(true);
+    });
+
+    it("should not detect raw fragments passed to the query builder", () => {
+      expect(
+        adapter.isTargetMethod(parseRaw('knex("users").whereIn("id", knex.raw("SELECT 1"))')),
+      ).toBe(false);
+      expect(adapter.isTargetMethod(parseRaw('knex.select([knex.raw("count(*)")])'))).toBe(false);
+    });
+  });
+
+  describe("SQL Extraction", () => {
+    it("should inline ?? identifiers and keep ? values", () => {
+      // GIVEN
+      const node = parseRaw('knex.raw("SELECT ?? FROM users WHERE id = ?", ["users.email", id])');
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBe("SELECT `users`.`email` FROM users WHERE id = ?");
+    });
+
+    it("should keep escaped question marks", () => {
+      // GIVEN
+      const node = parseRaw(
+        "knex.raw(\"SELECT data \\\\? 'a' AS has_a FROM docs WHERE id = ?\", [id])",
+      );
+
+      // WHEN / THEN
+      expect(new KnexAdapter("postgresql").extractSql(node)).toBe(
+        "SELECT data ? 'a' AS has_a FROM docs WHERE id = $1",
+      );
+    });
+
+    it("should convert named bindings and keep casts", () => {
+      // GIVEN
+      const node = parseRaw(
+        'knex.raw("SELECT :column:, created_at::date FROM users WHERE id = :id OR id = :other", { column: "email", id, other })',
+      );
+
+      // WHEN
+      const sql = new KnexAdapter("postgresql").extractSql(node);
+
+      // THEN
+      expect(sql).toBe('SELECT "email", created_at::date FROM users WHERE id = $1 OR id = $2');
+    });
+
+    it("should keep bindings inside strings and comments", () => {
+      // GIVEN
+      const positional = parseRaw(
+        "knex.raw(\"SELECT '?' AS q /* ?? */ FROM users WHERE id = ?\", [id])",
+      );
+      const named = parseRaw(
+        "knex.raw(\"SELECT ':id' AS q FROM users -- :other\\nWHERE id = :id\", { id })",
+      );
+      const postgresAdapter = new KnexAdapter("postgresql");
+
+      // WHEN / THEN
+      expect(postgresAdapter.extractSql(positional)).toBe(
+        "SELECT '?' AS q /* ?? */ FROM users WHERE id = $1",
+      );
+      expect(postgresAdapter.extractSql(named)).toBe(
+        "SELECT ':id' AS q FROM users -- :other\nWHERE id = $1",
+      );
+    });
+
+    it("should return null for dynamic identifier bindings", () => {
+      // GIVEN
+      const node = parseRaw('knex.raw("SELECT ?? FROM users", [column])');
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBeNull();
+    });
+  });
+
+  describe("Type Annotation", () => {
+    it("should read rows from the [rows, fields] type argument", () => {
+      // GIVEN
+      const code =
+        'knex.raw<[{ id: number; email: string | null }[], unknown]>("SELECT id, email FROM users")';
+
+      // WHEN
+      const result = adapter.getExistingTypeAnnotation(parseRaw(code), code);
+
+      // THEN
+      expect(result?.columns).toEqual({
+        id: { type: "number", nullable: false },
+        email: { type: "string", nullable: true },
+      });
+    });
+
+    it("should read rows from an as assertion of the awaited result", () => {
+      // GIVEN
+      const code =
+        'const result = (await knex.raw("SELECT id FROM users")) as { rows: { id: number }[] };';
+
+      // WHEN
+      const result = adapter.getExistingTypeAnnotation(parseRaw(code), code);
+
+      // THEN
+      expect(result?.columns).toEqual({ id: { type: "number", nullable: false } });
+    });
+
+    it("should return null without annotation", () => {
+      // GIVEN
+      const code = 'await knex.raw("SELECT id FROM users")';
+
+      // WHEN / THEN
+      expect(adapter.getExistingTypeAnnotation(parseRaw(code), code)).toBeNull();
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should insert the [rows, fields] result for MySQL", () => {
+      // GIVEN
+      const code = 'await knex.raw("SELECT id FROM users")';
+
+      // WHEN
+      const fix = adapter.generateFix(parseRaw(code), adapter.formatRowsType("{ id: number }"));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        'await knex.raw<[{ id: number }[], unknown]>("SELECT id FROM users")',
+      );
+    });
+
+    it("should replace the asserted type", () => {
+      // GIVEN
+      const code =
+        'const r = (await knex.raw("SELECT id FROM users")) as { rows: { id: string }[] };';
+      const postgresAdapter = new KnexAdapter("postgresql");
+
+      // WHEN
+      const fix = postgresAdapter.generateFix(
+        parseRaw(code),
+        postgresAdapter.formatRowsType("{ id: number }"),
+      );
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        'const r = (await knex.raw("SELECT id FROM users")) as { rows: { id: number }[] };',
+      );
+    });
+  });
+});
+
+/**
+ * Parse code and return the last `.raw(...)` call with parent pointers set
+ */
+function parseRaw(code: string): TSESTree.CallExpression {
+  const program = parse(code, { range: true });
+  let found: TSESTree.CallExpression | null = null;
+
+  const visit = (node: TSESTree.Node, parent: TSESTree.Node | undefined) => {
+    (node as { parent?: TSESTree.Node | undefined }).parent = parent;
+    if (
+      node.type === AST_NODE_TYPES.CallExpression &&
+      node.callee.type === AST_NODE_TYPES.MemberExpression &&
+      node.callee.property.type === AST_NODE_TYPES.Identifier &&
+      node.callee.property.name === "raw"
+    ) {
+      found = node;
+    }
+    for (const value of Object.values(node)) {
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child && child !== parent) {
+          visit(child as TSESTree.Node, node);
+        }
+      }
+    }
+  };
+  visit(program, undefined);
+
+  if (!found) {
+    throw new Error("No raw() call found");
+  }
+  return found;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string }): string {
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
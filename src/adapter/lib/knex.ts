@@ -0,0 +1,324 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import type { DatabaseEngine } from "../db/config.i";
+
+import {
+  getMemberPropertyName,
+  getStaticSql,
+  getTypeArguments,
+  parseTypeAnnotation,
+  replaceParameters,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Target method names for Knex (knex / transaction) */
+const TARGET_METHODS = new Set(["raw"]);
+
+/** Positional bindings: `?` value, `??` identifier, `\?` literal question mark */
+const POSITIONAL_BINDING_PATTERN = /\\?\?\??/y;
+
+/** Named bindings (same pattern as Knex): `:name` value, `:name:` identifier, `\:name` literal */
+const NAMED_BINDING_PATTERN = /\\?(:(\w+):(?=::)|:(\w+):(?!:)|:(\w+))/y;
+
+/**
+ * Adapter for Knex `raw()` calls (`knex.raw(sql, bindings)` / `trx.raw(sql, bindings)`)
+ *
+ * The awaited value of `raw()` is the driver result, e.g. `[rows, fields]` for MySQL.
+ * The type goes in the type argument (`knex.raw<T>(...)`) or an `as` assertion of the
+ * awaited call (`(await knex.raw(...)) as T`).
+ */
+export class KnexAdapter implements ILibraryAdapter {
+  private dbEngine: DatabaseEngine;
+
+  /**
+   * Create a new Knex adapter (result shape and identifier quoting follow the database engine)
+   */
+  constructor(dbEngine: DatabaseEngine = "mysql") {
+    this.dbEngine = dbEngine;
+  }
+
+  /**
+   * Check if a node is `<knex|trx>.raw(...)` run as a query (not a query builder fragment)
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+
+    const methodName = getMemberPropertyName(node.callee);
+    if (methodName === null || !TARGET_METHODS.has(methodName)) {
+      return false;
+    }
+
+    return !isFragment(node);
+  }
+
+  /**
+   * Extract SQL and convert Knex bindings into prepared statement placeholders
+   *
+   * Identifier bindings (`??`, `:name:`) are inlined from static strings; null when they cannot be.
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return null;
+    }
+
+    const sql = getStaticSql(node.arguments[0]);
+    if (sql === null) {
+      return null;
+    }
+
+    const bindings = node.arguments[1];
+    return bindings?.type === AST_NODE_TYPES.ObjectExpression
+      ? this.replaceNamedBindings(sql, bindings)
+      : this.replacePositionalBindings(sql, bindings);
+  }
+
+  /**
+   * Knex checks its bindings itself (and named bindings are objects)
+   */
+  getParameterValues(): TSESTree.Expression[] | null {
+    return null;
+  }
+
+  /**
+   * Get the row type from `raw<T>(...)` or `(await raw(...)) as T`
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const annotation = getTypeArguments(node)?.params[0] ?? getAssertedType(node);
+    if (!annotation) {
+      return null;
+    }
+
+    const rowsType = getRowsType(annotation);
+    const typeText = sourceCode.slice(rowsType.range[0], rowsType.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Replace the type argument / asserted type, or insert a type argument after `raw`
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo {
+    const typeArgs = getTypeArguments(node);
+    if (typeArgs) {
+      return { range: typeArgs.range, text: `<${expectedType}>` };
+    }
+
+    const assertedType = getAssertedType(node);
+    if (assertedType) {
+      return { range: assertedType.range, text: expectedType };
+    }
+
+    const callee = node.type === AST_NODE_TYPES.CallExpression ? node.callee : node.tag;
+    const insertPosition = callee.range[1];
+    return { range: [insertPosition, insertPosition], text: `<${expectedType}>` };
+  }
+
+  /**
+   * Wrap rows in the raw driver result: `[rows, fields]` (MySQL), `{ rows }` (PostgreSQL)
+   * or the rows themselves (SQLite)
+   */
+  formatRowsType(rowType: string): string {
+    switch (this.dbEngine) {
+      case "postgresql":
+        return `{ rows: ${rowType}[] }`;
+      case "sqlite":
+        return `${rowType}[]`;
+      default:
+        return `[${rowType}[], unknown]`;
+    }
+  }
+
+  /**
+   * No overrides: Knex hands back the values decoded by the driver
+   */
+  getTypeOverrides(): Record<string, string> | null {
+    return null;
+  }
+
+  /**
+   * Knex `raw()` has no mysql2-style options
+   */
+  getQueryOptions(_node: QueryExpression): QueryOptions {
+    return { nestTables: false, rowsAsArray: false };
+  }
+
+  /**
+   * Knex results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * Knex wraps write results in driver-specific shapes (not checked)
+   */
+  getWriteResultType(): WriteResultType | null {
+    return null;
+  }
+
+  /**
+   * Replace `?` / `??` bindings (array, single value or no bindings) outside strings and comments
+   */
+  private replacePositionalBindings(
+    sql: string,
+    bindings: TSESTree.CallExpressionArgument | undefined,
+  ): string | null {
+    const values: (TSESTree.Node | null | undefined)[] =
+      bindings?.type === AST_NODE_TYPES.ArrayExpression ? bindings.elements : [bindings];
+    let bindingIndex = 0;
+    let valueIndex = 0;
+    let resolved = true;
+
+    const result = replaceParameters(sql, POSITIONAL_BINDING_PATTERN, ([match]) => {
+      if (match === "\\?") {
+        return "?";
+      }
+
+      const value = values[bindingIndex++];
+      if (match === "??") {
+        const identifier = this.wrapIdentifier(value);
+        resolved &&= identifier !== null;
+        return identifier ?? match;
+      }
+      return this.getPlaceholder(valueIndex++);
+    });
+
+    return resolved ? result : null;
+  }
+
+  /**
+   * Replace `:name` / `:name:` bindings of an object literal outside strings and comments
+   * (unknown names are kept)
+   */
+  private replaceNamedBindings(sql: string, bindings: TSESTree.ObjectExpression): string | null {
+    const values = new Map<string, TSESTree.Node>();
+    for (const prop of bindings.properties) {
+      if (prop.type !== AST_NODE_TYPES.Property || prop.computed) {
+        return null; // Spread or computed keys: the binding names are unknown
+      }
+      if (prop.key.type === AST_NODE_TYPES.Identifier) {
+        values.set(prop.key.name, prop.value);
+      } else if (prop.key.type === AST_NODE_TYPES.Literal) {
+        values.set(String(prop.key.value), prop.value);
+      }
+    }
+
+    let valueIndex = 0;
+    let resolved = true;
+
+    const result = replaceParameters(
+      sql,
+      NAMED_BINDING_PATTERN,
+      ([match, binding = "", p2, p3, p4]) => {
+        if (match !== binding) {
+          return binding; // Escaped with a backslash
+        }
+
+        const name = p2 ?? p3 ?? p4 ?? "";
+        if (!values.has(name)) {
+          return match;
+        }
+
+        if (match.endsWith(":")) {
+          const identifier = this.wrapIdentifier(values.get(name));
+          resolved &&= identifier !== null;
+          return identifier ?? match;
+        }
+        return this.getPlaceholder(valueIndex++);
+      },
+    );
+
+    return resolved ? result : null;
+  }
+
+  /**
+   * Quote a static identifier binding (`users.id` -> `users`.`id`)
+   */
+  private wrapIdentifier(value: TSESTree.Node | null | undefined): string | null {
+    const identifier = getStaticSql(value ?? undefined);
+    if (identifier === null) {
+      return null;
+    }
+
+    const quote = this.dbEngine === "postgresql" ? '"' : "`";
+    return identifier
+      .split(".")
+      .map((part) => (part === "*" ? part : `${quote}${part}${quote}`))
+      .join(".");
+  }
+
+  /**
+   * Get the value placeholder for the database engine
+   */
+  private getPlaceholder(index: number): string {
+    return this.dbEngine === "postgresql" ? `$${String(index + 1)}` : "?";
+  }
+}
+
+/**
+ * Check if a raw call is passed to the query builder (`whereIn("id", knex.raw(...))`)
+ */
+function isFragment(node: TSESTree.CallExpression): boolean {
+  const parent = node.parent;
+  switch (parent?.type) {
+    case AST_NODE_TYPES.CallExpression:
+    case AST_NODE_TYPES.NewExpression:
+      return parent.callee !== node;
+    case AST_NODE_TYPES.ArrayExpression:
+    case AST_NODE_TYPES.Property:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get `T` of `(await <call>) as T` / `<call> as T`
+ */
+function getAssertedType(node: QueryExpression): TSESTree.TypeNode | undefined {
+  let expr: TSESTree.Node = node;
+  if (expr.parent?.type === AST_NODE_TYPES.AwaitExpression) {
+    expr = expr.parent;
+  }
+
+  const parent = expr.parent;
+  if (parent?.type === AST_NODE_TYPES.TSAsExpression && parent.expression === expr) {
+    return parent.typeAnnotation;
+  }
+  return undefined;
+}
+
+/**
+ * Get the rows part of a raw result type (`[rows, fields]` or `{ rows }`)
+ */
+function getRowsType(typeNode: TSESTree.TypeNode): TSESTree.TypeNode {
+  if (typeNode.type === AST_NODE_TYPES.TSTupleType) {
+    return typeNode.elementTypes[0] ?? typeNode;
+  }
+
+  if (typeNode.type === AST_NODE_TYPES.TSTypeLiteral) {
+    for (const member of typeNode.members) {
+      if (
+        member.type === AST_NODE_TYPES.TSPropertySignature &&
+        member.key.type === AST_NODE_TYPES.Identifier &&
+        member.key.name === "rows" &&
+        member.typeAnnotation
+      ) {
+        return member.typeAnnotation.typeAnnotation;
+      }
+    }
+  }
+
+  return typeNode;
+}
@@ -0,0 +1,17 @@
+import { SqlTagAdapter, type SqlTagHelperKind } from "./sql-tag";
+
+/**
+ * Adapter for Kysely `sql<T>`...`` templates (`await sql<T>`...`.execute(db)`)
+ *
+ * `T` is the row type of `result.rows`.
+ */
+export class KyselyAdapter extends SqlTagAdapter {
+  protected readonly helpers: Readonly<Record<string, SqlTagHelperKind>> = {
+    val: "value",
+    raw: "raw",
+    lit: "literal",
+    ref: "reference",
+    table: "reference",
+    id: "identifier",
+  };
+}
@@ -2,11 +2,18 @@ import type { TSESTree } from "@typescript-eslint/utils";
 
 import type { ColumnTypeRegistry } from "../../types/column.i";
 
+/**
+ * Expression that runs a query: a call (`conn.query(...)`) or a tagged template (`prisma.$queryRaw`...``)
+ */
+export type QueryExpression = TSESTree.CallExpression | TSESTree.TaggedTemplateExpression;
+
 /**
  * Parsed type annotation
  */
 export interface ParsedTypeAnnotation {
   columns: ColumnTypeRegistry;
+  /** Type annotation as written */
+  text: string;
 }
 
 /**
@@ -15,6 +22,44 @@ export interface ParsedTypeAnnotation {
 export interface QueryOptions {
   nestTables: boolean;
   rowsAsArray: boolean;
+  /** Group dotted column aliases (`"user.id"`) into nested objects */
+  nest?: boolean;
+}
+
+/**
+ * Values object bound to `:name` placeholders
+ */
+export interface NamedParameterValues {
+  /** Placeholder names in SQL order (a name used twice appears twice) */
+  names: string[];
+  /** Object literal holding the values (null without values) */
+  object: TSESTree.ObjectExpression | null;
+  /** Properties of the object by key */
+  properties: Map<string, TSESTree.Property>;
+}
+
+/**
+ * Values bound to the SQL placeholders: an array literal for `?` placeholders or an object
+ * literal for named placeholders
+ */
+export type ParameterValues = TSESTree.Expression[] | NamedParameterValues;
+
+/**
+ * Rule options that change how a library adapter reads queries
+ */
+export interface LibraryAdapterOptions {
+  /** Treat `:name` as named placeholders unless the query options say otherwise (mysql2) */
+  namedPlaceholders?: boolean;
+}
+
+/**
+ * Result type of INSERT / UPDATE / DELETE / REPLACE statements
+ */
+export interface WriteResultType {
+  /** Type argument expected for the query (e.g. `ResultSetHeader`) */
+  type: string;
+  /** Import statement declaring the type (null when it needs none) */
+  importStatement: string | null;
 }
 
 /**
@@ -30,40 +75,59 @@ export interface FixInfo {
  */
 export interface ILibraryAdapter {
   /**
-   * Check if a call expression is a target method
+   * Check if a call expression (or tagged template) is a target method
    */
-  isTargetMethod(callExpr: TSESTree.CallExpression): boolean;
+  isTargetMethod(callExpr: QueryExpression): boolean;
 
   /**
    * Extract SQL string from call expression
    */
-  extractSql(callExpr: TSESTree.CallExpression): string | null;
+  extractSql(callExpr: QueryExpression): string | null;
+
+  /**
+   * Get the values bound to the SQL placeholders (empty without values, null when they are not
+   * a literal or the library binds them itself)
+   */
+  getParameterValues(callExpr: QueryExpression): ParameterValues | null;
 
   /**
    * Get existing type annotation from call expression
    */
   getExistingTypeAnnotation(
-    callExpr: TSESTree.CallExpression,
+    callExpr: QueryExpression,
     sourceCode: string,
   ): ParsedTypeAnnotation | null;
 
   /**
-   * Generate fix for type annotation
+   * Generate fix that inserts or replaces the type annotation (null when the query has no place
+   * for one, e.g. a result that is not assigned to a variable)
+   */
+  generateFix(callExpr: QueryExpression, expectedType: string): FixInfo | null;
+
+  /**
+   * Wrap a row object type in the result type of the library (e.g. `{ id: number }[]`)
+   */
+  formatRowsType(rowType: string, callExpr: QueryExpression): string;
+
+  /**
+   * Get database type to TypeScript type overrides for values decoded by the library
+   * (null to use the database engine mapping as-is)
    */
-  generateFix(callExpr: TSESTree.CallExpression, expectedType: string): FixInfo;
+  getTypeOverrides(callExpr: QueryExpression): Record<string, string> | null;
 
   /**
    * Get query options from call expression
    */
-  getQueryOptions(callExpr: TSESTree.CallExpression): QueryOptions;
+  getQueryOptions(callExpr: QueryExpression): QueryOptions;
 
   /**
-   * Check if RowDataPacket import exists
+   * Get required import statement (null when the result type needs no import)
    */
-  hasRowDataPacketImport(sourceCode: unknown): boolean;
+  getRequiredImport(): string | null;
 
   /**
-   * Get required import statement
+   * Get the result type of INSERT / UPDATE / DELETE / REPLACE statements (null when the library
+   * result of writes is not checked)
    */
-  getRequiredImport(): string;
+  getWriteResultType(callExpr: QueryExpression): WriteResultType | null;
 }
@@ -0,0 +1,152 @@
+import { parse } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { MariaDBConnectorAdapter } from "./mariadb";
+
+describe("mariadb Connector Library Adapter", () => {
+  const adapter = new MariaDBConnectorAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect query and execute calls", () => {
+      expect(adapter.isTargetMethod(parseQuery('conn.query("SELECT 1")'))).toBe(true);
+      expect(adapter.isTargetMethod(parseQuery('pool.execute("SELECT 1")'))).toBe(true);
+      expect(
+        adapter.isTargetMethod(parseQuery('conn.batch("INSERT INTO t VALUES (?)", rows)')),
+      ).toBe(false);
+    });
+  });
+
+  describe("SQL Extraction", () => {
+    it("should extract SQL from a string or the sql option", () => {
+      expect(adapter.extractSql(parseQuery('conn.query("SELECT id FROM users")'))).toBe(
+        "SELECT id FROM users",
+      );
+      expect(
+        adapter.extractSql(
+          parseQuery('conn.query({ sql: "SELECT id FROM users", bigIntAsNumber: true }, [])'),
+        ),
+      ).toBe("SELECT id FROM users");
+    });
+  });
+
+  describe("Type Overrides", () => {
+    it("should type BIGINT as bigint by default", () => {
+      // GIVEN
+      const node = parseQuery('conn.query("SELECT id FROM users")');
+
+      // WHEN / THEN
+      expect(adapter.getTypeOverrides(node)).toEqual({ BIGINT: "bigint", DECIMAL: "string" });
+    });
+
+    it("should read bigIntAsNumber from the query options", () => {
+      // GIVEN
+      const node = parseQuery('conn.query({ sql: "SELECT id FROM users", bigIntAsNumber: true })');
+
+      // WHEN / THEN
+      expect(adapter.getTypeOverrides(node)).toMatchObject({ BIGINT: "number" });
+    });
+
+    it("should read connection-wide options from createPool", () => {
+      // GIVEN
+      const code = `
+        const pool = mariadb.createPool({ host, bigIntAsNumber: true, decimalAsNumber: true });
+        const rows = await pool.query("SELECT id FROM users");
+        const other = await pool.query({ sql: "SELECT id FROM users", bigIntAsNumber: false });
+      `;
+
+      // WHEN
+      const [first, second] = parseQueries(code);
+      if (!first || !second) throw new Error("Expected two query calls");
+
+      // THEN
+      expect(adapter.getTypeOverrides(first)).toEqual({ BIGINT: "number", DECIMAL: "number" });
+      expect(adapter.getTypeOverrides(second)).toMatchObject({ BIGINT: "bigint" });
+    });
+  });
+
+  describe("Write Result Type", () => {
+    it("should expect UpsertResult with a number insertId under insertIdAsNumber", () => {
+      // GIVEN
+      const code = `
+        const pool = mariadb.createPool({ host, insertIdAsNumber: true });
+        await pool.query("INSERT INTO users (email) VALUES (?)", [email]);
+        await conn.query({ sql: "DELETE FROM users", insertIdAsNumber: false });
+      `;
+
+      // WHEN
+      const [first, second] = parseQueries(code);
+      if (!first || !second) throw new Error("Expected two query calls");
+
+      // THEN
+      expect(adapter.getWriteResultType(first)).toEqual({
+        type: "UpsertResult & { insertId: number }",
+        importStatement: "import type { UpsertResult } from 'mariadb';",
+      });
+      expect(adapter.getWriteResultType(second).type).toBe("UpsertResult");
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should insert the rows array without RowDataPacket", () => {
+      // GIVEN
+      const code = 'conn.query("SELECT id FROM users")';
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), adapter.formatRowsType("{ id: bigint }"));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe('conn.query<{ id: bigint }[]>("SELECT id FROM users")');
+      expect(adapter.getRequiredImport()).toBeNull();
+    });
+  });
+});
+
+/**
+ * Parse code and return the first `.query` / `.execute` / `.batch` call
+ */
+function parseQuery(code: string): TSESTree.CallExpression {
+  const [first] = parseQueries(code);
+  if (!first) {
+    throw new Error("No query call found");
+  }
+  return first;
+}
+
+/**
+ * Parse code and return the `.query` / `.execute` / `.batch` calls with parent pointers set
+ */
+function parseQueries(code: string): TSESTree.CallExpression[] {
+  const program = parse(code, { range: true });
+  const found: TSESTree.CallExpression[] = [];
+
+  const visit = (node: TSESTree.Node, parent: TSESTree.Node | undefined) => {
+    (node as { parent?: TSESTree.Node | undefined }).parent = parent;
+    if (
+      node.type === AST_NODE_TYPES.CallExpression &&
+      node.callee.type === AST_NODE_TYPES.MemberExpression &&
+      node.callee.property.type === AST_NODE_TYPES.Identifier &&
+      ["query", "execute", "batch"].includes(node.callee.property.name)
+    ) {
+      found.push(node);
+    }
+    for (const value of Object.values(node)) {
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child && child !== parent) {
+          visit(child as TSESTree.Node, node);
+        }
+      }
+    }
+  };
+  visit(program, undefined);
+
+  return found;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string }): string {
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
@@ -0,0 +1,171 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import {
+  findProperty,
+  getBooleanOption,
+  getMemberPropertyName,
+  getStaticSql,
+  getTypeArguments,
+  getValuesArray,
+  isTrueLiteral,
+  parseTypeAnnotation,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Target method names for the mariadb connector (Connection / Pool) */
+const TARGET_METHODS = new Set(["query", "execute"]);
+
+/** Connection factories whose options set the connection-wide defaults */
+const FACTORY_METHODS = new Set(["createConnection", "createPool", "createPoolCluster"]);
+
+/** Connector option name */
+type ConnectorOption = "bigIntAsNumber" | "decimalAsNumber" | "dateStrings" | "insertIdAsNumber";
+
+/**
+ * Adapter for the `mariadb` npm connector (`conn.query<T>(sql, values)`)
+ *
+ * The promise resolves to the rows array itself (no `[rows, fields]` tuple), so the type
+ * argument is `T[]` without `RowDataPacket`. BIGINT values are `bigint` unless
+ * `bigIntAsNumber` is set on the query or on `createConnection` / `createPool`.
+ */
+export class MariaDBConnectorAdapter implements ILibraryAdapter {
+  /**
+   * Check if a node is `<conn|pool>.query(...)` / `<conn|pool>.execute(...)`
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+    const methodName = getMemberPropertyName(node.callee);
+    return methodName !== null && TARGET_METHODS.has(methodName);
+  }
+
+  /**
+   * Extract SQL from a string argument or a `{ sql }` options object
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return null;
+    }
+
+    const options = getQueryOptionsObject(node);
+    if (options) {
+      return getStaticSql(findProperty(options, "sql") ?? undefined);
+    }
+    return getStaticSql(node.arguments[0]);
+  }
+
+  /**
+   * Get the values array passed after the SQL or as `{ sql, values }`
+   */
+  getParameterValues(node: QueryExpression): TSESTree.Expression[] | null {
+    return getValuesArray(node, getQueryOptionsObject(node));
+  }
+
+  /**
+   * Get existing `query<T>` type argument
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const firstParam = getTypeArguments(node)?.params[0];
+    if (!firstParam) {
+      return null;
+    }
+
+    const typeText = sourceCode.slice(firstParam.range[0], firstParam.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Insert the type argument after the method name, or replace the existing one
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo {
+    const typeArgs = getTypeArguments(node);
+    if (typeArgs) {
+      return { range: typeArgs.range, text: `<${expectedType}>` };
+    }
+
+    const callee = node.type === AST_NODE_TYPES.CallExpression ? node.callee : node.tag;
+    const insertPosition = callee.range[1];
+    return { range: [insertPosition, insertPosition], text: `<${expectedType}>` };
+  }
+
+  /**
+   * The connector resolves to the rows array
+   */
+  formatRowsType(rowType: string): string {
+    return `${rowType}[]`;
+  }
+
+  /**
+   * BIGINT is `bigint` and DECIMAL is `string` unless the connector is told to return numbers
+   */
+  getTypeOverrides(node: QueryExpression): Record<string, string> | null {
+    const overrides: Record<string, string> = {
+      BIGINT: this.getOption(node, "bigIntAsNumber") ? "number" : "bigint",
+      DECIMAL: this.getOption(node, "decimalAsNumber") ? "number" : "string",
+    };
+
+    if (this.getOption(node, "dateStrings")) {
+      overrides["DATE"] = "string";
+      overrides["DATETIME"] = "string";
+      overrides["TIMESTAMP"] = "string";
+    }
+    return overrides;
+  }
+
+  /**
+   * Get query options from the `{ sql, ... }` options object
+   */
+  getQueryOptions(node: QueryExpression): QueryOptions {
+    const options = getQueryOptionsObject(node);
+    return {
+      nestTables: isTrueLiteral(findProperty(options, "nestTables")),
+      rowsAsArray: isTrueLiteral(findProperty(options, "rowsAsArray")),
+    };
+  }
+
+  /**
+   * mariadb results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * Writes resolve to an `UpsertResult`, whose `insertId` is a `number` with `insertIdAsNumber`
+   * (a `bigint` otherwise)
+   */
+  getWriteResultType(node: QueryExpression): WriteResultType {
+    return {
+      type: this.getOption(node, "insertIdAsNumber")
+        ? "UpsertResult & { insertId: number }"
+        : "UpsertResult",
+      importStatement: "import type { UpsertResult } from 'mariadb';",
+    };
+  }
+
+  /**
+   * Read a boolean connector option from the query or the connection factory options
+   */
+  private getOption(node: QueryExpression, name: ConnectorOption): boolean {
+    return getBooleanOption(node, getQueryOptionsObject(node), FACTORY_METHODS, name);
+  }
+}
+
+/**
+ * Get the `{ sql, ... }` options object passed instead of a SQL string
+ */
+function getQueryOptionsObject(node: QueryExpression): TSESTree.ObjectExpression | null {
+  const firstArg = node.type === AST_NODE_TYPES.CallExpression ? node.arguments[0] : undefined;
+  return firstArg?.type === AST_NODE_TYPES.ObjectExpression ? firstArg : null;
+}
@@ -0,0 +1,154 @@
+import { parse } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { MySQLPackageAdapter } from "./mysql";
+
+describe("mysql Package Library Adapter", () => {
+  const adapter = new MySQLPackageAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect query calls with a results callback", () => {
+      expect(
+        adapter.isTargetMethod(parseQuery('connection.query("SELECT 1", (err, results) => {})')),
+      ).toBe(true);
+      expect(
+        adapter.isTargetMethod(
+          parseQuery('pool.query("SELECT ?", [1], function (error, rows, fields) {})'),
+        ),
+      ).toBe(true);
+    });
+
+    it("should not detect calls without a results parameter", () => {
+      expect(adapter.isTargetMethod(parseQuery('connection.query("SELECT 1")'))).toBe(false);
+      expect(adapter.isTargetMethod(parseQuery('connection.query("SELECT 1", (err) => {})'))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("Type Annotation", () => {
+    it("should read the results parameter annotation", () => {
+      // GIVEN
+      const code =
+        'connection.query({ sql: "SELECT id FROM users" }, (err, results: { id: number }[]) => {})';
+
+      // WHEN
+      const result = adapter.getExistingTypeAnnotation(parseQuery(code), code);
+
+      // THEN
+      expect(result?.columns).toEqual({ id: { type: "number", nullable: false } });
+    });
+  });
+
+  describe("Type Overrides", () => {
+    it("should type big numbers as number and JSON as string by default", () => {
+      // GIVEN
+      const node = parseQuery('connection.query("SELECT 1", (err, results) => {})');
+
+      // WHEN / THEN
+      expect(adapter.getTypeOverrides(node)).toEqual({
+        BIGINT: "number",
+        DECIMAL: "number",
+        JSON: "string",
+      });
+    });
+
+    it("should follow supportBigNumbers / bigNumberStrings connection options", () => {
+      // GIVEN
+      const code = `
+        const connection = mysql.createConnection({ supportBigNumbers: true, bigNumberStrings: true });
+        connection.query("SELECT 1", (err, results) => {});
+      `;
+
+      // WHEN / THEN
+      expect(adapter.getTypeOverrides(parseQuery(code))).toMatchObject({
+        BIGINT: "string",
+        DECIMAL: "string",
+      });
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should annotate the results parameter", () => {
+      // GIVEN
+      const code = 'connection.query("SELECT id FROM users", (err, results) => {})';
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), adapter.formatRowsType("{ id: number }"));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        'connection.query("SELECT id FROM users", (err, results: { id: number }[]) => {})',
+      );
+    });
+
+    it("should replace an existing results annotation", () => {
+      // GIVEN
+      const code = 'connection.query("SELECT id FROM users", (err, results: any) => {})';
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), "{ id: number }[]");
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        'connection.query("SELECT id FROM users", (err, results: { id: number }[]) => {})',
+      );
+    });
+
+    it("should not generate a fix without a results parameter", () => {
+      // GIVEN
+      const code = 'connection.query("SELECT id FROM users")';
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), "{ id: number }[]");
+
+      // THEN
+      expect(fix).toBeNull();
+    });
+  });
+});
+
+/**
+ * Parse code and return the first `.query(...)` call with parent pointers set
+ */
+function parseQuery(code: string): TSESTree.CallExpression {
+  const program = parse(code, { range: true });
+  let found: TSESTree.CallExpression | null = null;
+
+  const visit = (node: TSESTree.Node, parent: TSESTree.Node | undefined) => {
+    (node as { parent?: TSESTree.Node | undefined }).parent = parent;
+    if (
+      node.type === AST_NODE_TYPES.CallExpression &&
+      node.callee.type === AST_NODE_TYPES.MemberExpression &&
+      node.callee.property.type === AST_NODE_TYPES.Identifier &&
+      node.callee.property.name === "query"
+    ) {
+      found ??= node;
+    }
+    for (const value of Object.values(node)) {
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child && child !== parent) {
+          visit(child as TSESTree.Node, node);
+        }
+      }
+    }
+  };
+  visit(program, undefined);
+
+  if (!found) {
+    throw new Error("No query() call found");
+  }
+  return found;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string } | null): string {
+  if (!fix) {
+    throw new Error("No fix generated");
+  }
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
@@ -0,0 +1,196 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import {
+  findProperty,
+  getBooleanOption,
+  getMemberPropertyName,
+  getStaticSql,
+  getValuesArray,
+  isTrueLiteral,
+  parseTypeAnnotation,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Target method names for the mysql package (Connection / Pool / PoolConnection) */
+const TARGET_METHODS = new Set(["query"]);
+
+/** Connection factories whose options set the connection-wide defaults */
+const FACTORY_METHODS = new Set(["createConnection", "createPool", "createPoolCluster"]);
+
+/**
+ * Adapter for the callback-based `mysql` package
+ *
+ * `query()` is not generic, so the rows type is annotated on the `results` parameter of the
+ * callback: `connection.query(sql, (error, results: { id: number }[]) => { ... })`.
+ */
+export class MySQLPackageAdapter implements ILibraryAdapter {
+  /**
+   * Check if a node is `<conn>.query(sql, [values,] (error, results) => ...)`
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+
+    const methodName = getMemberPropertyName(node.callee);
+    if (methodName === null || !TARGET_METHODS.has(methodName)) {
+      return false;
+    }
+
+    // Without a results parameter there is nowhere to put the annotation
+    return getResultsParam(node) !== null;
+  }
+
+  /**
+   * Extract SQL from a string argument or a `{ sql }` options object
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return null;
+    }
+
+    const options = getQueryOptionsObject(node);
+    if (options) {
+      return getStaticSql(findProperty(options, "sql") ?? undefined);
+    }
+    return getStaticSql(node.arguments[0]);
+  }
+
+  /**
+   * Get the values array passed after the SQL or as `{ sql, values }`
+   */
+  getParameterValues(node: QueryExpression): TSESTree.Expression[] | null {
+    return getValuesArray(node, getQueryOptionsObject(node));
+  }
+
+  /**
+   * Get the type annotation of the callback `results` parameter
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const annotation = getResultsParam(node)?.typeAnnotation?.typeAnnotation;
+    if (!annotation) {
+      return null;
+    }
+
+    const typeText = sourceCode.slice(annotation.range[0], annotation.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Add or replace the type annotation of the callback `results` parameter
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo | null {
+    const param = getResultsParam(node);
+    if (!param) {
+      return null;
+    }
+
+    if (param.typeAnnotation) {
+      return { range: param.typeAnnotation.range, text: `: ${expectedType}` };
+    }
+
+    const insertPosition = param.range[1];
+    return { range: [insertPosition, insertPosition], text: `: ${expectedType}` };
+  }
+
+  /**
+   * The callback receives the rows array
+   */
+  formatRowsType(rowType: string): string {
+    return `${rowType}[]`;
+  }
+
+  /**
+   * Big numbers are JavaScript numbers unless `supportBigNumbers` + `bigNumberStrings` are set,
+   * and JSON columns are not parsed
+   */
+  getTypeOverrides(node: QueryExpression): Record<string, string> | null {
+    const bigNumberType = !this.getOption(node, "supportBigNumbers")
+      ? "number"
+      : this.getOption(node, "bigNumberStrings")
+        ? "string"
+        : "number | string";
+
+    const overrides: Record<string, string> = {
+      BIGINT: bigNumberType,
+      DECIMAL: bigNumberType,
+      JSON: "string",
+    };
+
+    if (this.getOption(node, "dateStrings")) {
+      overrides["DATE"] = "string";
+      overrides["DATETIME"] = "string";
+      overrides["TIMESTAMP"] = "string";
+    }
+    return overrides;
+  }
+
+  /**
+   * Get query options from the `{ sql, ... }` options object
+   */
+  getQueryOptions(node: QueryExpression): QueryOptions {
+    return {
+      nestTables: isTrueLiteral(findProperty(getQueryOptionsObject(node), "nestTables")),
+      rowsAsArray: false,
+    };
+  }
+
+  /**
+   * mysql results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * The callback receives an `OkPacket` for writes
+   */
+  getWriteResultType(): WriteResultType {
+    return { type: "OkPacket", importStatement: "import type { OkPacket } from 'mysql';" };
+  }
+
+  /**
+   * Read a boolean connection option from the query or the connection factory options
+   */
+  private getOption(node: QueryExpression, name: string): boolean {
+    return getBooleanOption(node, getQueryOptionsObject(node), FACTORY_METHODS, name);
+  }
+}
+
+/**
+ * Get the `{ sql, ... }` options object passed instead of a SQL string
+ */
+function getQueryOptionsObject(node: QueryExpression): TSESTree.ObjectExpression | null {
+  const firstArg = node.type === AST_NODE_TYPES.CallExpression ? node.arguments[0] : undefined;
+  return firstArg?.type === AST_NODE_TYPES.ObjectExpression ? firstArg : null;
+}
+
+/**
+ * Get the `results` parameter of the callback (last argument)
+ */
+function getResultsParam(node: QueryExpression): TSESTree.Identifier | null {
+  if (node.type !== AST_NODE_TYPES.CallExpression) {
+    return null;
+  }
+
+  const callback = node.arguments.at(-1);
+  if (
+    callback?.type !== AST_NODE_TYPES.ArrowFunctionExpression &&
+    callback?.type !== AST_NODE_TYPES.FunctionExpression
+  ) {
+    return null;
+  }
+
+  const results = callback.params[1];
+  return results?.type === AST_NODE_TYPES.Identifier ? results : null;
+}
@@ -1,4 +1,5 @@
-import type { TSESTree } from "@typescript-eslint/utils";
+import { parse } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
 import { describe, expect, it } from "vitest";
 
 import { MySQL2Adapter } from "./mysql2";
@@ -319,26 +320,98 @@ describe("mysql2 Library Adapter", () => {
   });
 
   describe("Import Detection", () => {
-    it("should check if RowDataPacket import exists", () => {
+    it("should generate import statement", () => {
       // GIVEN
-      // adapter has hasRowDataPacketImport method
+      // adapter has getRequiredImport method
 
       // WHEN
-      const hasMethod = typeof adapter.hasRowDataPacketImport;
+      const importStatement = adapter.getRequiredImport();
 
       // THEN
-      expect(hasMethod).toBe("function");
+      expect(importStatement).toBe("import type { RowDataPacket } from 'mysql2/promise';");
     });
 
-    it("should generate import statement", () => {
+    it("should expect ResultSetHeader for write statements", () => {
+      // WHEN
+      const resultType = adapter.getWriteResultType();
+
+      // THEN
+      expect(resultType).toEqual({
+        type: "ResultSetHeader",
+        importStatement: "import type { ResultSetHeader } from 'mysql2/promise';",
+      });
+    });
+  });
+
+  describe("Named Placeholders", () => {
+    it("should rewrite named placeholders when the query options enable them", () => {
       // GIVEN
-      // adapter has getRequiredImport method
+      const node = parseQuery(
+        'pool.execute({ sql: "SELECT id FROM users WHERE id = :id AND name = :name", namedPlaceholders: true }, { id, name });',
+      );
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBe("SELECT id FROM users WHERE id = ? AND name = ?");
+      expect(
+        adapter.extractSql(parseQuery('pool.execute("SELECT id FROM users WHERE id = :id");')),
+      ).toBe("SELECT id FROM users WHERE id = :id");
+    });
+
+    it("should follow the connection factory and the rule option", () => {
+      // GIVEN
+      const query = 'pool.execute("SELECT id FROM users WHERE id = :id", { id });';
+      const namedAdapter = new MySQL2Adapter({ namedPlaceholders: true });
+
+      // WHEN / THEN
+      expect(
+        adapter.extractSql(
+          parseQuery(`const pool = mysql.createPool({ namedPlaceholders: true }); ${query}`),
+        ),
+      ).toBe("SELECT id FROM users WHERE id = ?");
+      expect(namedAdapter.extractSql(parseQuery(query))).toBe("SELECT id FROM users WHERE id = ?");
+      expect(
+        namedAdapter.extractSql(
+          parseQuery(
+            'pool.execute({ sql: "SELECT id FROM users WHERE id = :id", namedPlaceholders: false });',
+          ),
+        ),
+      ).toBe("SELECT id FROM users WHERE id = :id");
+    });
+
+    it("should return the values object with the placeholder names", () => {
+      // GIVEN
+      const namedAdapter = new MySQL2Adapter({ namedPlaceholders: true });
+      const node = parseQuery(
+        'pool.execute("SELECT id FROM users WHERE id = :id OR parent_id = :id AND name = :name", { id: 1, "name": name });',
+      );
 
       // WHEN
-      const importStatement = adapter.getRequiredImport();
+      const values = namedAdapter.getParameterValues(node);
 
       // THEN
-      expect(importStatement).toBe("import type { RowDataPacket } from 'mysql2/promise';");
+      expect(values).toMatchObject({ names: ["id", "id", "name"] });
+      expect(values && !Array.isArray(values) && [...values.properties.keys()]).toEqual([
+        "id",
+        "name",
+      ]);
+      expect(
+        namedAdapter.getParameterValues(
+          parseQuery('pool.execute("SELECT id FROM users WHERE id = :id", params);'),
+        ),
+      ).toBeNull();
+    });
+
+    it("should return the values array of positional placeholders", () => {
+      // GIVEN
+      const node = parseQuery('pool.execute("SELECT id FROM users WHERE id = ?", [id]);');
+
+      // WHEN
+      const values = adapter.getParameterValues(node);
+
+      // THEN
+      expect(Array.isArray(values) && values.map((value) => value.type)).toEqual([
+        AST_NODE_TYPES.Identifier,
+      ]);
     });
   });
 });
@@ -612,3 +685,38 @@ function createMockCallWithOptions(
     optional: false,
   } as unknown as TSESTree.CallExpression;
 }
+
+/**
+ * Parse code and return the first `.query` / `.execute` call with parent pointers set
+ */
+function parseQuery(code: string): TSESTree.CallExpression {
+  const program = parse(code, { range: true });
+  const found: TSESTree.CallExpression[] = [];
+
+  const visit = (node: TSESTree.Node, parent: TSESTree.Node | undefined) => {
+    (node as { parent?: TSESTree.Node | undefined }).parent = parent;
+    if (
+      node.type === AST_NODE_TYPES.CallExpression &&
+      node.callee.type === AST_NODE_TYPES.MemberExpression &&
+      node.callee.property.type === AST_NODE_TYPES.Identifier &&
+      ["query", "execute"].includes(node.callee.property.name)
+    ) {
+      found.push(node);
+    }
+    for (const value of Object.values(node)) {
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child && child !== parent) {
+          visit(child as TSESTree.Node, node);
+        }
+      }
+    }
+  };
+  visit(program, undefined);
+
+  const [first] = found;
+  if (!first) {
+    throw new Error("No query call found");
+  }
+  return first;
+}
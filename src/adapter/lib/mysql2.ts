@@ -1,20 +1,55 @@
 import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
 
-import type { ColumnTypeInfo, ColumnTypeRegistry } from "../../types/column.i";
-
-import type { FixInfo, ILibraryAdapter, ParsedTypeAnnotation, QueryOptions } from "./lib.i";
+import {
+  findProperty,
+  getBooleanOption,
+  getStaticSql,
+  getTypeArguments,
+  getValuesArray,
+  getValuesObject,
+  parseTypeAnnotation,
+  replaceNamedPlaceholders,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  LibraryAdapterOptions,
+  ParameterValues,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
 
 /** Target method names for mysql2 */
 const TARGET_METHODS = new Set(["execute", "query"]);
 
+/** Connection factories whose options set the connection-wide defaults */
+const FACTORY_METHODS = new Set(["createConnection", "createPool", "createPoolCluster"]);
+
 /**
  * Adapter for detecting and handling mysql2 library method calls
+ *
+ * With `namedPlaceholders` (query options, connection factory options or the rule option),
+ * `:name` placeholders are rewritten to `?` before the statement is prepared.
  */
 export class MySQL2Adapter implements ILibraryAdapter {
+  private namedPlaceholders: boolean;
+
+  /**
+   * Create a new mysql2 adapter (`namedPlaceholders` is the default for queries of the file)
+   */
+  constructor(options: LibraryAdapterOptions = {}) {
+    this.namedPlaceholders = options.namedPlaceholders ?? false;
+  }
   /**
    * Check if a call expression is a target mysql2 method
    */
-  isTargetMethod(callExpr: TSESTree.CallExpression): boolean {
+  isTargetMethod(callExpr: QueryExpression): boolean {
+    if (callExpr.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+
     const callee = callExpr.callee;
 
     // Must be a member expression (object.method)
@@ -32,56 +67,74 @@ export class MySQL2Adapter implements ILibraryAdapter {
   }
 
   /**
-   * Extract SQL string from call expression
+   * Extract SQL string from call expression (named placeholders become `?`; tagged templates
+   * configured as targets have no SQL argument)
    */
-  extractSql(callExpr: TSESTree.CallExpression): string | null {
-    const args = callExpr.arguments;
-    if (args.length === 0) {
+  extractSql(callExpr: QueryExpression): string | null {
+    if (callExpr.type !== AST_NODE_TYPES.CallExpression) {
       return null;
     }
+    const sql = this.extractRawSql(callExpr);
+    if (sql === null || !this.usesNamedPlaceholders(callExpr)) {
+      return sql;
+    }
+    return replaceNamedPlaceholders(sql, () => "?");
+  }
 
-    const firstArg = args[0];
-    if (!firstArg) {
+  /**
+   * Get the values array passed after the SQL or as `{ sql, values }`, or the values object
+   * of named placeholders
+   */
+  getParameterValues(callExpr: QueryExpression): ParameterValues | null {
+    if (callExpr.type !== AST_NODE_TYPES.CallExpression) {
       return null;
     }
-
-    // Handle string literal
-    if (firstArg.type === AST_NODE_TYPES.Literal && typeof firstArg.value === "string") {
-      return firstArg.value;
+    const options = getQueryOptionsObject(callExpr);
+    const sql = this.usesNamedPlaceholders(callExpr) ? this.extractRawSql(callExpr) : null;
+
+    const names: string[] = [];
+    if (sql !== null) {
+      replaceNamedPlaceholders(sql, (name) => {
+        names.push(name);
+        return "?";
+      });
     }
+    return names.length > 0
+      ? getValuesObject(callExpr, options, names)
+      : getValuesArray(callExpr, options);
+  }
 
-    // Handle template literal without expressions
-    if (firstArg.type === AST_NODE_TYPES.TemplateLiteral) {
-      if (firstArg.expressions.length > 0) {
-        return null; // Cannot handle dynamic SQL
-      }
+  /**
+   * Extract SQL string from call expression as written
+   */
+  private extractRawSql(callExpr: TSESTree.CallExpression): string | null {
+    const args = callExpr.arguments;
+    if (args.length === 0) {
+      return null;
+    }
 
-      // Concatenate all quasis
-      return firstArg.quasis.map((q) => q.value.cooked ?? q.value.raw).join("");
+    const firstArg = args[0];
+    if (!firstArg) {
+      return null;
     }
 
     // Handle object with sql property
     if (firstArg.type === AST_NODE_TYPES.ObjectExpression) {
-      const sqlProp = this.findProperty(firstArg, "sql");
-      if (sqlProp?.type === AST_NODE_TYPES.Literal && typeof sqlProp.value === "string") {
-        return sqlProp.value;
-      }
+      return getStaticSql(findProperty(firstArg, "sql") ?? undefined);
     }
 
-    return null;
+    // Handle string literal / template literal without expressions / SQL constant
+    return getStaticSql(firstArg);
   }
 
   /**
    * Get existing type annotation from call expression
    */
   getExistingTypeAnnotation(
-    callExpr: TSESTree.CallExpression,
+    callExpr: QueryExpression,
     sourceCode: string,
   ): ParsedTypeAnnotation | null {
-    const callExprWithTypeArgs = callExpr as TSESTree.CallExpression & {
-      typeArguments?: TSESTree.TSTypeParameterInstantiation;
-    };
-    const typeArgs = callExprWithTypeArgs.typeArguments;
+    const typeArgs = getTypeArguments(callExpr);
 
     if (!typeArgs?.params.length) {
       return null;
@@ -94,113 +147,62 @@ export class MySQL2Adapter implements ILibraryAdapter {
 
     // Get the source text of the type annotation
     const typeText = sourceCode.slice(firstParam.range[0], firstParam.range[1]);
-    return this.parseTypeAnnotationString(typeText);
+    return parseTypeAnnotation(typeText);
   }
 
   /**
-   * Parse type annotation string to extract column types
+   * Generate fix for type annotation
    */
-  private parseTypeAnnotationString(typeStr: string): ParsedTypeAnnotation {
-    const columns: ColumnTypeRegistry = {};
-
-    // Extract content between { and }
-    const match = /\{\s*([^}]+)\s*\}/.exec(typeStr);
-    if (!match?.[1]) {
-      return { columns };
+  generateFix(callExpr: QueryExpression, expectedType: string): FixInfo {
+    // Replace existing type parameter
+    const typeArgs = getTypeArguments(callExpr);
+    if (typeArgs) {
+      return { range: typeArgs.range, text: `<${expectedType}>` };
     }
 
-    const content = match[1];
-
-    // Parse each column: "name: type" or "name: type | null"
-    // Remove comments before parsing
-    const columnParts = content
-      .replace(/\/\*[\s\S]*?\*\//g, "") // Remove block comments (/* ... */ and /** ... */)
-      .replace(/\/\/[^\n]*/g, "") // Remove line comments (// ...)
-      .split(";")
-      .map((s) => s.trim())
-      .filter(Boolean);
-
-    for (const part of columnParts) {
-      const colonIndex = part.indexOf(":");
-      if (colonIndex === -1) continue;
-
-      const name = part.slice(0, colonIndex).trim();
-      const typeExpr = part.slice(colonIndex + 1).trim();
-
-      const typeInfo = this.parseTypeExpression(typeExpr);
-      columns[name] = typeInfo;
-    }
-
-    return { columns };
-  }
-
-  /**
-   * Parse a single type expression
-   */
-  private parseTypeExpression(typeExpr: string): ColumnTypeInfo {
-    const nullable = typeExpr.includes("| null");
-    const cleanExpr = typeExpr.replace(/\s*\|\s*null\s*$/, "").trim();
-
-    // Check for enum (union of string literals)
-    if (cleanExpr.includes('"')) {
-      const enumValues = this.extractEnumValues(cleanExpr);
-      if (enumValues.length > 0) {
-        return { type: "enum", nullable, enumValues };
-      }
-    }
+    // Insert type parameter after method name
+    const callee = callExpr.type === AST_NODE_TYPES.CallExpression ? callExpr.callee : callExpr.tag;
+    const insertPosition = callee.range[1];
 
-    return { type: cleanExpr, nullable };
+    return {
+      range: [insertPosition, insertPosition],
+      text: `<${expectedType}>`,
+    };
   }
 
   /**
-   * Extract enum values from union type string
+   * Wrap row type with RowDataPacket
    */
-  private extractEnumValues(typeExpr: string): string[] {
-    const values: string[] = [];
-    const regex = /"([^"]+)"/g;
-    let match;
-    while ((match = regex.exec(typeExpr)) !== null) {
-      if (match[1]) {
-        values.push(match[1]);
-      }
-    }
-    return values;
+  formatRowsType(rowType: string): string {
+    return `(RowDataPacket & ${rowType})[]`;
   }
 
   /**
-   * Generate fix for type annotation
+   * No overrides: the engine type mappings describe mysql2 values
    */
-  generateFix(callExpr: TSESTree.CallExpression, expectedType: string): FixInfo {
-    const callee = callExpr.callee;
-
-    // Insert type parameter after method name
-    const insertPosition = callee.range[1];
-
-    return {
-      range: [insertPosition, insertPosition],
-      text: `<${expectedType}>`,
-    };
+  getTypeOverrides(): Record<string, string> | null {
+    return null;
   }
 
   /**
    * Get query options from call expression
    */
-  getQueryOptions(callExpr: TSESTree.CallExpression): QueryOptions {
-    const args = callExpr.arguments;
+  getQueryOptions(callExpr: QueryExpression): QueryOptions {
     const defaultOptions: QueryOptions = {
       nestTables: false,
       rowsAsArray: false,
     };
 
-    if (args.length === 0) {
+    if (callExpr.type !== AST_NODE_TYPES.CallExpression || callExpr.arguments.length === 0) {
       return defaultOptions;
     }
+    const args = callExpr.arguments;
 
     // Check first argument for object with options
     const firstArg = args[0];
     if (firstArg?.type === AST_NODE_TYPES.ObjectExpression) {
-      const nestTables = this.findProperty(firstArg, "nestTables");
-      const rowsAsArray = this.findProperty(firstArg, "rowsAsArray");
+      const nestTables = findProperty(firstArg, "nestTables");
+      const rowsAsArray = findProperty(firstArg, "rowsAsArray");
 
       return {
         nestTables: nestTables?.type === AST_NODE_TYPES.Literal && nestTables.value === true,
@@ -212,33 +214,46 @@ export class MySQL2Adapter implements ILibraryAdapter {
   }
 
   /**
-   * Check if RowDataPacket import exists (placeholder for actual implementation)
+   * Get required import statement
    */
-  hasRowDataPacketImport(_sourceCode: unknown): boolean {
-    // This would check the AST's import declarations
-    return false;
+  getRequiredImport(): string {
+    return "import type { RowDataPacket } from 'mysql2/promise';";
   }
 
   /**
-   * Get required import statement
+   * Writes resolve to `[ResultSetHeader, fields]`
    */
-  getRequiredImport(): string {
-    return "import type { RowDataPacket } from 'mysql2/promise';";
+  getWriteResultType(): WriteResultType {
+    return {
+      type: "ResultSetHeader",
+      importStatement: "import type { ResultSetHeader } from 'mysql2/promise';",
+    };
   }
 
   /**
-   * Find property in object expression
+   * Check if `:name` placeholders are named placeholders for a query
+   *
+   * A `namedPlaceholders` literal in the query options wins over the connection factory options
+   * and the rule option.
    */
-  private findProperty(obj: TSESTree.ObjectExpression, name: string): TSESTree.Expression | null {
-    for (const prop of obj.properties) {
-      if (
-        prop.type === AST_NODE_TYPES.Property &&
-        prop.key.type === AST_NODE_TYPES.Identifier &&
-        prop.key.name === name
-      ) {
-        return prop.value as TSESTree.Expression;
-      }
+  private usesNamedPlaceholders(callExpr: TSESTree.CallExpression): boolean {
+    const value = findProperty(getQueryOptionsObject(callExpr), "namedPlaceholders");
+    if (value?.type === AST_NODE_TYPES.Literal) {
+      return value.value === true;
     }
-    return null;
+    return (
+      this.namedPlaceholders ||
+      getBooleanOption(callExpr, null, FACTORY_METHODS, "namedPlaceholders")
+    );
   }
 }
+
+/**
+ * Get the `{ sql, ... }` options object passed instead of a SQL string
+ */
+function getQueryOptionsObject(
+  callExpr: TSESTree.CallExpression,
+): TSESTree.ObjectExpression | null {
+  const firstArg = callExpr.arguments[0];
+  return firstArg?.type === AST_NODE_TYPES.ObjectExpression ? firstArg : null;
+}
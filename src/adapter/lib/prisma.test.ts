@@ -0,0 +1,200 @@
+import { parse } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import type { QueryExpression } from "./lib.i";
+import { PrismaAdapter } from "./prisma";
+
+describe("Prisma Library Adapter", () => {
+  const adapter = new PrismaAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect $queryRaw tagged template", () => {
+      // GIVEN
+      const node = parseQuery("prisma.$queryRaw`SELECT id FROM users`");
+
+      // WHEN / THEN
+      expect(adapter.isTargetMethod(node)).toBe(true);
+    });
+
+    it("should detect $queryRawUnsafe call", () => {
+      // GIVEN
+      const node = parseQuery('prisma.$queryRawUnsafe("SELECT id FROM users WHERE id = ?", 1)');
+
+      // WHEN / THEN
+      expect(adapter.isTargetMethod(node)).toBe(true);
+    });
+
+    it("should not detect other methods", () => {
+      expect(adapter.isTargetMethod(parseQuery("prisma.$executeRaw`DELETE FROM users`"))).toBe(
+        false,
+      );
+      expect(adapter.isTargetMethod(parseQuery('pool.query("SELECT id FROM users")'))).toBe(false);
+    });
+  });
+
+  describe("SQL Extraction", () => {
+    it("should replace interpolations with ? placeholders", () => {
+      // GIVEN
+      const node = parseQuery(
+        "prisma.$queryRaw`SELECT id FROM users WHERE id = ${id} AND status = ${status}`",
+      );
+
+      // WHEN
+      const sql = adapter.extractSql(node);
+
+      // THEN
+      expect(sql).toBe("SELECT id FROM users WHERE id = ? AND status = ?");
+    });
+
+    it("should use numbered placeholders for PostgreSQL", () => {
+      // GIVEN
+      const node = parseQuery(
+        "prisma.$queryRaw`SELECT id FROM users WHERE id = ${id} OR id = ${other}`",
+      );
+
+      // WHEN
+      const sql = new PrismaAdapter("postgresql").extractSql(node);
+
+      // THEN
+      expect(sql).toBe("SELECT id FROM users WHERE id = $1 OR id = $2");
+    });
+
+    it("should inline Prisma.sql fragments and static Prisma.raw SQL", () => {
+      // GIVEN
+      const node = parseQuery(
+        'prisma.$queryRaw`SELECT id FROM ${Prisma.raw("users")} WHERE id = ${id} ${Prisma.sql`AND status = ${status}`}`',
+      );
+
+      // WHEN
+      const sql = new PrismaAdapter("postgresql").extractSql(node);
+
+      // THEN
+      expect(sql).toBe("SELECT id FROM users WHERE id = $1 AND status = $2");
+    });
+
+    it("should return null for Prisma.join, Prisma.empty and dynamic Prisma.raw", () => {
+      expect(
+        adapter.extractSql(
+          parseQuery("prisma.$queryRaw`SELECT id FROM users WHERE id IN (${Prisma.join(ids)})`"),
+        ),
+      ).toBeNull();
+      expect(
+        adapter.extractSql(parseQuery("prisma.$queryRaw`SELECT id FROM users ${Prisma.empty}`")),
+      ).toBeNull();
+      expect(
+        adapter.extractSql(parseQuery("prisma.$queryRaw`SELECT ${Prisma.raw(column)} FROM users`")),
+      ).toBeNull();
+    });
+
+    it("should extract SQL from $queryRawUnsafe string", () => {
+      // GIVEN
+      const node = parseQuery('prisma.$queryRawUnsafe("SELECT id FROM users WHERE id = ?", id)');
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBe("SELECT id FROM users WHERE id = ?");
+    });
+
+    it("should return null for dynamic $queryRawUnsafe SQL", () => {
+      expect(adapter.extractSql(parseQuery("prisma.$queryRawUnsafe(sql)"))).toBeNull();
+    });
+  });
+
+  describe("Type Annotation", () => {
+    it("should parse existing type argument", () => {
+      // GIVEN
+      const code =
+        'prisma.$queryRaw<{ id: number; status: "a" | "b" | null }[]>`SELECT id FROM users`';
+      const node = parseQuery(code);
+
+      // WHEN
+      const result = adapter.getExistingTypeAnnotation(node, code);
+
+      // THEN
+      expect(result?.columns).toEqual({
+        id: { type: "number", nullable: false },
+        status: { type: "enum", nullable: true, enumValues: ["a", "b"] },
+      });
+    });
+
+    it("should return null without type argument", () => {
+      // GIVEN
+      const code = "prisma.$queryRaw`SELECT id FROM users`";
+
+      // WHEN / THEN
+      expect(adapter.getExistingTypeAnnotation(parseQuery(code), code)).toBeNull();
+    });
+  });
+
+  describe("Type Overrides", () => {
+    it("should type BIGINT as bigint, DECIMAL as Prisma.Decimal and binary as Uint8Array", () => {
+      // WHEN
+      const overrides = adapter.getTypeOverrides();
+
+      // THEN
+      expect(overrides).toMatchObject({
+        BIGINT: "bigint",
+        INT8: "bigint",
+        DECIMAL: "Prisma.Decimal",
+        NUMERIC: "Prisma.Decimal",
+        BLOB: "Uint8Array",
+        BYTEA: "Uint8Array",
+      });
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should insert plain T[] after the tag", () => {
+      // GIVEN
+      const code = "prisma.$queryRaw`SELECT id FROM users`";
+      const node = parseQuery(code);
+
+      // WHEN
+      const fix = adapter.generateFix(node, adapter.formatRowsType("{ id: number }"));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe("prisma.$queryRaw<{ id: number }[]>`SELECT id FROM users`");
+    });
+
+    it("should replace an existing type argument", () => {
+      // GIVEN
+      const code = 'prisma.$queryRawUnsafe<{ id: string }[]>("SELECT id FROM users")';
+      const node = parseQuery(code);
+
+      // WHEN
+      const fix = adapter.generateFix(node, "{ id: number }[]");
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        'prisma.$queryRawUnsafe<{ id: number }[]>("SELECT id FROM users")',
+      );
+    });
+
+    it("should not require an import", () => {
+      expect(adapter.getRequiredImport()).toBeNull();
+    });
+  });
+});
+
+/**
+ * Parse a single expression statement into a call / tagged template node
+ */
+function parseQuery(code: string): QueryExpression {
+  const program = parse(code, { range: true });
+  const statement = program.body[0] as TSESTree.ExpressionStatement;
+  const expression = statement.expression;
+  if (
+    expression.type !== AST_NODE_TYPES.CallExpression &&
+    expression.type !== AST_NODE_TYPES.TaggedTemplateExpression
+  ) {
+    throw new Error(`Unexpected expression: ${expression.type}`);
+  }
+  return expression;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string }): string {
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
@@ -0,0 +1,213 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import type { DatabaseEngine } from "../db/config.i";
+
+import {
+  getMemberPropertyName,
+  getStaticSql,
+  getTemplateSql,
+  getTypeArguments,
+  parseTypeAnnotation,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Tagged template methods: prisma.$queryRaw`...` */
+const TAGGED_TEMPLATE_METHODS = new Set(["$queryRaw"]);
+
+/** Call methods taking a SQL string: prisma.$queryRawUnsafe(sql, ...params) */
+const UNSAFE_METHODS = new Set(["$queryRawUnsafe"]);
+
+/** Namespace of the SQL helpers (`Prisma.sql`, `Prisma.raw`, `Prisma.join`, `Prisma.empty`) */
+const PRISMA_NAMESPACE = "Prisma";
+
+/**
+ * Prisma deserializes raw query values itself: 64-bit integers (including `COUNT(*)`) as
+ * `bigint`, decimals as `Prisma.Decimal` and binary values as `Uint8Array`
+ */
+const PRISMA_TYPE_OVERRIDES: Record<string, string> = {
+  BIGINT: "bigint",
+  INT8: "bigint",
+  DECIMAL: "Prisma.Decimal",
+  NUMERIC: "Prisma.Decimal",
+  BLOB: "Uint8Array",
+  TINYBLOB: "Uint8Array",
+  MEDIUMBLOB: "Uint8Array",
+  LONGBLOB: "Uint8Array",
+  BINARY: "Uint8Array",
+  VARBINARY: "Uint8Array",
+  BYTEA: "Uint8Array",
+};
+
+/**
+ * Adapter for Prisma raw queries (`$queryRaw` / `$queryRawUnsafe`)
+ *
+ * Prisma returns plain row objects, so the result type is `T[]` and no import is needed.
+ */
+export class PrismaAdapter implements ILibraryAdapter {
+  private dbEngine: DatabaseEngine;
+
+  /**
+   * Create a new Prisma adapter (placeholders follow the database engine)
+   */
+  constructor(dbEngine: DatabaseEngine = "mysql") {
+    this.dbEngine = dbEngine;
+  }
+
+  /**
+   * Check if a node is `prisma.$queryRaw`...`` or `prisma.$queryRawUnsafe(...)`
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    if (node.type === AST_NODE_TYPES.TaggedTemplateExpression) {
+      const methodName = getMemberPropertyName(node.tag);
+      return methodName !== null && TAGGED_TEMPLATE_METHODS.has(methodName);
+    }
+
+    const methodName = getMemberPropertyName(node.callee);
+    return methodName !== null && UNSAFE_METHODS.has(methodName);
+  }
+
+  /**
+   * Extract SQL, turning `${}` interpolations of tagged templates into placeholders
+   *
+   * `Prisma.sql`...`` fragments are inlined and `Prisma.raw("...")` static SQL is inserted
+   * as-is. Other `Prisma` helpers (`Prisma.join`, `Prisma.empty`, dynamic `Prisma.raw`) make the
+   * SQL unknown.
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type === AST_NODE_TYPES.TaggedTemplateExpression) {
+      let index = 0;
+      const compile = (template: TSESTree.TemplateLiteral): string | null =>
+        getTemplateSql(template, (expression) => {
+          switch (getPrismaHelperName(expression)) {
+            case null:
+              return this.getPlaceholder(index++);
+            case "sql":
+              return expression.type === AST_NODE_TYPES.TaggedTemplateExpression
+                ? compile(expression.quasi)
+                : null;
+            case "raw":
+              return expression.type === AST_NODE_TYPES.CallExpression
+                ? getStaticSql(expression.arguments[0])
+                : null;
+            default:
+              return null;
+          }
+        });
+      return compile(node.quasi);
+    }
+
+    return getStaticSql(node.arguments[0]);
+  }
+
+  /**
+   * Values are interpolated into the tagged template or passed as arguments of `$queryRawUnsafe()`; they are not checked
+   */
+  getParameterValues(): TSESTree.Expression[] | null {
+    return null;
+  }
+
+  /**
+   * Get existing `$queryRaw<T>` / `$queryRawUnsafe<T>` type argument
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const firstParam = getTypeArguments(node)?.params[0];
+    if (!firstParam) {
+      return null;
+    }
+
+    const typeText = sourceCode.slice(firstParam.range[0], firstParam.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Insert the type argument after the method name, or replace the existing one
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo {
+    const typeArgs = getTypeArguments(node);
+    if (typeArgs) {
+      return { range: typeArgs.range, text: `<${expectedType}>` };
+    }
+
+    const target: TSESTree.Node =
+      node.type === AST_NODE_TYPES.TaggedTemplateExpression ? node.tag : node.callee;
+    const insertPosition = target.range[1];
+
+    return {
+      range: [insertPosition, insertPosition],
+      text: `<${expectedType}>`,
+    };
+  }
+
+  /**
+   * Prisma returns an array of plain row objects
+   */
+  formatRowsType(rowType: string): string {
+    return `${rowType}[]`;
+  }
+
+  /**
+   * Raw query values are decoded by Prisma, not by the database driver
+   */
+  getTypeOverrides(): Record<string, string> | null {
+    return PRISMA_TYPE_OVERRIDES;
+  }
+
+  /**
+   * Prisma raw queries have no mysql2-style options
+   */
+  getQueryOptions(_node: QueryExpression): QueryOptions {
+    return { nestTables: false, rowsAsArray: false };
+  }
+
+  /**
+   * Prisma results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * `$queryRaw` is not used for writes (`$executeRaw` returns a count)
+   */
+  getWriteResultType(): WriteResultType | null {
+    return null;
+  }
+
+  /**
+   * Get the placeholder Prisma sends for the n-th interpolation (0-based)
+   */
+  private getPlaceholder(index: number): string {
+    return this.dbEngine === "postgresql" ? `$${String(index + 1)}` : "?";
+  }
+}
+
+/**
+ * Get the name of the `Prisma` helper an interpolation uses (`Prisma.raw(...)` -> "raw"),
+ * or null for values
+ */
+function getPrismaHelperName(expression: TSESTree.Expression): string | null {
+  const helper =
+    expression.type === AST_NODE_TYPES.CallExpression
+      ? expression.callee
+      : expression.type === AST_NODE_TYPES.TaggedTemplateExpression
+        ? expression.tag
+        : expression;
+  if (
+    helper.type !== AST_NODE_TYPES.MemberExpression ||
+    helper.object.type !== AST_NODE_TYPES.Identifier ||
+    helper.object.name !== PRISMA_NAMESPACE
+  ) {
+    return null;
+  }
+  return getMemberPropertyName(helper);
+}
@@ -0,0 +1,137 @@
+import { parse } from "@typescript-eslint/parser";
+import type { TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { SequelizeAdapter } from "./sequelize";
+
+describe("Sequelize Library Adapter", () => {
+  const adapter = new SequelizeAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect SELECT queries", () => {
+      expect(
+        adapter.isTargetMethod(parseQuery("sequelize.query(sql, { type: QueryTypes.SELECT })")),
+      ).toBe(true);
+      expect(
+        adapter.isTargetMethod(
+          parseQuery("db.query(sql, { type: Sequelize.QueryTypes.SELECT, plain: true })"),
+        ),
+      ).toBe(true);
+      expect(adapter.isTargetMethod(parseQuery('sequelize.query(sql, { type: "SELECT" })'))).toBe(
+        true,
+      );
+    });
+
+    it("should not detect queries without SELECT type", () => {
+      expect(adapter.isTargetMethod(parseQuery("sequelize.query(sql)"))).toBe(false);
+      expect(
+        adapter.isTargetMethod(parseQuery("sequelize.query(sql, { type: QueryTypes.UPDATE })")),
+      ).toBe(false);
+    });
+
+    it("should only detect model queries with raw: true", () => {
+      expect(
+        adapter.isTargetMethod(
+          parseQuery("sequelize.query(sql, { type: QueryTypes.SELECT, model: User })"),
+        ),
+      ).toBe(false);
+      expect(
+        adapter.isTargetMethod(
+          parseQuery("sequelize.query(sql, { type: QueryTypes.SELECT, model: User, raw: true })"),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("SQL Extraction", () => {
+    it("should replace named replacements", () => {
+      // GIVEN
+      const node = parseQuery(
+        "sequelize.query(\"SELECT id FROM users WHERE status = :status AND note = ':status'\", { type: QueryTypes.SELECT, replacements: { status } })",
+      );
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBe(
+        "SELECT id FROM users WHERE status = ? AND note = ':status'",
+      );
+    });
+
+    it("should number ? replacements for PostgreSQL", () => {
+      // GIVEN
+      const node = parseQuery(
+        'sequelize.query("SELECT id FROM users WHERE id = ? OR id = ?", { type: QueryTypes.SELECT, replacements: [a, b] })',
+      );
+
+      // WHEN / THEN
+      expect(new SequelizeAdapter("postgresql").extractSql(node)).toBe(
+        "SELECT id FROM users WHERE id = $1 OR id = $2",
+      );
+    });
+
+    it("should replace $bind parameters", () => {
+      // GIVEN
+      const node = parseQuery(
+        'sequelize.query("SELECT id FROM users WHERE id = $id AND status = $2", { type: QueryTypes.SELECT, bind: { id } })',
+      );
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBe("SELECT id FROM users WHERE id = ? AND status = ?");
+    });
+  });
+
+  describe("Type Annotation", () => {
+    it("should flatten nested types with nest: true", () => {
+      // GIVEN
+      const code =
+        "sequelize.query<{ id: number; user: { name: string | null } }>(sql, { type: QueryTypes.SELECT, nest: true })";
+
+      // WHEN
+      const result = adapter.getExistingTypeAnnotation(parseQuery(code), code);
+
+      // THEN
+      expect(result?.columns).toEqual({
+        id: { type: "number", nullable: false },
+        "user.name": { type: "string", nullable: true },
+      });
+    });
+
+    it("should report nest option", () => {
+      // GIVEN
+      const node = parseQuery("sequelize.query(sql, { type: QueryTypes.SELECT, nest: true })");
+
+      // WHEN / THEN
+      expect(adapter.getQueryOptions(node).nest).toBe(true);
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should insert the row type as type argument", () => {
+      // GIVEN
+      const code = "sequelize.query(sql, { type: QueryTypes.SELECT, plain: true })";
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), adapter.formatRowsType("{ id: number }"));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        "sequelize.query<{ id: number }>(sql, { type: QueryTypes.SELECT, plain: true })",
+      );
+    });
+  });
+});
+
+/**
+ * Parse a single call expression statement
+ */
+function parseQuery(code: string): TSESTree.CallExpression {
+  const program = parse(code, { range: true });
+  const statement = program.body[0] as TSESTree.ExpressionStatement;
+  return statement.expression as TSESTree.CallExpression;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string }): string {
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
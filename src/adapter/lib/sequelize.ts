@@ -0,0 +1,242 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import type { DatabaseEngine } from "../db/config.i";
+
+import {
+  findProperty,
+  getMemberPropertyName,
+  getStaticSql,
+  getTypeArguments,
+  isTrueLiteral,
+  parseTypeAnnotation,
+  replaceNamedPlaceholders,
+  replaceParameters,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Target method names for Sequelize */
+const TARGET_METHODS = new Set(["query"]);
+
+/** `QueryTypes.SELECT` value */
+const SELECT_QUERY_TYPE = "SELECT";
+
+/**
+ * Adapter for Sequelize `sequelize.query<T>(sql, { type: QueryTypes.SELECT, ... })`
+ *
+ * Only SELECT queries resolve to rows: `T[]`, or `T | null` with `plain: true`. Both use the
+ * row type as type argument. With `nest: true`, dotted aliases (`"user.id"`) are nested objects.
+ */
+export class SequelizeAdapter implements ILibraryAdapter {
+  private dbEngine: DatabaseEngine;
+
+  /**
+   * Create a new Sequelize adapter (placeholders follow the database engine)
+   */
+  constructor(dbEngine: DatabaseEngine = "mysql") {
+    this.dbEngine = dbEngine;
+  }
+
+  /**
+   * Check if a node is `<sequelize>.query(sql, { type: QueryTypes.SELECT })` returning raw rows
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+
+    const methodName = getMemberPropertyName(node.callee);
+    if (methodName === null || !TARGET_METHODS.has(methodName)) {
+      return false;
+    }
+
+    const options = getOptions(node);
+    if (!options || !isSelectType(findProperty(options, "type"))) {
+      return false;
+    }
+
+    // Model instances are typed by the model unless `raw: true`
+    return !findProperty(options, "model") || isTrueLiteral(findProperty(options, "raw"));
+  }
+
+  /**
+   * Extract SQL and turn `:replacements` / `?` replacements and `$bind` parameters into placeholders
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return null;
+    }
+
+    // query({ query, values }, options) is accepted as well
+    const firstArg = node.arguments[0];
+    let sql =
+      firstArg?.type === AST_NODE_TYPES.ObjectExpression
+        ? getStaticSql(findProperty(firstArg, "query") ?? undefined)
+        : getStaticSql(firstArg);
+    if (sql === null) {
+      return null;
+    }
+
+    const options = getOptions(node);
+    const replacements = findProperty(options, "replacements");
+    if (replacements?.type === AST_NODE_TYPES.ObjectExpression) {
+      sql = replaceNamedPlaceholders(sql, (_name, index) => this.getPlaceholder(index));
+    } else if (replacements) {
+      sql = replaceParameters(sql, /\?/y, (_match, index) => this.getPlaceholder(index));
+    }
+
+    if (findProperty(options, "bind")) {
+      sql = replaceParameters(sql, /\$(\w+)/y, (match, index) =>
+        this.dbEngine === "postgresql" && /^\d+$/.test(match[1] ?? "")
+          ? match[0]
+          : this.getPlaceholder(index),
+      );
+    }
+
+    return sql;
+  }
+
+  /**
+   * Replacements and bind parameters are options objects; they are not checked
+   */
+  getParameterValues(): TSESTree.Expression[] | null {
+    return null;
+  }
+
+  /**
+   * Get the row type from the type argument (nested objects are flattened with `nest: true`)
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const firstParam = getTypeArguments(node)?.params[0];
+    if (!firstParam) {
+      return null;
+    }
+
+    if (this.getQueryOptions(node).nest && firstParam.type === AST_NODE_TYPES.TSTypeLiteral) {
+      const props = flattenTypeLiteral(firstParam, sourceCode, "");
+      return parseTypeAnnotation(`{ ${props.join("; ")} }`);
+    }
+
+    const typeText = sourceCode.slice(firstParam.range[0], firstParam.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Insert the type argument after `query`, or replace the existing one
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo {
+    const typeArgs = getTypeArguments(node);
+    if (typeArgs) {
+      return { range: typeArgs.range, text: `<${expectedType}>` };
+    }
+
+    const callee = node.type === AST_NODE_TYPES.CallExpression ? node.callee : node.tag;
+    const insertPosition = callee.range[1];
+    return { range: [insertPosition, insertPosition], text: `<${expectedType}>` };
+  }
+
+  /**
+   * The type argument is the row type for both `T[]` and `plain: true` (`T | null`)
+   */
+  formatRowsType(rowType: string): string {
+    return rowType;
+  }
+
+  /**
+   * No overrides: Sequelize raw queries return the values decoded by the dialect driver
+   */
+  getTypeOverrides(): Record<string, string> | null {
+    return null;
+  }
+
+  /**
+   * Read `nest: true` from the query options
+   */
+  getQueryOptions(node: QueryExpression): QueryOptions {
+    const options = node.type === AST_NODE_TYPES.CallExpression ? getOptions(node) : null;
+    return {
+      nestTables: false,
+      rowsAsArray: false,
+      nest: isTrueLiteral(findProperty(options, "nest")),
+    };
+  }
+
+  /**
+   * Sequelize results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * Sequelize write results depend on the `QueryTypes` option (not checked)
+   */
+  getWriteResultType(): WriteResultType | null {
+    return null;
+  }
+
+  /**
+   * Get the value placeholder for the database engine
+   */
+  private getPlaceholder(index: number): string {
+    return this.dbEngine === "postgresql" ? `$${String(index + 1)}` : "?";
+  }
+}
+
+/**
+ * Get the options object literal (second argument)
+ */
+function getOptions(node: TSESTree.CallExpression): TSESTree.ObjectExpression | null {
+  const options = node.arguments[1];
+  return options?.type === AST_NODE_TYPES.ObjectExpression ? options : null;
+}
+
+/**
+ * Check if a `type` option is `QueryTypes.SELECT` / `Sequelize.QueryTypes.SELECT` / `"SELECT"`
+ */
+function isSelectType(node: TSESTree.Node | null): boolean {
+  if (node?.type === AST_NODE_TYPES.Literal) {
+    return node.value === SELECT_QUERY_TYPE;
+  }
+  return node !== null && getMemberPropertyName(node) === SELECT_QUERY_TYPE;
+}
+
+/**
+ * Flatten a nested type literal into `"a.b: type"` properties
+ */
+function flattenTypeLiteral(
+  typeLiteral: TSESTree.TSTypeLiteral,
+  sourceCode: string,
+  prefix: string,
+): string[] {
+  const props: string[] = [];
+
+  for (const member of typeLiteral.members) {
+    if (
+      member.type !== AST_NODE_TYPES.TSPropertySignature ||
+      member.key.type !== AST_NODE_TYPES.Identifier ||
+      !member.typeAnnotation
+    ) {
+      continue;
+    }
+
+    const name = prefix + member.key.name;
+    const type = member.typeAnnotation.typeAnnotation;
+    if (type.type === AST_NODE_TYPES.TSTypeLiteral) {
+      props.push(...flattenTypeLiteral(type, sourceCode, `${name}.`));
+    } else {
+      props.push(`${name}: ${sourceCode.slice(type.range[0], type.range[1])}`);
+    }
+  }
+
+  return props;
+}
@@ -0,0 +1,184 @@
+import { parse } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { DrizzleAdapter } from "./drizzle";
+import { KyselyAdapter } from "./kysely";
+
+describe("SQL Tagged Template Adapters", () => {
+  const kysely = new KyselyAdapter();
+  const drizzle = new DrizzleAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect sql tags in Kysely and Drizzle queries", () => {
+      expect(kysely.isTargetMethod(parseTag("await sql`SELECT 1`.execute(db)"))).toBe(true);
+      expect(drizzle.isTargetMethod(parseTag("await db.execute(sql<{ a: 1 }>`SELECT 1`)"))).toBe(
+        true,
+      );
+    });
+
+    it("should not detect sql tags nested in another template", () => {
+      // GIVEN
+      const code = "sql`SELECT id FROM users WHERE ${sql`id = ${id}`}`";
+
+      // WHEN / THEN
+      expect(kysely.isTargetMethod(parseTag(code, "last"))).toBe(false);
+      expect(kysely.isTargetMethod(parseTag(code))).toBe(true);
+    });
+
+    it("should not detect other tags and calls", () => {
+      expect(kysely.isTargetMethod(parseTag("db.sql`SELECT 1`"))).toBe(false);
+      expect(kysely.isTargetMethod(parseTag("gql`query { id }`"))).toBe(false);
+    });
+  });
+
+  describe("SQL Extraction", () => {
+    it("should replace values with placeholders and inline nested templates", () => {
+      // GIVEN
+      const node = parseTag(
+        "sql`SELECT id FROM users WHERE id = ${id} AND ${sql`status = ${status}`}`",
+      );
+
+      // WHEN / THEN
+      expect(kysely.extractSql(node)).toBe("SELECT id FROM users WHERE id = ? AND status = ?");
+      expect(new KyselyAdapter("postgresql").extractSql(node)).toBe(
+        "SELECT id FROM users WHERE id = $1 AND status = $2",
+      );
+    });
+
+    it("should compile Kysely helpers", () => {
+      // GIVEN
+      const node = parseTag(
+        "sql`SELECT ${sql.ref('u.email')}, ${sql.lit('a')} AS a FROM ${sql.table('users')} u ${sql.raw('LIMIT 1')}`",
+      );
+
+      // WHEN / THEN
+      expect(kysely.extractSql(node)).toBe("SELECT `u`.`email`, 'a' AS a FROM `users` u LIMIT 1");
+    });
+
+    it("should compile Drizzle helpers", () => {
+      // GIVEN
+      const node = parseTag(
+        "sql`SELECT ${sql.identifier('email')} FROM users WHERE id = ${sql.placeholder('id')}`",
+      );
+
+      // WHEN / THEN
+      expect(new DrizzleAdapter("postgresql").extractSql(node)).toBe(
+        'SELECT "email" FROM users WHERE id = $1',
+      );
+    });
+
+    it("should return null for interpolations outside value positions", () => {
+      expect(drizzle.extractSql(parseTag("sql`SELECT ${users.id} FROM users`"))).toBeNull();
+      expect(drizzle.extractSql(parseTag("sql`SELECT id, ${column} FROM users`"))).toBeNull();
+      expect(
+        kysely.extractSql(parseTag("sql`SELECT id FROM ${users} WHERE id = ${id}`")),
+      ).toBeNull();
+    });
+
+    it("should keep values in IN lists and LIMIT clauses", () => {
+      // GIVEN
+      const node = parseTag("sql`SELECT id FROM users WHERE id IN (${a}, ${b}) LIMIT ${limit}`");
+
+      // WHEN / THEN
+      expect(kysely.extractSql(node)).toBe("SELECT id FROM users WHERE id IN (?, ?) LIMIT ?");
+    });
+
+    it("should return null for parenthesized fragments", () => {
+      // GIVEN
+      const node = parseTag(
+        "sql<number>`(SELECT count(*) FROM posts WHERE posts.user_id = ${userId})`",
+      );
+
+      // WHEN / THEN
+      expect(drizzle.extractSql(node)).toBeNull();
+    });
+
+    it("should return null for helpers that cannot be compiled", () => {
+      expect(kysely.extractSql(parseTag("sql`SELECT ${sql.join(columns)} FROM users`"))).toBeNull();
+      expect(drizzle.extractSql(parseTag("sql`SELECT ${sql.raw(column)} FROM users`"))).toBeNull();
+    });
+  });
+
+  describe("Type Annotation", () => {
+    it("should parse the tag type argument", () => {
+      // GIVEN
+      const code = "sql<{ id: number; email: string | null }>`SELECT id, email FROM users`";
+
+      // WHEN
+      const result = kysely.getExistingTypeAnnotation(parseTag(code), code);
+
+      // THEN
+      expect(result?.columns).toEqual({
+        id: { type: "number", nullable: false },
+        email: { type: "string", nullable: true },
+      });
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should insert the row type on the tag", () => {
+      // GIVEN
+      const code = "await db.execute(sql`SELECT id FROM users`)";
+
+      // WHEN
+      const fix = drizzle.generateFix(parseTag(code), drizzle.formatRowsType("{ id: number }"));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        "await db.execute(sql<{ id: number }>`SELECT id FROM users`)",
+      );
+    });
+
+    it("should replace an existing tag type argument", () => {
+      // GIVEN
+      const code = "sql<{ id: string }>`SELECT id FROM users`.execute(db)";
+
+      // WHEN
+      const fix = kysely.generateFix(parseTag(code), "{ id: number }");
+
+      // THEN
+      expect(applyFix(code, fix)).toBe("sql<{ id: number }>`SELECT id FROM users`.execute(db)");
+    });
+  });
+});
+
+/**
+ * Parse code and return the first (outermost) or last tagged template with parent pointers set
+ */
+function parseTag(
+  code: string,
+  which: "first" | "last" = "first",
+): TSESTree.TaggedTemplateExpression {
+  const program = parse(code, { range: true });
+  const found: TSESTree.TaggedTemplateExpression[] = [];
+
+  const visit = (node: TSESTree.Node, parent: TSESTree.Node | undefined) => {
+    (node as { parent?: TSESTree.Node | undefined }).parent = parent;
+    if (node.type === AST_NODE_TYPES.TaggedTemplateExpression) {
+      found.push(node);
+    }
+    for (const value of Object.values(node)) {
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child && child !== parent) {
+          visit(child as TSESTree.Node, node);
+        }
+      }
+    }
+  };
+  visit(program, undefined);
+
+  const node = which === "first" ? found[0] : found.at(-1);
+  if (!node) {
+    throw new Error("No tagged template found");
+  }
+  return node;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string }): string {
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
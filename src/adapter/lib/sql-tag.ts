@@ -0,0 +1,257 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import { NON_CODE_PATTERN } from "../../parser/parameters";
+import type { DatabaseEngine } from "../db/config.i";
+
+import {
+  getMemberPropertyName,
+  getStaticSql,
+  getTemplateSql,
+  getTypeArguments,
+  getValueSubstitute,
+  parseTypeAnnotation,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Name of the tag function exported by query builders */
+const SQL_TAG = "sql";
+
+/**
+ * How a `sql.<helper>(...)` interpolation is compiled
+ *
+ * - `value`: bound parameter (placeholder)
+ * - `raw`: static SQL inlined as-is
+ * - `literal`: static value inlined as a SQL literal
+ * - `reference`: dotted name quoted part by part (`users.id`)
+ * - `identifier`: each argument quoted as one identifier part
+ */
+export type SqlTagHelperKind = "value" | "raw" | "literal" | "reference" | "identifier";
+
+/**
+ * Base adapter for query builder `sql<T>`...`` tagged templates
+ *
+ * The row type is the type argument of the tag. `${}` values in value positions become
+ * placeholders, nested `sql` templates are inlined, and `sql.<helper>(...)` interpolations
+ * follow `helpers`. Other interpolations (columns or tables in the select list or FROM clause)
+ * make the SQL unknown.
+ */
+export abstract class SqlTagAdapter implements ILibraryAdapter {
+  protected dbEngine: DatabaseEngine;
+
+  /**
+   * Helpers of the `sql` tag that compile to something other than a bound value
+   */
+  protected abstract readonly helpers: Readonly<Record<string, SqlTagHelperKind>>;
+
+  /**
+   * Create a new tagged template adapter (placeholders and quoting follow the database engine)
+   */
+  constructor(dbEngine: DatabaseEngine = "mysql") {
+    this.dbEngine = dbEngine;
+  }
+
+  /**
+   * Check if a node is a `sql`...`` template that is not nested in another template
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    return isSqlTag(node) && node.parent?.type !== AST_NODE_TYPES.TemplateLiteral;
+  }
+
+  /**
+   * Extract SQL, compiling `${}` interpolations like the query builder does
+   *
+   * Fragments that are not statements (`sql<number>`(SELECT count(*) ...)`` used as a column
+   * or subquery) return null.
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type !== AST_NODE_TYPES.TaggedTemplateExpression) {
+      return null;
+    }
+
+    let index = 0;
+    const compile = (template: TSESTree.TemplateLiteral, prefix: string): string | null =>
+      getTemplateSql(template, (expression, sqlBefore) => {
+        // Nested templates are inlined, so values are placed within the whole statement
+        const before = prefix + sqlBefore;
+        if (isSqlTag(expression)) {
+          return compile(expression.quasi, before);
+        }
+
+        const kind = this.getHelperKind(expression);
+        if (kind === null) {
+          return null;
+        }
+        if (kind === "value" || expression.type !== AST_NODE_TYPES.CallExpression) {
+          return getValueSubstitute(before, () => this.getPlaceholder(index++));
+        }
+        return this.compileHelper(kind, expression.arguments);
+      });
+
+    const sql = compile(node.quasi, "");
+    if (sql === null || sql.replace(NON_CODE_PATTERN, " ").trimStart().startsWith("(")) {
+      return null;
+    }
+    return sql;
+  }
+
+  /**
+   * Values are interpolated into the tagged template, one per placeholder
+   */
+  getParameterValues(): TSESTree.Expression[] | null {
+    return null;
+  }
+
+  /**
+   * Get existing `sql<T>` type argument
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const firstParam = getTypeArguments(node)?.params[0];
+    if (!firstParam) {
+      return null;
+    }
+
+    const typeText = sourceCode.slice(firstParam.range[0], firstParam.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Insert the type argument after the tag, or replace the existing one
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo {
+    const typeArgs = getTypeArguments(node);
+    if (typeArgs) {
+      return { range: typeArgs.range, text: `<${expectedType}>` };
+    }
+
+    const target = node.type === AST_NODE_TYPES.TaggedTemplateExpression ? node.tag : node.callee;
+    const insertPosition = target.range[1];
+    return { range: [insertPosition, insertPosition], text: `<${expectedType}>` };
+  }
+
+  /**
+   * The tag type argument is the row type itself
+   */
+  formatRowsType(rowType: string): string {
+    return rowType;
+  }
+
+  /**
+   * No overrides: query builders return the values decoded by the driver
+   */
+  getTypeOverrides(): Record<string, string> | null {
+    return null;
+  }
+
+  /**
+   * Tagged templates have no mysql2-style options
+   */
+  getQueryOptions(_node: QueryExpression): QueryOptions {
+    return { nestTables: false, rowsAsArray: false };
+  }
+
+  /**
+   * Tagged template results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * The `sql` tag types write results as rows of its type argument (not checked)
+   */
+  getWriteResultType(): WriteResultType | null {
+    return null;
+  }
+
+  /**
+   * Get how an interpolation compiles: plain expressions are values,
+   * unknown `sql.<helper>(...)` calls cannot be compiled (null)
+   */
+  private getHelperKind(expression: TSESTree.Expression): SqlTagHelperKind | null {
+    if (
+      expression.type !== AST_NODE_TYPES.CallExpression ||
+      expression.callee.type !== AST_NODE_TYPES.MemberExpression ||
+      expression.callee.object.type !== AST_NODE_TYPES.Identifier ||
+      expression.callee.object.name !== SQL_TAG
+    ) {
+      return "value";
+    }
+
+    const helperName = getMemberPropertyName(expression.callee);
+    if (helperName === null || !Object.hasOwn(this.helpers, helperName)) {
+      return null;
+    }
+    return this.helpers[helperName] ?? null;
+  }
+
+  /**
+   * Compile a static `sql.<helper>(...)` call (null when its arguments are not static)
+   */
+  private compileHelper(
+    kind: Exclude<SqlTagHelperKind, "value">,
+    args: TSESTree.CallExpressionArgument[],
+  ): string | null {
+    const firstArg = args[0];
+
+    if (kind === "literal") {
+      if (firstArg?.type !== AST_NODE_TYPES.Literal) return null;
+      return typeof firstArg.value === "string"
+        ? `'${firstArg.value.replaceAll("'", "''")}'`
+        : String(firstArg.value);
+    }
+
+    const names = args.map((arg) => getStaticSql(arg));
+    if (names.length === 0 || names.some((name) => name === null)) {
+      return null;
+    }
+    const [first = ""] = names as string[];
+
+    switch (kind) {
+      case "raw":
+        return first;
+      case "reference":
+        return first
+          .split(".")
+          .map((part) => (part === "*" ? part : this.quoteIdentifier(part)))
+          .join(".");
+      case "identifier":
+        return (names as string[]).map((name) => this.quoteIdentifier(name)).join(".");
+    }
+  }
+
+  /**
+   * Quote an identifier for the database engine
+   */
+  private quoteIdentifier(name: string): string {
+    const quote = this.dbEngine === "mysql" || this.dbEngine === "mariadb" ? "`" : '"';
+    return `${quote}${name.replaceAll(quote, quote + quote)}${quote}`;
+  }
+
+  /**
+   * Get the value placeholder for the database engine
+   */
+  private getPlaceholder(index: number): string {
+    return this.dbEngine === "postgresql" ? `$${String(index + 1)}` : "?";
+  }
+}
+
+/**
+ * Check if a node is a `sql`...`` / `sql<T>`...`` tagged template
+ */
+function isSqlTag(node: TSESTree.Node): node is TSESTree.TaggedTemplateExpression {
+  return (
+    node.type === AST_NODE_TYPES.TaggedTemplateExpression &&
+    node.tag.type === AST_NODE_TYPES.Identifier &&
+    node.tag.name === SQL_TAG
+  );
+}
@@ -0,0 +1,149 @@
+import { parse } from "@typescript-eslint/parser";
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { TypeORMAdapter } from "./typeorm";
+
+describe("TypeORM Library Adapter", () => {
+  const adapter = new TypeORMAdapter();
+
+  describe("Method Detection", () => {
+    it("should detect awaited query calls assigned to a variable", () => {
+      expect(adapter.isTargetMethod(parseQuery("const rows = await dataSource.query(sql);"))).toBe(
+        true,
+      );
+      expect(
+        adapter.isTargetMethod(parseQuery("const rows = await this.manager.query(sql);")),
+      ).toBe(true);
+      expect(
+        adapter.isTargetMethod(parseQuery("const [row] = await queryRunner.query(sql);")),
+      ).toBe(true);
+    });
+
+    it("should not detect calls without a result variable", () => {
+      expect(adapter.isTargetMethod(parseQuery("await dataSource.query(sql);"))).toBe(false);
+      expect(adapter.isTargetMethod(parseQuery("const p = dataSource.query(sql);"))).toBe(false);
+    });
+
+    it("should not detect other methods", () => {
+      expect(adapter.isTargetMethod(parseQuery("const rows = await dataSource.find(sql);"))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("SQL Extraction", () => {
+    it("should extract SQL from the first argument", () => {
+      // GIVEN
+      const node = parseQuery(
+        'const rows = await ds.query("SELECT id FROM users WHERE id = ?", [id]);',
+      );
+
+      // WHEN / THEN
+      expect(adapter.extractSql(node)).toBe("SELECT id FROM users WHERE id = ?");
+    });
+  });
+
+  describe("Type Annotation", () => {
+    it("should read the variable annotation", () => {
+      // GIVEN
+      const code =
+        'const rows: { id: number; name: string | null }[] = await ds.query("SELECT id, name FROM users");';
+
+      // WHEN
+      const result = adapter.getExistingTypeAnnotation(parseQuery(code), code);
+
+      // THEN
+      expect(result?.columns).toEqual({
+        id: { type: "number", nullable: false },
+        name: { type: "string", nullable: true },
+      });
+    });
+
+    it("should return null without variable annotation", () => {
+      // GIVEN
+      const code = 'const rows = await ds.query("SELECT id FROM users");';
+
+      // WHEN / THEN
+      expect(adapter.getExistingTypeAnnotation(parseQuery(code), code)).toBeNull();
+    });
+  });
+
+  describe("Fix Generation", () => {
+    it("should annotate the variable instead of the generic slot", () => {
+      // GIVEN
+      const code = 'const rows = await ds.query("SELECT id FROM users");';
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), adapter.formatRowsType("{ id: number }"));
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        'const rows: { id: number }[] = await ds.query("SELECT id FROM users");',
+      );
+    });
+
+    it("should replace an existing variable annotation", () => {
+      // GIVEN
+      const code = 'const rows: { id: string }[] = await ds.query("SELECT id FROM users");';
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), "{ id: number }[]");
+
+      // THEN
+      expect(applyFix(code, fix)).toBe(
+        'const rows: { id: number }[] = await ds.query("SELECT id FROM users");',
+      );
+    });
+
+    it("should not generate a fix for a result that is not assigned", () => {
+      // GIVEN
+      const code = 'await ds.query("SELECT id FROM users");';
+
+      // WHEN
+      const fix = adapter.generateFix(parseQuery(code), "{ id: number }[]");
+
+      // THEN
+      expect(fix).toBeNull();
+    });
+  });
+});
+
+/**
+ * Parse code and return the first `.query(...)` call with parent pointers set
+ */
+function parseQuery(code: string): TSESTree.CallExpression {
+  const program = parse(code, { range: true });
+  let found: TSESTree.CallExpression | null = null;
+
+  const visit = (node: TSESTree.Node, parent: TSESTree.Node | undefined) => {
+    (node as { parent?: TSESTree.Node | undefined }).parent = parent;
+    if (node.type === AST_NODE_TYPES.CallExpression) {
+      found ??= node;
+    }
+    for (const value of Object.values(node)) {
+      const children: unknown[] = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === "object" && "type" in child && child !== parent) {
+          visit(child as TSESTree.Node, node);
+        }
+      }
+    }
+  };
+  visit(program, undefined);
+
+  if (!found) {
+    throw new Error("No call expression found");
+  }
+  return found;
+}
+
+/**
+ * Apply a fix to source code
+ */
+function applyFix(code: string, fix: { range: [number, number]; text: string } | null): string {
+  if (!fix) {
+    throw new Error("No fix generated");
+  }
+  return code.slice(0, fix.range[0]) + fix.text + code.slice(fix.range[1]);
+}
@@ -0,0 +1,146 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import {
+  type AnnotatedPattern,
+  getDeclaredPattern,
+  getMemberPropertyName,
+  getStaticSql,
+  getValuesArray,
+  parseTypeAnnotation,
+} from "./helpers";
+import type {
+  FixInfo,
+  ILibraryAdapter,
+  ParsedTypeAnnotation,
+  QueryExpression,
+  QueryOptions,
+  WriteResultType,
+} from "./lib.i";
+
+/** Target method names for TypeORM (DataSource / EntityManager / QueryRunner) */
+const TARGET_METHODS = new Set(["query"]);
+
+/**
+ * Adapter for TypeORM `query()` calls
+ *
+ * `query()` is not generic, so the result type is annotated on the variable that receives
+ * the awaited value: `const rows: { id: number }[] = await dataSource.query("...")`.
+ */
+export class TypeORMAdapter implements ILibraryAdapter {
+  /**
+   * Check if a node is `<receiver>.query(...)` whose awaited result is assigned to a variable
+   */
+  isTargetMethod(node: QueryExpression): boolean {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return false;
+    }
+
+    const methodName = getMemberPropertyName(node.callee);
+    if (methodName === null || !TARGET_METHODS.has(methodName)) {
+      return false;
+    }
+
+    // Without a variable there is nowhere to put the annotation
+    return this.getResultPattern(node) !== null;
+  }
+
+  /**
+   * Extract SQL from the first argument
+   */
+  extractSql(node: QueryExpression): string | null {
+    if (node.type !== AST_NODE_TYPES.CallExpression) {
+      return null;
+    }
+    return getStaticSql(node.arguments[0]);
+  }
+
+  /**
+   * Get the parameters array passed after the SQL
+   */
+  getParameterValues(node: QueryExpression): TSESTree.Expression[] | null {
+    return getValuesArray(node, null);
+  }
+
+  /**
+   * Get the type annotation of the variable receiving the result
+   */
+  getExistingTypeAnnotation(
+    node: QueryExpression,
+    sourceCode: string,
+  ): ParsedTypeAnnotation | null {
+    const annotation = this.getResultPattern(node)?.typeAnnotation?.typeAnnotation;
+    if (!annotation) {
+      return null;
+    }
+
+    const typeText = sourceCode.slice(annotation.range[0], annotation.range[1]);
+    return parseTypeAnnotation(typeText);
+  }
+
+  /**
+   * Add or replace the type annotation of the variable receiving the result
+   */
+  generateFix(node: QueryExpression, expectedType: string): FixInfo | null {
+    const pattern = this.getResultPattern(node);
+    if (!pattern) {
+      return null;
+    }
+
+    // Replace existing annotation (the range includes the colon)
+    if (pattern.typeAnnotation) {
+      return { range: pattern.typeAnnotation.range, text: `: ${expectedType}` };
+    }
+
+    const insertPosition = pattern.range[1];
+    return {
+      range: [insertPosition, insertPosition],
+      text: `: ${expectedType}`,
+    };
+  }
+
+  /**
+   * TypeORM returns the driver rows as plain objects
+   */
+  formatRowsType(rowType: string): string {
+    return `${rowType}[]`;
+  }
+
+  /**
+   * No overrides: TypeORM returns driver values as-is
+   */
+  getTypeOverrides(): Record<string, string> | null {
+    return null;
+  }
+
+  /**
+   * TypeORM `query()` has no mysql2-style options
+   */
+  getQueryOptions(_node: QueryExpression): QueryOptions {
+    return { nestTables: false, rowsAsArray: false };
+  }
+
+  /**
+   * TypeORM results need no import
+   */
+  getRequiredImport(): string | null {
+    return null;
+  }
+
+  /**
+   * TypeORM returns the raw driver result of writes (not checked)
+   */
+  getWriteResultType(): WriteResultType | null {
+    return null;
+  }
+
+  /**
+   * Find the variable in `const <pattern> = await <call>`
+   */
+  private getResultPattern(node: QueryExpression): AnnotatedPattern | null {
+    const awaitExpr = node.parent;
+    if (awaitExpr?.type !== AST_NODE_TYPES.AwaitExpression) {
+      return null;
+    }
+    return getDeclaredPattern(awaitExpr);
+  }
+}
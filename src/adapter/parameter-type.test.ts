@@ -0,0 +1,153 @@
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import type { ColumnTypeInfo } from "../types/column.i";
+
+import { isAssignableToParameter } from "./parameter-type";
+
+/** Declarations standing in for the default library (the test program has no lib) */
+const GLOBAL_TYPES = `
+declare class Date { getTime(): number; }
+declare class Uint8Array { length: number; }
+declare class Buffer extends Uint8Array { toString(): string; }
+interface Array<T> { [index: number]: T; length: number; }
+`;
+
+describe("Parameter Types", () => {
+  it("should accept values of the column type", () => {
+    // GIVEN
+    const source = `
+      declare const id: number;
+      declare const email: string;
+      declare const createdAt: Date;
+      declare const avatar: Buffer;
+      declare const big: bigint;
+    `;
+
+    // WHEN / THEN
+    expect(checkValue(source, "id", { type: "number", nullable: false })).toBe(true);
+    expect(checkValue(source, "email", { type: "string", nullable: false })).toBe(true);
+    expect(checkValue(source, "createdAt", { type: "Date | string", nullable: false })).toBe(true);
+    expect(checkValue(source, "email", { type: "Date | string", nullable: false })).toBe(true);
+    expect(checkValue(source, "avatar", { type: "Buffer", nullable: false })).toBe(true);
+    expect(checkValue(source, "big", { type: "number | bigint | string", nullable: false })).toBe(
+      true,
+    );
+  });
+
+  it("should reject values of another type", () => {
+    // GIVEN
+    const source = `
+      declare const id: number;
+      declare const email: string;
+      declare const flag: boolean;
+    `;
+
+    // WHEN / THEN
+    expect(checkValue(source, "email", { type: "number", nullable: false })).toBe(false);
+    expect(checkValue(source, "id", { type: "string", nullable: false })).toBe(false);
+    expect(checkValue(source, "flag", { type: "number", nullable: false })).toBe(false);
+    expect(checkValue(source, "flag", { type: "number | boolean", nullable: false })).toBe(true);
+  });
+
+  it("should check every union member against nullability", () => {
+    // GIVEN
+    const source = `
+      declare const maybeEmail: string | null;
+      declare const optionalEmail: string | undefined;
+    `;
+
+    // WHEN / THEN
+    expect(checkValue(source, "maybeEmail", { type: "string", nullable: true })).toBe(true);
+    expect(checkValue(source, "maybeEmail", { type: "string", nullable: false })).toBe(false);
+    expect(checkValue(source, "optionalEmail", { type: "string", nullable: true })).toBe(false);
+  });
+
+  it("should accept matching enum literals only", () => {
+    // GIVEN
+    const source = `
+      declare const active: "active";
+      declare const status: "active" | "inactive";
+      declare const other: "deleted";
+      declare const text: string;
+    `;
+    const parameter: ColumnTypeInfo = {
+      type: "enum",
+      nullable: false,
+      enumValues: ["active", "inactive"],
+    };
+
+    // WHEN / THEN
+    expect(checkValue(source, "active", parameter)).toBe(true);
+    expect(checkValue(source, "status", parameter)).toBe(true);
+    expect(checkValue(source, "other", parameter)).toBe(false);
+    expect(checkValue(source, "text", parameter)).toBe(false);
+  });
+
+  it("should not check untyped values or unknown columns", () => {
+    // GIVEN
+    const source = `
+      declare const untyped: any;
+      declare const id: number;
+      declare const brand: string & { __brand: "Email" };
+    `;
+
+    // WHEN / THEN
+    expect(checkValue(source, "untyped", { type: "number", nullable: false })).toBe(true);
+    expect(checkValue(source, "id", { type: "unknown", nullable: false })).toBe(true);
+    expect(checkValue(source, "brand", { type: "string", nullable: false })).toBe(true);
+  });
+
+  it("should accept arrays of the column type for IN list items", () => {
+    // GIVEN
+    const source = `
+      declare const ids: number[];
+      declare const emails: string[];
+    `;
+    const parameter: ColumnTypeInfo = { type: "number", nullable: false };
+
+    // WHEN / THEN
+    expect(checkValue(source, "ids", parameter, true)).toBe(true);
+    expect(checkValue(source, "emails", parameter, true)).toBe(false);
+    expect(checkValue(source, "ids", parameter)).toBe(false);
+  });
+});
+
+/**
+ * Type-check a source file and test the type of a variable against a parameter type
+ */
+function checkValue(
+  source: string,
+  name: string,
+  parameter: ColumnTypeInfo,
+  list = false,
+): boolean {
+  const fileName = "/project/index.ts";
+  const options: ts.CompilerOptions = { noLib: true, strict: true };
+  const host = ts.createCompilerHost(options);
+  host.getSourceFile = (requested, languageVersion) =>
+    requested === fileName
+      ? ts.createSourceFile(requested, `${GLOBAL_TYPES}\n${source}`, languageVersion)
+      : undefined;
+  host.fileExists = (requested) => requested === fileName;
+
+  const program = ts.createProgram([fileName], options, host);
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) {
+    throw new Error("Source file not found");
+  }
+
+  const symbol = checker
+    .getSymbolsInScope(sourceFile, ts.SymbolFlags.Variable)
+    .find((candidate) => candidate.getName() === name);
+  if (!symbol) {
+    throw new Error(`Variable '${name}' not found`);
+  }
+  return isAssignableToParameter(
+    checker.getTypeOfSymbolAtLocation(symbol, sourceFile),
+    checker,
+    parameter,
+    list,
+  );
+}
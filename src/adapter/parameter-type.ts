@@ -0,0 +1,78 @@
+import type * as ts from "typescript";
+
+import type { ColumnTypeInfo } from "../types/column.i";
+
+/** Source types that carry no information (never reported) */
+const UNCHECKED_TYPES = new Set(["any", "unknown", "never"]);
+
+/**
+ * Check if a value type is assignable to the inferred type of its placeholder
+ *
+ * Every member of a union must be accepted (`number | undefined` is not a number); one member of
+ * an intersection is enough (branded `string & { __brand: "Email" }`). String literals are
+ * accepted by `string` and by the enum values they match. `any` / `unknown` values pass.
+ * Items of an `IN (...)` list also accept an array of the type, which drivers expand.
+ */
+export function isAssignableToParameter(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+  parameter: ColumnTypeInfo,
+  list = false,
+): boolean {
+  const accepted = getAcceptedTypes(parameter);
+  // Unknown columns and arrays are not checked
+  if (accepted.has("unknown") || [...accepted].some((name) => name.endsWith("[]"))) {
+    return true;
+  }
+  if (list && checker.isArrayType(type)) {
+    const [element] = checker.getTypeArguments(type as ts.TypeReference);
+    return !element || isAccepted(element, checker, accepted);
+  }
+  return isAccepted(type, checker, accepted);
+}
+
+/**
+ * Check a value type against the accepted type names
+ */
+function isAccepted(type: ts.Type, checker: ts.TypeChecker, accepted: Set<string>): boolean {
+  if (type.isUnion()) {
+    return type.types.every((member) => isAccepted(member, checker, accepted));
+  }
+  if (type.isIntersection()) {
+    return type.types.some((member) => isAccepted(member, checker, accepted));
+  }
+  if (type.isStringLiteral()) {
+    return accepted.has("string") || accepted.has(JSON.stringify(type.value));
+  }
+  if (type.isNumberLiteral()) {
+    return accepted.has("number");
+  }
+
+  // `true` is a boolean, `1n` a bigint
+  const name = checker.typeToString(checker.getBaseTypeOfLiteralType(type));
+  if (UNCHECKED_TYPES.has(name)) {
+    return true;
+  }
+  // Object types by their declared name (`Date`, `Buffer<ArrayBufferLike>`)
+  const symbolName = type.getSymbol()?.getName();
+  return accepted.has(symbolName ?? name) || accepted.has(name);
+}
+
+/**
+ * Get the type names accepted for a placeholder (`"active"` for enum values)
+ */
+function getAcceptedTypes(parameter: ColumnTypeInfo): Set<string> {
+  const names =
+    parameter.type === "enum" && parameter.enumValues
+      ? parameter.enumValues.map((value) => JSON.stringify(value))
+      : parameter.type.split(" | ");
+
+  const accepted = new Set(names);
+  if (accepted.has("Buffer")) {
+    accepted.add("Uint8Array");
+  }
+  if (parameter.nullable) {
+    accepted.add("null");
+  }
+  return accepted;
+}
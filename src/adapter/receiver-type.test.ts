@@ -0,0 +1,120 @@
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { getReceiverTypes, isReceiverType } from "./receiver-type";
+
+/** Minimal mysql2 declarations */
+const MYSQL2_TYPES = `
+export interface Connection { query(sql: string): Promise<unknown>; }
+export interface Pool extends Connection { getConnection(): Promise<PoolConnection>; }
+export interface PoolConnection extends Connection { release(): void; }
+`;
+
+/** mysql2 connection types plus a project wrapper class */
+const RECEIVER_TYPES = getReceiverTypes("mysql2", ["Database"]);
+
+describe("Receiver Types", () => {
+  it("should accept mysql2 connection types", () => {
+    // GIVEN
+    const source = `
+      import type { Pool, PoolConnection } from "mysql2/promise";
+      declare const pool: Pool;
+      declare const conn: PoolConnection | undefined;
+      declare const either: Pool | PoolConnection;
+    `;
+
+    // WHEN / THEN
+    expect(checkVariable(source, "pool")).toBe(true);
+    expect(checkVariable(source, "conn")).toBe(true);
+    expect(checkVariable(source, "either")).toBe(true);
+  });
+
+  it("should accept configured types and classes extending a connection type", () => {
+    // GIVEN
+    const source = `
+      import type { Pool } from "mysql2/promise";
+      declare class Database { query(sql: string): Promise<unknown>; }
+      interface AppPool extends Pool { name: string; }
+      declare const db: Database;
+      declare const appPool: AppPool;
+    `;
+
+    // WHEN / THEN
+    expect(checkVariable(source, "db")).toBe(true);
+    expect(checkVariable(source, "appPool")).toBe(true);
+  });
+
+  it("should reject unrelated types sharing the method names", () => {
+    // GIVEN
+    const source = `
+      import type { Pool } from "mysql2/promise";
+      declare class GraphQLClient { query(document: string): Promise<unknown>; }
+      interface Pool2 { query(sql: string): Promise<unknown>; }
+      declare const client: GraphQLClient;
+      declare const untyped: any;
+      declare const mixed: Pool | GraphQLClient;
+      declare const local: Pool2;
+    `;
+
+    // WHEN / THEN
+    expect(checkVariable(source, "client")).toBe(false);
+    expect(checkVariable(source, "untyped")).toBe(false);
+    expect(checkVariable(source, "mixed")).toBe(false);
+    expect(checkVariable(source, "local")).toBe(false);
+  });
+
+  it("should require driver types to come from the driver package", () => {
+    // GIVEN
+    const source = `
+      interface Pool { query(sql: string): Promise<unknown>; }
+      declare const pool: Pool;
+    `;
+
+    // WHEN / THEN
+    expect(checkVariable(source, "pool")).toBe(false);
+  });
+});
+
+/**
+ * Type-check a source file against the mysql2 declarations and test the type of a variable
+ */
+function checkVariable(source: string, name: string): boolean {
+  const files = new Map([
+    ["/project/index.ts", source],
+    ["/project/node_modules/mysql2/promise.d.ts", MYSQL2_TYPES],
+  ]);
+  const options: ts.CompilerOptions = {
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    noLib: true,
+    strict: true,
+  };
+  const host = ts.createCompilerHost(options);
+  host.getSourceFile = (fileName, languageVersion) => {
+    const text = files.get(fileName);
+    return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion);
+  };
+  host.fileExists = (fileName) => files.has(fileName);
+  host.readFile = (fileName) => files.get(fileName);
+  host.directoryExists = (path) => [...files.keys()].some((file) => file.startsWith(`${path}/`));
+  host.getCurrentDirectory = () => "/project";
+
+  const program = ts.createProgram(["/project/index.ts"], options, host);
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile("/project/index.ts");
+  if (!sourceFile) {
+    throw new Error("Source file not found");
+  }
+
+  const symbol = checker
+    .getSymbolsInScope(sourceFile, ts.SymbolFlags.Variable)
+    .find((candidate) => candidate.getName() === name);
+  if (!symbol) {
+    throw new Error(`Variable '${name}' not found`);
+  }
+  return isReceiverType(
+    checker.getTypeOfSymbolAtLocation(symbol, sourceFile),
+    checker,
+    RECEIVER_TYPES,
+  );
+}
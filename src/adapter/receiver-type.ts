@@ -0,0 +1,84 @@
+import type * as ts from "typescript";
+
+import type { LibraryType } from "./db/config.i";
+
+/**
+ * Type that a query receiver (`pool` in `pool.query(...)`) must have
+ */
+export interface ReceiverType {
+  /** Type name (`Pool`) */
+  name: string;
+  /** Package declaring the type (any declaration when omitted) */
+  packageName?: string;
+}
+
+/**
+ * Connection / pool types of the driver libraries
+ */
+const LIBRARY_RECEIVER_TYPES: Partial<Record<LibraryType, ReceiverType[]>> = {
+  mysql2: driverTypes("mysql2"),
+  mariadb: driverTypes("mariadb"),
+  mysql: driverTypes("@types/mysql"),
+};
+
+/**
+ * Get the receiver types of a library plus the configured type names
+ */
+export function getReceiverTypes(
+  library: LibraryType,
+  typeNames: readonly string[] = [],
+): ReceiverType[] {
+  return [...(LIBRARY_RECEIVER_TYPES[library] ?? []), ...typeNames.map((name) => ({ name }))];
+}
+
+/**
+ * Check if a type is (or extends) one of the receiver types
+ *
+ * Every member of a union must match (`Pool | PoolConnection`); `null` / `undefined` are ignored.
+ * `any` and unresolved types never match.
+ */
+export function isReceiverType(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+  receiverTypes: readonly ReceiverType[],
+): boolean {
+  const nonNullable = checker.getNonNullableType(type);
+  if (nonNullable.isUnion()) {
+    return nonNullable.types.every((member) => isReceiverType(member, checker, receiverTypes));
+  }
+  if (nonNullable.isIntersection()) {
+    return nonNullable.types.some((member) => isReceiverType(member, checker, receiverTypes));
+  }
+
+  const symbols = [nonNullable.aliasSymbol, nonNullable.getSymbol()];
+  if (symbols.some((symbol) => symbol && matchesSymbol(symbol, receiverTypes))) {
+    return true;
+  }
+
+  // Wrappers extending a driver class (`class Db extends Pool`)
+  return (
+    nonNullable.isClassOrInterface() &&
+    checker.getBaseTypes(nonNullable).some((base) => isReceiverType(base, checker, receiverTypes))
+  );
+}
+
+/**
+ * Check if a type symbol is one of the receiver types
+ */
+function matchesSymbol(symbol: ts.Symbol, receiverTypes: readonly ReceiverType[]): boolean {
+  return receiverTypes.some(
+    ({ name, packageName }) =>
+      symbol.getName() === name &&
+      (packageName === undefined ||
+        (symbol.getDeclarations() ?? []).some((declaration) =>
+          declaration.getSourceFile().fileName.includes(`/node_modules/${packageName}/`),
+        )),
+  );
+}
+
+/**
+ * `Connection`, `Pool` and `PoolConnection` declared by a driver package
+ */
+function driverTypes(packageName: string): ReceiverType[] {
+  return ["Connection", "Pool", "PoolConnection"].map((name) => ({ name, packageName }));
+}
@@ -1,10 +1,24 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
 import { describe, expect, it } from "vitest";
 
+import { DrizzleAdapter } from "./lib/drizzle";
+import { KnexAdapter } from "./lib/knex";
+import { KyselyAdapter } from "./lib/kysely";
+import { MariaDBConnectorAdapter } from "./lib/mariadb";
+import { MySQLPackageAdapter } from "./lib/mysql";
+import { SequelizeAdapter } from "./lib/sequelize";
+import { TypeORMAdapter } from "./lib/typeorm";
 import {
   getDatabaseAdapter,
   getLibraryAdapter,
+  getSchemaSourceAdapter,
+  getSchemaSourceStamp,
   getSupportedDatabaseEngines,
   getSupportedLibraryTypes,
+  isSchemaSourceConfig,
   isSupportedDatabaseEngine,
   isSupportedLibraryType,
 } from "./registry";
@@ -30,7 +44,7 @@ describe("Adapter Registry", () => {
       expect(typeof adapter.getQueryMetadata).toBe("function");
     });
 
-    it("should return MySQL adapter for mariadb engine (compatible)", () => {
+    it("should return MariaDB adapter for mariadb engine", () => {
       // GIVEN
       const config = {
         host: "localhost",
@@ -46,7 +60,33 @@ describe("Adapter Registry", () => {
       expect(adapter).toBeDefined();
     });
 
-    it("should throw error for unsupported postgresql engine", () => {
+    it("should return PostgreSQL adapter for postgresql engine", () => {
+      // GIVEN
+      const config = {
+        host: "localhost",
+        user: "test",
+        password: "test",
+        database: "test",
+      };
+
+      // WHEN
+      const adapter = getDatabaseAdapter("postgresql", config);
+
+      // THEN
+      expect(adapter).toBeDefined();
+      expect(typeof adapter.getQueryMetadata).toBe("function");
+    });
+
+    it("should return SQLite adapter for sqlite engine", () => {
+      // WHEN
+      const adapter = getDatabaseAdapter("sqlite", { filename: "/tmp/test.db" });
+
+      // THEN
+      expect(adapter).toBeDefined();
+      expect(typeof adapter.getQueryMetadata).toBe("function");
+    });
+
+    it("should throw error when sqlite engine gets server config", () => {
       // GIVEN
       const config = {
         host: "localhost",
@@ -56,12 +96,86 @@ describe("Adapter Registry", () => {
       };
 
       // WHEN / THEN
-      expect(() => getDatabaseAdapter("postgresql", config)).toThrow(
-        "PostgreSQL adapter is not yet implemented",
+      expect(() => getDatabaseAdapter("sqlite", config)).toThrow(
+        "Database engine 'sqlite' requires a database filename",
+      );
+    });
+
+    it("should throw error when server engine gets sqlite config", () => {
+      expect(() => getDatabaseAdapter("mysql", { filename: "/tmp/test.db" })).toThrow(
+        "Database engine 'mysql' requires host, user, password and database",
       );
     });
   });
 
+  describe("Schema Source Adapter", () => {
+    it("should return offline adapter for snapshot source", () => {
+      // WHEN
+      const adapter = getSchemaSourceAdapter({
+        source: "snapshot",
+        path: "/tmp/.sql-typing-schema.json",
+      });
+
+      // THEN
+      expect(adapter).toBeDefined();
+      expect(typeof adapter.getQueryMetadata).toBe("function");
+    });
+
+    it("should return offline adapter for DDL schema file source", () => {
+      // WHEN
+      const adapter = getSchemaSourceAdapter({ source: "ddl", path: "/tmp/schema.sql" });
+
+      // THEN
+      expect(adapter).toBeDefined();
+      expect(typeof adapter.connect).toBe("function");
+    });
+
+    it("should return offline adapter for migrations directory source", () => {
+      // WHEN
+      const adapter = getSchemaSourceAdapter({ source: "migrations", path: "/tmp/migrations" });
+
+      // THEN
+      expect(adapter).toBeDefined();
+    });
+
+    it("should return offline adapter for Prisma schema source", () => {
+      // WHEN
+      const adapter = getSchemaSourceAdapter({ source: "prisma", path: "/tmp/schema.prisma" });
+
+      // THEN
+      expect(adapter).toBeDefined();
+    });
+
+    it("should change the source stamp when schema files change", () => {
+      // GIVEN
+      const dir = mkdtempSync(join(tmpdir(), "sql-typing-stamp-"));
+      const schemaFile = join(dir, "schema.sql");
+      writeFileSync(schemaFile, "CREATE TABLE users (id INT);");
+      writeFileSync(join(dir, "001_users.sql"), "CREATE TABLE users (id INT);");
+      const fileStamp = getSchemaSourceStamp({ source: "ddl", path: schemaFile });
+      const dirStamp = getSchemaSourceStamp({ source: "migrations", path: dir });
+
+      try {
+        // WHEN
+        writeFileSync(schemaFile, "CREATE TABLE users (id INT, email TEXT);");
+        writeFileSync(join(dir, "002_posts.sql"), "CREATE TABLE posts (id INT);");
+
+        // THEN
+        expect(getSchemaSourceStamp({ source: "ddl", path: schemaFile })).not.toBe(fileStamp);
+        expect(getSchemaSourceStamp({ source: "migrations", path: dir })).not.toBe(dirStamp);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should distinguish schema source config from database config", () => {
+      expect(isSchemaSourceConfig({ source: "snapshot", path: "schema.json" })).toBe(true);
+      expect(
+        isSchemaSourceConfig({ host: "localhost", user: "u", password: "p", database: "d" }),
+      ).toBe(false);
+    });
+  });
+
   describe("Library Adapter", () => {
     it("should return MySQL2 adapter for mysql2 library", () => {
       // WHEN
@@ -74,21 +188,53 @@ describe("Adapter Registry", () => {
       expect(typeof adapter.getExistingTypeAnnotation).toBe("function");
     });
 
-    it("should throw error for unsupported prisma library", () => {
-      // WHEN / THEN
-      expect(() => getLibraryAdapter("prisma")).toThrow("Prisma adapter is not yet implemented");
+    it("should return Prisma adapter for prisma library", () => {
+      // WHEN
+      const adapter = getLibraryAdapter("prisma", "postgresql");
+
+      // THEN
+      expect(adapter).toBeDefined();
+      expect(adapter.getRequiredImport()).toBeNull();
     });
 
-    it("should throw error for unsupported typeorm library", () => {
-      // WHEN / THEN
-      expect(() => getLibraryAdapter("typeorm")).toThrow("TypeORM adapter is not yet implemented");
+    it("should return TypeORM adapter for typeorm library", () => {
+      // WHEN
+      const adapter = getLibraryAdapter("typeorm");
+
+      // THEN
+      expect(adapter).toBeDefined();
+      expect(adapter).toBeInstanceOf(TypeORMAdapter);
     });
 
-    it("should throw error for unsupported data-api library", () => {
-      // WHEN / THEN
-      expect(() => getLibraryAdapter("data-api")).toThrow(
-        "AWS Data API adapter is not yet implemented",
-      );
+    it("should return Data API adapter for data-api library", () => {
+      // WHEN
+      const adapter = getLibraryAdapter("data-api");
+
+      // THEN
+      expect(adapter).toBeDefined();
+      expect(adapter.getRequiredImport()).toBeNull();
+    });
+
+    it("should return Knex adapter for knex library", () => {
+      // WHEN
+      const adapter = getLibraryAdapter("knex", "postgresql");
+
+      // THEN
+      expect(adapter).toBeInstanceOf(KnexAdapter);
+    });
+
+    it("should return tagged template adapters for kysely and drizzle libraries", () => {
+      expect(getLibraryAdapter("kysely")).toBeInstanceOf(KyselyAdapter);
+      expect(getLibraryAdapter("drizzle", "postgresql")).toBeInstanceOf(DrizzleAdapter);
+    });
+
+    it("should return Sequelize adapter for sequelize library", () => {
+      expect(getLibraryAdapter("sequelize")).toBeInstanceOf(SequelizeAdapter);
+    });
+
+    it("should return connector adapters for mariadb and mysql libraries", () => {
+      expect(getLibraryAdapter("mariadb")).toBeInstanceOf(MariaDBConnectorAdapter);
+      expect(getLibraryAdapter("mysql")).toBeInstanceOf(MySQLPackageAdapter);
     });
   });
 
@@ -97,7 +243,7 @@ describe("Adapter Registry", () => {
       expect(isSupportedDatabaseEngine("mysql")).toBe(true);
       expect(isSupportedDatabaseEngine("mariadb")).toBe(true);
       expect(isSupportedDatabaseEngine("postgresql")).toBe(true);
-      expect(isSupportedDatabaseEngine("sqlite")).toBe(false);
+      expect(isSupportedDatabaseEngine("sqlite")).toBe(true);
       expect(isSupportedDatabaseEngine("oracle")).toBe(false);
     });
 
@@ -106,8 +252,13 @@ describe("Adapter Registry", () => {
       expect(isSupportedLibraryType("prisma")).toBe(true);
       expect(isSupportedLibraryType("typeorm")).toBe(true);
       expect(isSupportedLibraryType("data-api")).toBe(true);
-      expect(isSupportedLibraryType("knex")).toBe(false);
-      expect(isSupportedLibraryType("sequelize")).toBe(false);
+      expect(isSupportedLibraryType("knex")).toBe(true);
+      expect(isSupportedLibraryType("kysely")).toBe(true);
+      expect(isSupportedLibraryType("drizzle")).toBe(true);
+      expect(isSupportedLibraryType("sequelize")).toBe(true);
+      expect(isSupportedLibraryType("mariadb")).toBe(true);
+      expect(isSupportedLibraryType("mysql")).toBe(true);
+      expect(isSupportedLibraryType("pg-promise")).toBe(false);
     });
   });
 
@@ -120,6 +271,7 @@ describe("Adapter Registry", () => {
       expect(engines).toContain("mysql");
       expect(engines).toContain("mariadb");
       expect(engines).toContain("postgresql");
+      expect(engines).toContain("sqlite");
     });
 
     it("should return list of supported library types", () => {
@@ -131,6 +283,12 @@ describe("Adapter Registry", () => {
       expect(libraries).toContain("prisma");
       expect(libraries).toContain("typeorm");
       expect(libraries).toContain("data-api");
+      expect(libraries).toContain("knex");
+      expect(libraries).toContain("kysely");
+      expect(libraries).toContain("drizzle");
+      expect(libraries).toContain("sequelize");
+      expect(libraries).toContain("mariadb");
+      expect(libraries).toContain("mysql");
     });
   });
 });
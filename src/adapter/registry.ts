@@ -1,37 +1,78 @@
-import type { DatabaseConfig, DatabaseEngine, LibraryType } from "./db/config.i";
+import { statSync } from "fs";
+import { join } from "path";
+
+import { loadSchemaFile } from "../schema/ddl";
+import { listMigrationFiles, loadMigrationsDir } from "../schema/migrations";
+import { loadPrismaSchema } from "../schema/prisma";
+import { loadSchemaSnapshot } from "../schema/snapshot";
+
+import type {
+  ConnectionConfig,
+  DatabaseConfig,
+  DatabaseEngine,
+  LibraryType,
+  SchemaSourceConfig,
+  SchemaSourceType,
+  SqliteConfig,
+} from "./db/config.i";
 import type { IDatabaseAdapter } from "./db/db.i";
+import { MariaDBAdapter } from "./db/mariadb";
 import { MySQLAdapter } from "./db/mysql";
-import type { ILibraryAdapter } from "./lib/lib.i";
+import { OfflineAdapter } from "./db/offline";
+import { PostgreSQLAdapter } from "./db/postgresql";
+import { SQLiteAdapter } from "./db/sqlite";
+import { DataApiAdapter } from "./lib/data-api";
+import { DrizzleAdapter } from "./lib/drizzle";
+import { KnexAdapter } from "./lib/knex";
+import { KyselyAdapter } from "./lib/kysely";
+import type { ILibraryAdapter, LibraryAdapterOptions } from "./lib/lib.i";
+import { MariaDBConnectorAdapter } from "./lib/mariadb";
+import { MySQLPackageAdapter } from "./lib/mysql";
 import { MySQL2Adapter } from "./lib/mysql2";
+import { PrismaAdapter } from "./lib/prisma";
+import { SequelizeAdapter } from "./lib/sequelize";
+import { TypeORMAdapter } from "./lib/typeorm";
 
 /**
  * Registry for database adapters
  */
 const databaseAdapterRegistry: Record<
   DatabaseEngine,
-  (config: DatabaseConfig) => IDatabaseAdapter
+  (config: DatabaseConfig | SqliteConfig) => IDatabaseAdapter
 > = {
-  mysql: (config) => new MySQLAdapter(config),
-  mariadb: (config) => new MySQLAdapter(config), // MariaDB uses MySQL adapter
-  postgresql: () => {
-    throw new Error("PostgreSQL adapter is not yet implemented");
-  },
+  mysql: (config) => new MySQLAdapter(requireServerConfig("mysql", config)),
+  mariadb: (config) => new MariaDBAdapter(requireServerConfig("mariadb", config)),
+  postgresql: (config) => new PostgreSQLAdapter(requireServerConfig("postgresql", config)),
+  sqlite: (config) => new SQLiteAdapter(requireSqliteConfig(config)),
+};
+
+/**
+ * Registry for offline schema source adapters
+ */
+const schemaSourceAdapterRegistry: Record<SchemaSourceType, (path: string) => IDatabaseAdapter> = {
+  snapshot: (path) => new OfflineAdapter(() => loadSchemaSnapshot(path)),
+  ddl: (path) => new OfflineAdapter(() => loadSchemaFile(path)),
+  migrations: (path) => new OfflineAdapter(() => loadMigrationsDir(path)),
+  prisma: (path) => new OfflineAdapter(() => loadPrismaSchema(path)),
 };
 
 /**
  * Registry for library adapters
  */
-const libraryAdapterRegistry: Record<LibraryType, () => ILibraryAdapter> = {
-  mysql2: () => new MySQL2Adapter(),
-  prisma: () => {
-    throw new Error("Prisma adapter is not yet implemented");
-  },
-  typeorm: () => {
-    throw new Error("TypeORM adapter is not yet implemented");
-  },
-  "data-api": () => {
-    throw new Error("AWS Data API adapter is not yet implemented");
-  },
+const libraryAdapterRegistry: Record<
+  LibraryType,
+  (dbEngine: DatabaseEngine, options: LibraryAdapterOptions) => ILibraryAdapter
+> = {
+  mysql2: (_dbEngine, options) => new MySQL2Adapter(options),
+  prisma: (dbEngine) => new PrismaAdapter(dbEngine),
+  typeorm: () => new TypeORMAdapter(),
+  "data-api": (dbEngine) => new DataApiAdapter(dbEngine),
+  knex: (dbEngine) => new KnexAdapter(dbEngine),
+  kysely: (dbEngine) => new KyselyAdapter(dbEngine),
+  drizzle: (dbEngine) => new DrizzleAdapter(dbEngine),
+  sequelize: (dbEngine) => new SequelizeAdapter(dbEngine),
+  mariadb: () => new MariaDBConnectorAdapter(),
+  mysql: () => new MySQLPackageAdapter(),
 };
 
 /**
@@ -39,7 +80,7 @@ const libraryAdapterRegistry: Record<LibraryType, () => ILibraryAdapter> = {
  */
 export function getDatabaseAdapter(
   engine: DatabaseEngine,
-  config: DatabaseConfig,
+  config: DatabaseConfig | SqliteConfig,
 ): IDatabaseAdapter {
   const factory = databaseAdapterRegistry[engine];
   if (!factory) {
@@ -49,14 +90,94 @@ export function getDatabaseAdapter(
 }
 
 /**
- * Get library adapter by library type
+ * Get offline database adapter for a schema source
+ */
+export function getSchemaSourceAdapter(config: SchemaSourceConfig): IDatabaseAdapter {
+  const factory = schemaSourceAdapterRegistry[config.source];
+  if (!factory) {
+    throw new Error(`Unsupported schema source: ${config.source}`);
+  }
+  return factory(config.path);
+}
+
+/**
+ * Get a stamp of the files a schema source is read from (name, mtime and size of each)
+ *
+ * Catalogs and query types cached for a schema source are reused only while the stamp is
+ * unchanged, so edits to the schema file, migrations or Prisma schema are picked up.
+ */
+export function getSchemaSourceStamp(config: SchemaSourceConfig): string {
+  let files = [config.path];
+  if (config.source === "migrations") {
+    try {
+      files = listMigrationFiles(config.path).map((file) => join(config.path, file));
+    } catch {
+      return "";
+    }
+  }
+
+  return files
+    .map((file) => {
+      try {
+        const stats = statSync(file);
+        return `${file}@${String(stats.mtimeMs)}:${String(stats.size)}`;
+      } catch {
+        return `${file}@missing`;
+      }
+    })
+    .join(",");
+}
+
+/**
+ * Check if connection config points at a SQLite database file
+ */
+export function isSqliteConfig(config: ConnectionConfig): config is SqliteConfig {
+  return "filename" in config;
+}
+
+/**
+ * Ensure a server engine received host / user / password / database
+ */
+function requireServerConfig(
+  engine: DatabaseEngine,
+  config: DatabaseConfig | SqliteConfig,
+): DatabaseConfig {
+  if (isSqliteConfig(config)) {
+    throw new Error(`Database engine '${engine}' requires host, user, password and database`);
+  }
+  return config;
+}
+
+/**
+ * Ensure the sqlite engine received a database filename
+ */
+function requireSqliteConfig(config: DatabaseConfig | SqliteConfig): SqliteConfig {
+  if (!isSqliteConfig(config)) {
+    throw new Error("Database engine 'sqlite' requires a database filename");
+  }
+  return config;
+}
+
+/**
+ * Check if connection config points at an offline schema source
+ */
+export function isSchemaSourceConfig(config: ConnectionConfig): config is SchemaSourceConfig {
+  return "source" in config;
+}
+
+/**
+ * Get library adapter by library type (placeholders may depend on the database engine)
  */
-export function getLibraryAdapter(library: LibraryType): ILibraryAdapter {
+export function getLibraryAdapter(
+  library: LibraryType,
+  dbEngine: DatabaseEngine = "mysql",
+  options: LibraryAdapterOptions = {},
+): ILibraryAdapter {
   const factory = libraryAdapterRegistry[library];
   if (!factory) {
     throw new Error(`Unsupported library type: ${library}`);
   }
-  return factory();
+  return factory(dbEngine, options);
 }
 
 /**
@@ -0,0 +1,55 @@
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createSqlFileReader } from "./sql-file";
+
+describe("SQL File Reader", () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), "sql-typing-sql-file-"));
+    mkdirSync(join(projectDir, "queries"));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("should read .sql files relative to the linted file", () => {
+    // GIVEN
+    writeFileSync(join(projectDir, "queries", "get-user.sql"), "SELECT id FROM users");
+    const readSqlFile = createSqlFileReader(join(projectDir, "src", "users.ts"));
+
+    // WHEN / THEN
+    expect(readSqlFile("../queries/get-user.sql")).toBe("SELECT id FROM users");
+    expect(readSqlFile("../queries/missing.sql")).toBeNull();
+  });
+
+  it("should not read other files", () => {
+    // GIVEN
+    writeFileSync(join(projectDir, "queries", "notes.txt"), "SELECT id FROM users");
+    const readSqlFile = createSqlFileReader(join(projectDir, "index.ts"));
+
+    // WHEN / THEN
+    expect(readSqlFile("./queries/notes.txt")).toBeNull();
+    expect(readSqlFile("https://example.com/query.sql")).toBeNull();
+  });
+
+  it("should read the file again when it changes", () => {
+    // GIVEN
+    const path = join(projectDir, "queries", "get-user.sql");
+    writeFileSync(path, "SELECT id FROM users");
+    const readSqlFile = createSqlFileReader(join(projectDir, "index.ts"));
+    expect(readSqlFile("./queries/get-user.sql")).toBe("SELECT id FROM users");
+
+    // WHEN
+    writeFileSync(path, "SELECT id, email FROM users");
+    utimesSync(path, new Date(), new Date(Date.now() + 1000));
+
+    // THEN
+    expect(readSqlFile("./queries/get-user.sql")).toBe("SELECT id, email FROM users");
+  });
+});
@@ -0,0 +1,54 @@
+import { readFileSync, statSync } from "node:fs";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+/** Content of a `.sql` file with the stats it was read at */
+interface SqlFileEntry {
+  mtimeMs: number;
+  size: number;
+  sql: string;
+}
+
+/**
+ * Cache of `.sql` file contents by absolute path
+ *
+ * An entry is replaced when the file's mtime or size changes. Query types are cached by SQL
+ * text, so an edited file is prepared again instead of reusing the types of the old content.
+ */
+const sqlFileCache = new Map<string, SqlFileEntry>();
+
+/**
+ * Create a reader for `.sql` files referenced relative to a linted file
+ * (`new URL("./get-user.sql", import.meta.url)`, `import q from "./get-user.sql?raw"`)
+ */
+export function createSqlFileReader(filename: string): (specifier: string) => string | null {
+  const baseUrl = pathToFileURL(filename);
+
+  return (specifier) => {
+    const url = new URL(specifier, baseUrl);
+    if (url.protocol !== "file:" || !url.pathname.toLowerCase().endsWith(".sql")) {
+      return null;
+    }
+    return readSqlFile(fileURLToPath(url));
+  };
+}
+
+/**
+ * Read a `.sql` file (null when it does not exist)
+ */
+export function readSqlFile(path: string): string | null {
+  let stats;
+  try {
+    stats = statSync(path);
+  } catch {
+    return null;
+  }
+
+  const cached = sqlFileCache.get(path);
+  if (cached?.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.sql;
+  }
+
+  const sql = readFileSync(path, "utf8");
+  sqlFileCache.set(path, { mtimeMs: stats.mtimeMs, size: stats.size, sql });
+  return sql;
+}
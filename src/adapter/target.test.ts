@@ -0,0 +1,104 @@
+import { parse } from "@typescript-eslint/parser";
+import type { TSESTree } from "@typescript-eslint/utils";
+import { describe, expect, it } from "vitest";
+
+import { KyselyAdapter } from "./lib/kysely";
+import { MySQL2Adapter } from "./lib/mysql2";
+import { getReceiverName, matchesTarget, resolveTarget } from "./target";
+
+describe("Query Targets", () => {
+  describe("Target Matching", () => {
+    it("should match calls by method name", () => {
+      expect(matchesTarget(parseQuery("db.selectMany(sql)"), { method: "selectMany" })).toBe(true);
+      expect(matchesTarget(parseQuery("selectMany(sql)"), { method: "selectMany" })).toBe(true);
+      expect(matchesTarget(parseQuery("db.query(sql)"), { method: "selectMany" })).toBe(false);
+    });
+
+    it("should match tagged templates by tag name", () => {
+      expect(matchesTarget(parseQuery("sql`SELECT 1`"), { tag: "sql" })).toBe(true);
+      expect(matchesTarget(parseQuery("prisma.$queryRaw`SELECT 1`"), { tag: "$queryRaw" })).toBe(
+        true,
+      );
+      expect(matchesTarget(parseQuery("sql`SELECT 1`"), { method: "sql" })).toBe(false);
+      expect(matchesTarget(parseQuery("sql(query)"), { tag: "sql" })).toBe(false);
+    });
+
+    it("should filter by receiver pattern", () => {
+      // GIVEN
+      const target = { method: "query", receiver: "^(pool|conn|this\\.db)$" };
+
+      // WHEN / THEN
+      expect(matchesTarget(parseQuery("pool.query(sql)"), target)).toBe(true);
+      expect(matchesTarget(parseQuery("this.db.query(sql)"), target)).toBe(true);
+      expect(matchesTarget(parseQuery("graphqlClient.query(sql)"), target)).toBe(false);
+      expect(matchesTarget(parseQuery("getPool().query(sql)"), target)).toBe(false);
+      expect(matchesTarget(parseQuery("query(sql)"), target)).toBe(false);
+    });
+
+    it("should get dotted receiver names", () => {
+      expect(getReceiverName(parseExpression("ctx.db.pool"))).toBe("ctx.db.pool");
+      expect(getReceiverName(parseExpression("this.db"))).toBe("this.db");
+      expect(getReceiverName(parseExpression("getPool()"))).toBeNull();
+    });
+  });
+
+  describe("Target Resolution", () => {
+    const mysql2 = new MySQL2Adapter();
+    const kysely = new KyselyAdapter();
+    const getAdapter = (library: string | undefined) => (library === "kysely" ? kysely : mysql2);
+
+    it("should route each target to its library adapter", () => {
+      // GIVEN
+      const targets = [{ method: "selectMany" }, { tag: "sql", library: "kysely" as const }];
+
+      // WHEN
+      const call = resolveTarget(
+        parseQuery('db.selectMany("SELECT id FROM users")'),
+        targets,
+        getAdapter,
+      );
+      const tagged = resolveTarget(parseQuery("sql`SELECT id FROM users`"), targets, getAdapter);
+
+      // THEN
+      expect(call).toEqual({ adapter: mysql2, sql: "SELECT id FROM users" });
+      expect(tagged).toEqual({ adapter: kysely, sql: "SELECT id FROM users" });
+    });
+
+    it("should read the SQL from the configured argument", () => {
+      // GIVEN
+      const node = parseQuery(
+        'db.selectMany(usersTable, "SELECT id FROM users WHERE id = ?", [id])',
+      );
+
+      // WHEN
+      const result = resolveTarget(node, [{ method: "selectMany", sqlArgument: 1 }], getAdapter);
+
+      // THEN
+      expect(result?.sql).toBe("SELECT id FROM users WHERE id = ?");
+    });
+
+    it("should not match queries outside the targets", () => {
+      // GIVEN
+      const node = parseQuery('client.query("SELECT id FROM users")');
+
+      // WHEN / THEN
+      expect(resolveTarget(node, [{ method: "execute" }], getAdapter)).toBeNull();
+    });
+  });
+});
+
+/**
+ * Parse a single expression statement
+ */
+function parseExpression(code: string): TSESTree.Expression {
+  const program = parse(code, { range: true });
+  const statement = program.body[0] as TSESTree.ExpressionStatement;
+  return statement.expression;
+}
+
+/**
+ * Parse a single call expression / tagged template statement
+ */
+function parseQuery(code: string): TSESTree.CallExpression | TSESTree.TaggedTemplateExpression {
+  return parseExpression(code) as TSESTree.CallExpression | TSESTree.TaggedTemplateExpression;
+}
@@ -0,0 +1,103 @@
+import { AST_NODE_TYPES, type TSESTree } from "@typescript-eslint/utils";
+
+import type { LibraryType, TargetConfig } from "./db/config.i";
+import { getMemberPropertyName, getStaticSql } from "./lib/helpers";
+import type { ILibraryAdapter, QueryExpression } from "./lib/lib.i";
+
+/**
+ * Query matched by a configured target
+ */
+export interface ResolvedTarget {
+  /** Library adapter that reads and writes the type annotation */
+  adapter: ILibraryAdapter;
+  /** SQL of the query (`null` when it is not static) */
+  sql: string | null;
+}
+
+/** Compiled `receiver` patterns */
+const receiverPatternCache = new Map<string, RegExp>();
+
+/**
+ * Find the first target matching a call / tagged template and extract its SQL
+ *
+ * `getAdapter` receives the `library` of the target (`undefined` for the default library).
+ */
+export function resolveTarget(
+  node: QueryExpression,
+  targets: readonly TargetConfig[],
+  getAdapter: (library: LibraryType | undefined) => ILibraryAdapter,
+): ResolvedTarget | null {
+  const target = targets.find((candidate) => matchesTarget(node, candidate));
+  if (!target) {
+    return null;
+  }
+
+  const adapter = getAdapter(target.library);
+  // Skip queries whose result has no place for the type annotation of the library
+  if (!adapter.generateFix(node, "")) {
+    return null;
+  }
+
+  const sql =
+    target.sqlArgument !== undefined && node.type === AST_NODE_TYPES.CallExpression
+      ? getStaticSql(node.arguments[target.sqlArgument])
+      : adapter.extractSql(node);
+  return { adapter, sql };
+}
+
+/**
+ * Check if a call matches `method` or a tagged template matches `tag`, and its receiver matches `receiver`
+ */
+export function matchesTarget(node: QueryExpression, target: TargetConfig): boolean {
+  const [callee, name] =
+    node.type === AST_NODE_TYPES.CallExpression
+      ? [node.callee, target.method]
+      : [node.tag, target.tag];
+  if (name === undefined || getCalleeName(callee) !== name) {
+    return false;
+  }
+
+  if (target.receiver === undefined) {
+    return true;
+  }
+  const receiver = callee.type === AST_NODE_TYPES.MemberExpression ? callee.object : null;
+  const receiverName = receiver ? getReceiverName(receiver) : null;
+  return receiverName !== null && getReceiverPattern(target.receiver).test(receiverName);
+}
+
+/**
+ * Get the name of a callee / tag (`selectMany`, `db.selectMany` -> "selectMany")
+ */
+function getCalleeName(callee: TSESTree.Node): string | null {
+  return callee.type === AST_NODE_TYPES.Identifier ? callee.name : getMemberPropertyName(callee);
+}
+
+/**
+ * Get the dotted name of a receiver (`db`, `this.db`, `ctx.db.pool`), or null for other expressions
+ */
+export function getReceiverName(node: TSESTree.Node): string | null {
+  if (node.type === AST_NODE_TYPES.Identifier) {
+    return node.name;
+  }
+  if (node.type === AST_NODE_TYPES.ThisExpression) {
+    return "this";
+  }
+  if (node.type === AST_NODE_TYPES.MemberExpression) {
+    const object = getReceiverName(node.object);
+    const property = getMemberPropertyName(node);
+    return object !== null && property !== null ? `${object}.${property}` : null;
+  }
+  return null;
+}
+
+/**
+ * Compile a `receiver` pattern once
+ */
+function getReceiverPattern(source: string): RegExp {
+  let pattern = receiverPatternCache.get(source);
+  if (!pattern) {
+    pattern = new RegExp(source);
+    receiverPatternCache.set(source, pattern);
+  }
+  return pattern;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import { countPlaceholders, parseParameters } from "./parameters";
+
+describe("Parameter Parser", () => {
+  describe("countPlaceholders", () => {
+    it("should ignore markers in string literals and comments", () => {
+      // GIVEN
+      const sql = "SELECT '?' AS q, `a?` FROM users -- ?\nWHERE id = ? /* ? */ AND email = ?";
+
+      // WHEN / THEN
+      expect(countPlaceholders(sql, "mysql")).toBe(2);
+    });
+
+    it("should count PostgreSQL placeholders up to the highest index", () => {
+      expect(countPlaceholders("SELECT id FROM users WHERE id = $2 OR id = $1", "postgresql")).toBe(
+        2,
+      );
+      expect(countPlaceholders("SELECT id FROM users", "postgresql")).toBe(0);
+    });
+  });
+
+  describe("parseParameters", () => {
+    it("should bind comparison, IN and BETWEEN placeholders to their columns", () => {
+      // GIVEN
+      const sql =
+        "SELECT u.id FROM users u JOIN posts p ON p.user_id = u.id WHERE u.id = ? AND p.title IN (?, ?) AND ? <= p.created_at LIMIT ?";
+
+      // WHEN
+      const result = parseParameters(sql, "mysql");
+
+      // THEN
+      expect(result).toEqual({
+        count: 5,
+        sql: "SELECT `u`.`id`, `p`.`title`, `p`.`created_at` FROM `users` AS `u` INNER JOIN `posts` AS `p` ON `p`.`user_id` = `u`.`id`",
+        columns: [0, 1, 1, 2, null],
+        lists: [false, true, true, false, false],
+      });
+    });
+
+    it("should bind INSERT values and UPDATE assignments to their columns", () => {
+      expect(
+        parseParameters("INSERT INTO users (id, email) VALUES (?, ?), (?, ?)", "sqlite"),
+      ).toEqual({
+        count: 4,
+        sql: "SELECT `id`, `email` FROM `users`",
+        columns: [0, 1, 0, 1],
+        lists: [false, false, false, false],
+      });
+      expect(parseParameters("UPDATE users SET email = ? WHERE id = ?", "mysql")).toEqual({
+        count: 2,
+        sql: "SELECT `email`, `id` FROM `users`",
+        columns: [0, 1],
+        lists: [false, false],
+      });
+    });
+
+    it("should bind numbered PostgreSQL placeholders", () => {
+      // GIVEN
+      const sql = "INSERT INTO users (id, email) VALUES ($1, $2)";
+
+      // WHEN
+      const result = parseParameters(sql, "postgresql");
+
+      // THEN
+      expect(result).toEqual({
+        count: 2,
+        sql: 'SELECT id, email FROM "users"',
+        columns: [0, 1],
+        lists: [false, false],
+      });
+    });
+
+    it("should count placeholders it cannot bind", () => {
+      expect(
+        parseParameters(
+          "DELETE FROM users WHERE id IN (SELECT user_id FROM posts WHERE title = ?)",
+          "mysql",
+        ),
+      ).toEqual({ count: 1, sql: null, columns: [null], lists: [false] });
+      expect(parseParameters("SELECT NOW() + ?", "mysql")).toEqual({
+        count: 1,
+        sql: null,
+        columns: [null],
+        lists: [false],
+      });
+      expect(parseParameters("NOT SQL ?", "mysql")).toEqual({
+        count: 1,
+        sql: null,
+        columns: [null],
+        lists: [false],
+      });
+    });
+  });
+});
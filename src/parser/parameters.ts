@@ -0,0 +1,252 @@
+import sqlParser from "node-sql-parser";
+
+import type { DatabaseEngine } from "../adapter/db/config.i";
+
+const { Parser } = sqlParser;
+
+/** Operators whose operands hold values of the same column type */
+const COMPARISON_OPERATORS = new Set([
+  "=",
+  "!=",
+  "<>",
+  "<",
+  ">",
+  "<=",
+  ">=",
+  "<=>",
+  "IN",
+  "NOT IN",
+  "BETWEEN",
+  "NOT BETWEEN",
+  "LIKE",
+  "NOT LIKE",
+  "ILIKE",
+  "NOT ILIKE",
+]);
+
+/** Operators whose right operand is a list of values */
+const LIST_OPERATORS = new Set(["IN", "NOT IN"]);
+
+/** String literals, quoted identifiers and comments (no placeholders or keywords inside) */
+export const NON_CODE_PATTERN =
+  /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`[^`]*`|--[^\n]*|\/\*[\s\S]*?\*\//g;
+
+/** Placeholders of a statement and the query resolving the column types they are bound to */
+export interface ParameterProbe {
+  /** Number of values the statement expects */
+  count: number;
+  /** `SELECT <column>, ... FROM <tables>` selecting the bound columns (null when none is known) */
+  sql: string | null;
+  /** Probe column index of each placeholder (null when its column is unknown) */
+  columns: (number | null)[];
+  /** Whether each placeholder is an item of an `IN (...)` list */
+  lists: boolean[];
+}
+
+/** AST node (any statement, expression or clause) */
+interface AstNode {
+  type?: string;
+  [key: string]: unknown;
+}
+
+/** Column a placeholder is bound to, and whether it is an item of an `IN (...)` list */
+interface Binding {
+  column: AstColumnRef | null;
+  list: boolean;
+}
+
+/** AST column reference */
+interface AstColumnRef extends AstNode {
+  type: "column_ref";
+  table: string | null;
+  column: unknown;
+}
+
+/** Placeholder that is not bound to a column */
+const UNBOUND: Binding = { column: null, list: false };
+
+const parser = new Parser();
+
+/**
+ * Find the placeholders (`?`, `$1`) of a statement and the columns they are compared to,
+ * assigned to or inserted into
+ *
+ * `WHERE id = ?`, `email IN (?, ?)`, `INSERT INTO users (id, email) VALUES (?, ?)` and
+ * `UPDATE users SET email = ?` bind their placeholder to a column. Placeholders elsewhere
+ * (`LIMIT ?`, function arguments, subqueries) are counted without a column.
+ */
+export function parseParameters(sql: string, dbEngine: DatabaseEngine): ParameterProbe {
+  const count = countPlaceholders(sql, dbEngine);
+  const unknown: ParameterProbe = {
+    count,
+    sql: null,
+    columns: Array<null>(count).fill(null),
+    lists: Array<boolean>(count).fill(false),
+  };
+
+  // SQLite accepts the MySQL dialect (and its backtick quoting) but not the SQLite grammar's `?`
+  const database = dbEngine === "postgresql" ? "PostgreSQL" : "MySQL";
+  let ast: AstNode | AstNode[];
+  try {
+    ast = parser.astify(sql, { database }) as unknown as AstNode | AstNode[];
+  } catch {
+    return unknown;
+  }
+  const statement = Array.isArray(ast) ? (ast.length === 1 ? ast[0] : undefined) : ast;
+  const from = statement ? getTables(statement) : null;
+  if (!statement || !from) {
+    return unknown;
+  }
+
+  const bindings: Binding[] = [];
+  collectBindings(statement, UNBOUND, statement, bindings);
+  // The AST disagrees with the text (unsupported syntax): keep the count only
+  if (bindings.length !== count) {
+    return unknown;
+  }
+
+  const references: AstColumnRef[] = [];
+  const keys: string[] = [];
+  const lists = bindings.map((binding) => binding.list);
+  const columns = bindings.map(({ column: reference }) => {
+    if (!reference) return null;
+    const key = JSON.stringify([reference.table, reference.column]);
+    if (!keys.includes(key)) {
+      keys.push(key);
+      references.push(reference);
+    }
+    return keys.indexOf(key);
+  });
+  if (references.length === 0) {
+    return unknown;
+  }
+
+  const probe = {
+    type: "select",
+    columns: references.map((expr) => ({ expr, as: null })),
+    from,
+  };
+  return { count, sql: parser.sqlify(probe as never, { database }), columns, lists };
+}
+
+/**
+ * Count the placeholders of a statement: `?` markers, or the highest `$n` for PostgreSQL
+ */
+export function countPlaceholders(sql: string, dbEngine: DatabaseEngine): number {
+  const code = sql.replace(NON_CODE_PATTERN, " ");
+  if (dbEngine === "postgresql") {
+    return Math.max(0, ...[...code.matchAll(/\$(\d+)/g)].map((match) => Number(match[1])));
+  }
+  return code.match(/\?/g)?.length ?? 0;
+}
+
+/**
+ * Record the binding of each placeholder below `node` in statement order
+ * (`$n` placeholders are recorded at index n - 1)
+ *
+ * `statement` is null inside subqueries: their columns refer to other tables than the probe's.
+ */
+function collectBindings(
+  node: unknown,
+  binding: Binding,
+  statement: AstNode | null,
+  bindings: Binding[],
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectBindings(item, UNBOUND, statement, bindings);
+    return;
+  }
+  if (!node || typeof node !== "object") {
+    return;
+  }
+
+  const current = node as AstNode;
+  const scope = current.type === "select" && current !== statement ? null : statement;
+  const bind = (reference: AstColumnRef | null, list = false): Binding => ({
+    column: scope ? reference : null,
+    list,
+  });
+
+  if (current.type === "origin" && current["value"] === "?") {
+    bindings.push(binding);
+    return;
+  }
+  if (current.type === "var" && current["prefix"] === "$" && typeof current["name"] === "number") {
+    const index = current["name"] - 1;
+    while (bindings.length <= index) bindings.push(UNBOUND);
+    if (!bindings[index]?.column) bindings[index] = binding;
+    return;
+  }
+  if (current.type === "expr_list" && Array.isArray(current["value"])) {
+    for (const value of current["value"]) collectBindings(value, binding, scope, bindings);
+    return;
+  }
+  if (current.type === "binary_expr" && COMPARISON_OPERATORS.has(String(current["operator"]))) {
+    const list = LIST_OPERATORS.has(String(current["operator"]));
+    collectBindings(current["left"], bind(asColumnRef(current["right"])), scope, bindings);
+    collectBindings(current["right"], bind(asColumnRef(current["left"]), list), scope, bindings);
+    return;
+  }
+
+  for (const [key, child] of Object.entries(current)) {
+    if (key === "set" && Array.isArray(child)) {
+      // UPDATE ... SET column = ?, ON DUPLICATE KEY UPDATE column = ?
+      for (const item of child as AstNode[]) {
+        const reference = toColumnRef(item["table"], item["column"]);
+        collectBindings(item["value"], bind(reference), scope, bindings);
+      }
+      continue;
+    }
+
+    // INSERT INTO table (a, b) VALUES (?, ?), (?, ?)
+    const rows = (child as AstNode | null)?.["values"];
+    if (key === "values" && Array.isArray(current["columns"]) && Array.isArray(rows)) {
+      const columns = current["columns"] as unknown[];
+      for (const row of rows as AstNode[]) {
+        const values = Array.isArray(row["value"]) ? (row["value"] as unknown[]) : [];
+        values.forEach((value, index) => {
+          collectBindings(value, bind(toColumnRef(null, columns[index])), scope, bindings);
+        });
+      }
+      continue;
+    }
+
+    collectBindings(child, UNBOUND, scope, bindings);
+  }
+}
+
+/**
+ * Get the tables the columns of a statement belong to (null for other statements)
+ */
+function getTables(statement: AstNode): unknown[] | null {
+  const tables =
+    statement.type === "select" || statement.type === "delete"
+      ? statement["from"]
+      : statement.type === "update" || statement.type === "insert"
+        ? statement["table"]
+        : null;
+  return Array.isArray(tables) && tables.length > 0 ? tables : null;
+}
+
+/**
+ * Narrow an AST node to a column reference
+ */
+function asColumnRef(node: unknown): AstColumnRef | null {
+  const candidate = node as AstNode | null;
+  return candidate?.type === "column_ref" ? (candidate as AstColumnRef) : null;
+}
+
+/**
+ * Build a column reference from an INSERT column or a SET target
+ */
+function toColumnRef(table: unknown, column: unknown): AstColumnRef | null {
+  if (column === undefined || column === null) {
+    return null;
+  }
+  return {
+    type: "column_ref",
+    table: typeof table === "string" ? table : null,
+    // PostgreSQL INSERT columns are bare `{ type: "default", value }` names
+    column: (column as AstNode).type === "default" ? { expr: column } : column,
+  };
+}
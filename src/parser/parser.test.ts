@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { parseSql } from "./parser";
+import { getNonNullColumns, getOuterJoinedTables, parseSql } from "./parser";
 
 describe("SQL Parser", () => {
   describe("Simple SELECT", () => {
@@ -467,4 +467,62 @@ describe("SQL Parser", () => {
       });
     });
   });
+
+  describe("Outer Joined Tables", () => {
+    it("should return LEFT JOIN tables", () => {
+      // GIVEN
+      const sql = "SELECT u.name, p.title FROM users u LEFT JOIN posts p ON p.user_id = u.id";
+
+      // WHEN / THEN
+      expect(getOuterJoinedTables(sql, "mysql")).toEqual(new Set(["posts"]));
+    });
+
+    it("should return tables preceding RIGHT and FULL joins", () => {
+      // GIVEN
+      const right =
+        "SELECT * FROM users u JOIN posts p ON p.user_id = u.id RIGHT JOIN tags t ON t.id = p.id";
+      const full = "SELECT * FROM Users u FULL OUTER JOIN posts p ON p.user_id = u.id";
+
+      // WHEN / THEN
+      expect(getOuterJoinedTables(right, "sqlite")).toEqual(new Set(["users", "posts"]));
+      expect(getOuterJoinedTables(full, "postgresql")).toEqual(new Set(["users", "posts"]));
+    });
+
+    it("should return the tables of outer-joined derived tables", () => {
+      // GIVEN
+      const sql =
+        "SELECT u.name, x.title FROM users u LEFT JOIN (SELECT title, user_id FROM posts) x ON x.user_id = u.id";
+
+      // WHEN / THEN
+      expect(getOuterJoinedTables(sql, "postgresql")).toEqual(new Set(["posts"]));
+    });
+
+    it("should return no tables for inner joins and unparsable SQL", () => {
+      expect(
+        getOuterJoinedTables("SELECT * FROM users u JOIN posts p ON p.user_id = u.id", "mysql")
+          .size,
+      ).toBe(0);
+      expect(getOuterJoinedTables("SELECT FROM WHERE", "mysql").size).toBe(0);
+    });
+  });
+
+  describe("Non-null Columns", () => {
+    it("should mark COUNT and EXISTS columns as non-null", () => {
+      // GIVEN
+      const sql =
+        "SELECT id, COUNT(*) AS total, count(id)::int, SUM(id), EXISTS (SELECT 1 FROM posts) AS has_posts FROM users WHERE id = $1 GROUP BY id";
+
+      // WHEN / THEN
+      expect(getNonNullColumns(sql, "postgresql")).toEqual([false, true, true, false, true]);
+    });
+
+    it("should return no columns for star lists, compound SELECTs and unparsable SQL", () => {
+      expect(getNonNullColumns("SELECT *, COUNT(*) FROM users", "postgresql")).toEqual([]);
+      expect(getNonNullColumns("SELECT u.*, COUNT(*) FROM users u", "postgresql")).toEqual([]);
+      expect(
+        getNonNullColumns("SELECT COUNT(*) FROM users UNION SELECT NULL", "postgresql"),
+      ).toEqual([]);
+      expect(getNonNullColumns("SELECT FROM WHERE", "postgresql")).toEqual([]);
+    });
+  });
 });
@@ -1,5 +1,7 @@
 import sqlParser from "node-sql-parser";
 
+import type { DatabaseEngine } from "../adapter/db/config.i";
+
 const { Parser } = sqlParser;
 
 /** Aggregate function names */
@@ -61,8 +63,11 @@ interface AstExpr {
   type?: string;
   column?: string;
   table?: string;
-  name?: string;
+  /** Function name (`{ name: [{ value: "EXISTS" }] }` for functions other than aggregates) */
+  name?: string | { name?: { value?: string }[] };
   args?: AstExprList;
+  /** Operand of a cast */
+  expr?: AstExpr;
 }
 
 /** AST expression list */
@@ -82,6 +87,8 @@ interface AstColumn {
 interface AstFrom {
   table?: string;
   as?: string;
+  join?: string;
+  expr?: { ast?: AstSelect };
 }
 
 /** AST SELECT statement */
@@ -89,6 +96,7 @@ interface AstSelect {
   type: string;
   columns: AstColumn[] | "*";
   from?: AstFrom[];
+  _next?: AstSelect;
 }
 
 const parser = new Parser();
@@ -134,7 +142,7 @@ function parseColumn(col: AstColumn): ParsedColumn {
   const alias = col.as ?? null;
 
   // Handle aggregate functions
-  if (expr.type === "aggr_func" && expr.name) {
+  if (expr.type === "aggr_func" && typeof expr.name === "string") {
     const aggName = expr.name.toUpperCase();
     if (AGGREGATE_FUNCTIONS.has(aggName)) {
       const aggregateColumn = extractAggregateColumn(expr.args);
@@ -210,3 +218,92 @@ function parseTables(from: AstFrom[] | undefined): ParsedTable[] {
     alias: item.as ?? null,
   }));
 }
+
+/**
+ * Get the tables whose rows may be missing because of an outer join (lowercased names)
+ *
+ * LEFT JOIN makes the joined table nullable, RIGHT JOIN every preceding table, and FULL JOIN
+ * both; tables read by an outer-joined derived table are nullable too. Drivers only report the
+ * underlying table of a column, so a table joined twice is nullable if either join is outer.
+ * Statements the parser rejects have no known outer joins.
+ */
+export function getOuterJoinedTables(sql: string, dbEngine: DatabaseEngine): Set<string> {
+  const tables = new Set<string>();
+  let ast: AstSelect | AstSelect[];
+  try {
+    ast = parser.astify(sql, {
+      database: dbEngine === "postgresql" ? "PostgreSQL" : "MySQL",
+    }) as AstSelect | AstSelect[];
+  } catch {
+    return tables;
+  }
+
+  for (let select = Array.isArray(ast) ? ast[0] : ast; select; select = select._next) {
+    const from = select.from ?? [];
+    for (const [index, item] of from.entries()) {
+      const join = item.join?.toUpperCase() ?? "";
+      if (join.startsWith("RIGHT") || join.startsWith("FULL")) {
+        for (const preceding of from.slice(0, index)) {
+          collectTables(preceding, tables);
+        }
+      }
+      if (join.startsWith("LEFT") || join.startsWith("FULL")) {
+        collectTables(item, tables);
+      }
+    }
+  }
+  return tables;
+}
+
+/**
+ * Add the table of a FROM item, or every table read by a derived table
+ */
+function collectTables(item: AstFrom, tables: Set<string>): void {
+  if (item.table) {
+    tables.add(item.table.toLowerCase());
+  }
+  for (const inner of item.expr?.ast?.from ?? []) {
+    collectTables(inner, tables);
+  }
+}
+
+/**
+ * Get whether each column of a SELECT list is an expression that is never NULL: `COUNT(...)`
+ * and `EXISTS (...)`, also when cast (`COUNT(*)::int`)
+ *
+ * Lists with `*`, compound SELECTs and statements the parser rejects return no columns, as the
+ * list cannot be matched to the result columns.
+ */
+export function getNonNullColumns(sql: string, dbEngine: DatabaseEngine): boolean[] {
+  let ast: AstSelect | AstSelect[];
+  try {
+    ast = parser.astify(sql, {
+      database: dbEngine === "postgresql" ? "PostgreSQL" : "MySQL",
+    }) as AstSelect | AstSelect[];
+  } catch {
+    return [];
+  }
+
+  const select = Array.isArray(ast) ? ast[0] : ast;
+  const columns = select?.type === "select" && !select._next ? select.columns : "*";
+  if (columns === "*" || columns.some((column) => column.expr.column === "*")) {
+    return [];
+  }
+  return columns.map((column) => isNonNullExpr(column.expr));
+}
+
+/**
+ * Check if an expression is `COUNT(...)` or `EXISTS (...)` (optionally cast)
+ */
+function isNonNullExpr(expr: AstExpr): boolean {
+  if (expr.type === "cast" && expr.expr) {
+    return isNonNullExpr(expr.expr);
+  }
+  if (expr.type === "aggr_func") {
+    return typeof expr.name === "string" && expr.name.toUpperCase() === "COUNT";
+  }
+  if (expr.type === "function" && typeof expr.name === "object") {
+    return expr.name.name?.[0]?.value?.toUpperCase() === "EXISTS";
+  }
+  return false;
+}
@@ -0,0 +1,532 @@
+import { fileURLToPath } from "node:url";
+
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { TSESLint } from "@typescript-eslint/utils";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { checkSql } from "./check-sql.js";
+
+import { rules } from "./index.js";
+
+// Offline schema source: these tests run without a database
+const schemaFile = fileURLToPath(new URL("./fixtures/schema.sql", import.meta.url));
+
+// Files reading `.sql` fixtures are linted as if they were next to them
+const fixtureFilename = fileURLToPath(new URL("./fixtures/queries.ts", import.meta.url));
+
+const ruleTester = new RuleTester();
+
+// =============================================================================
+// mysql2
+// =============================================================================
+
+ruleTester.run("check-sql (schemaFile, mysql2)", checkSql, {
+  valid: [
+    {
+      name: "SELECT with correct types",
+      code: `
+        const [rows] = await pool.execute<(RowDataPacket & { id: number; email: string | null; status: "pending" | "active" | "inactive" })[]>(
+          "SELECT id, email, status FROM users WHERE id = ?",
+          [1],
+        );
+      `,
+      options: [{ schemaFile }],
+    },
+    {
+      name: "LEFT JOIN columns are nullable",
+      code: `
+        const [rows] = await pool.query<(RowDataPacket & { name: string; title: string | null })[]>(
+          "SELECT u.name, p.title FROM users u LEFT JOIN posts p ON p.user_id = u.id",
+        );
+      `,
+      options: [{ schemaFile }],
+    },
+    {
+      name: "Write statement typed as ResultSetHeader",
+      code: `
+        await pool.execute<ResultSetHeader>("UPDATE users SET email = ? WHERE id = ?", ["a@example.com", 1]);
+      `,
+      options: [{ schemaFile }],
+    },
+    {
+      name: "Queries with dynamic SQL are skipped",
+      code: `
+        await pool.query("SELECT id FROM " + table);
+        await pool.query(\`SELECT id FROM users WHERE id = \${id}\`);
+      `,
+      options: [{ schemaFile }],
+    },
+  ],
+  invalid: [
+    {
+      name: "SELECT without type",
+      code: `
+import { pool } from "./connection";
+
+const [rows] = await pool.execute("SELECT id, name FROM users");
+`,
+      output: `
+import { pool } from "./connection";
+import type { RowDataPacket } from 'mysql2/promise';
+
+const [rows] = await pool.execute<(RowDataPacket & { id: number; name: string })[]>("SELECT id, name FROM users");
+`,
+      options: [{ schemaFile }],
+      errors: [{ messageId: "missingType" }],
+    },
+    {
+      name: "Wrong column type",
+      code: `
+        const [rows] = await pool.query<(RowDataPacket & { id: string })[]>("SELECT id FROM users");
+      `,
+      output: `
+        const [rows] = await pool.query<(RowDataPacket & { id: number })[]>("SELECT id FROM users");
+      `,
+      options: [{ schemaFile }],
+      errors: [
+        { messageId: "typeMismatch", data: { column: "id", expected: "number", actual: "string" } },
+      ],
+    },
+    {
+      name: "Unknown column in a write statement",
+      code: `
+        await pool.execute<ResultSetHeader>("UPDATE users SET emial = ? WHERE id = ?", ["a", 1]);
+      `,
+      options: [{ schemaFile }],
+      errors: [{ messageId: "invalidStatement" }],
+    },
+    {
+      name: "Write statement typed as rows",
+      code: `
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+
+await pool.execute<RowDataPacket[]>("DELETE FROM users WHERE id = ?", [1]);
+`,
+      output: `
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+
+await pool.execute<ResultSetHeader>("DELETE FROM users WHERE id = ?", [1]);
+`,
+      options: [{ schemaFile }],
+      errors: [
+        {
+          messageId: "resultTypeMismatch",
+          data: { statement: "DELETE", expected: "ResultSetHeader", actual: "RowDataPacket[]" },
+        },
+      ],
+    },
+    {
+      name: "Values array shorter than the placeholders",
+      code: `
+        await pool.execute<ResultSetHeader>("UPDATE users SET email = ? WHERE id = ?", ["a"]);
+      `,
+      options: [{ schemaFile }],
+      errors: [{ messageId: "parameterCount", data: { expected: "2", actual: "1" } }],
+    },
+  ],
+});
+
+describe("check-sql (schemaFile, dbEngine)", () => {
+  it("should reject offline schema sources for PostgreSQL and SQLite", () => {
+    // GIVEN
+    const linter = new TSESLint.Linter({ configType: "flat" });
+    const lint = (dbEngine: string) =>
+      linter.verify('await pool.query("SELECT id FROM users");', {
+        plugins: { "sql-typing": { rules } },
+        rules: { "sql-typing/check-sql": ["error", { schemaFile, dbEngine }] },
+      });
+
+    // WHEN / THEN
+    expect(() => lint("postgresql")).toThrow(/support the 'mysql' and 'mariadb' database engines/);
+    expect(() => lint("sqlite")).toThrow(/not 'sqlite'/);
+    expect(() => lint("mariadb")).not.toThrow();
+  });
+});
+
+// =============================================================================
+// SQL resolution: constants, folding, placeholders and .sql files
+// =============================================================================
+
+ruleTester.run("check-sql (schemaFile, SQL resolution)", checkSql, {
+  valid: [
+    {
+      name: "Folded constants, concatenation and join()",
+      code: `
+        const COLUMNS = "id, name";
+        const FROM_USERS = \`FROM users\`;
+        await pool.query<(RowDataPacket & { id: number; name: string })[]>(\`SELECT \${COLUMNS} \` + FROM_USERS);
+        await pool.query<(RowDataPacket & { id: number })[]>(["SELECT id", "FROM users"].join(" "));
+      `,
+      options: [{ schemaFile }],
+    },
+    {
+      name: "Interpolated column lists and function arguments are skipped in placeholder mode",
+      code: `
+        await pool.query<ResultSetHeader>(\`INSERT INTO users (\${column}) VALUES (\${value})\`);
+        await pool.query<(RowDataPacket & { total: number })[]>(\`SELECT COALESCE(\${expr}, 0) AS total FROM users\`);
+      `,
+      options: [{ schemaFile, interpolations: "placeholder" }],
+    },
+  ],
+  invalid: [
+    {
+      name: "Constant holding the SQL",
+      code: `
+        const USER_QUERY = "SELECT id FROM users";
+        await pool.query<(RowDataPacket & { id: string })[]>(USER_QUERY);
+      `,
+      output: `
+        const USER_QUERY = "SELECT id FROM users";
+        await pool.query<(RowDataPacket & { id: number })[]>(USER_QUERY);
+      `,
+      options: [{ schemaFile }],
+      errors: [{ messageId: "typeMismatch" }],
+    },
+    {
+      name: "Dynamic values in placeholder mode",
+      code: `
+        await pool.query<(RowDataPacket & { id: number })[]>(
+          \`SELECT id, status FROM users WHERE name LIKE \${search} LIMIT \${limit}\`,
+        );
+      `,
+      output: `
+        await pool.query<(RowDataPacket & { id: number; status: "pending" | "active" | "inactive" })[]>(
+          \`SELECT id, status FROM users WHERE name LIKE \${search} LIMIT \${limit}\`,
+        );
+      `,
+      options: [{ schemaFile, interpolations: "placeholder" }],
+      errors: [{ messageId: "missingColumn", data: { column: "status" } }],
+    },
+    {
+      name: "Dynamic values of VALUES tuples in placeholder mode",
+      code: `
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+
+await pool.query<RowDataPacket[]>(\`INSERT INTO users (name, email) VALUES (\${name}, \${email}), (\${other}, NULL)\`);
+`,
+      output: `
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+
+await pool.query<ResultSetHeader>(\`INSERT INTO users (name, email) VALUES (\${name}, \${email}), (\${other}, NULL)\`);
+`,
+      options: [{ schemaFile, interpolations: "placeholder" }],
+      errors: [{ messageId: "resultTypeMismatch" }],
+    },
+    {
+      name: "SQL read from a .sql file",
+      code: `
+        const [rows] = await pool.execute<(RowDataPacket & { id: number })[]>(
+          readFileSync(new URL("./get-user.sql", import.meta.url), "utf8"),
+          [1],
+        );
+      `,
+      output: `
+        const [rows] = await pool.execute<(RowDataPacket & { id: number; email: string | null })[]>(
+          readFileSync(new URL("./get-user.sql", import.meta.url), "utf8"),
+          [1],
+        );
+      `,
+      filename: fixtureFilename,
+      options: [{ schemaFile }],
+      errors: [{ messageId: "missingColumn", data: { column: "email" } }],
+    },
+  ],
+});
+
+// =============================================================================
+// Targets and type-aware receivers
+// =============================================================================
+
+// Type-aware cases lint the same text the program was created from
+const programFilename = "/project/index.ts";
+
+const untypedReceiverCode = `
+declare class Database { query<T>(sql: string): Promise<[T, unknown]>; }
+declare const client: { query(sql: string): Promise<unknown> };
+await client.query("SELECT id FROM users");
+`;
+
+const typedReceiverCode = `
+import type { RowDataPacket } from "mysql2/promise";
+declare class Database { query<T>(sql: string): Promise<[T, unknown]>; }
+declare const db: Database;
+await db.query<(RowDataPacket & { id: string })[]>("SELECT id FROM users");
+`;
+
+ruleTester.run("check-sql (schemaFile, targets)", checkSql, {
+  valid: [
+    {
+      name: "Calls that are not targets are skipped",
+      code: `
+        await client.query("SELECT id FROM users");
+        await db.fetch("SELECT id FROM users");
+      `,
+      options: [{ schemaFile, targets: [{ method: "query", receiver: "^pool$" }] }],
+    },
+    {
+      name: "Tag targets are skipped by libraries without tagged templates",
+      code: "const rows = await sql`SELECT id FROM users WHERE id = ${id}`;",
+      options: [{ schemaFile, targets: [{ tag: "sql" }] }],
+    },
+    {
+      name: "TypeORM targets whose result is not assigned are skipped",
+      code: `await dataSource.query("SELECT id FROM users");`,
+      options: [{ schemaFile, targets: [{ method: "query", library: "typeorm" }] }],
+    },
+    {
+      name: "mysql targets without a results callback are skipped",
+      code: `conn.query("SELECT id FROM users");`,
+      options: [{ schemaFile, targets: [{ method: "query", library: "mysql" }] }],
+    },
+    {
+      name: "Data API targets whose records are not assigned are skipped",
+      code: `await client.send(new ExecuteStatementCommand({ sql: "SELECT id FROM users" }));`,
+      options: [{ schemaFile, targets: [{ method: "send", library: "data-api" }] }],
+    },
+    {
+      name: "Receivers that are not connection types are skipped",
+      code: untypedReceiverCode,
+      filename: programFilename,
+      languageOptions: { parserOptions: { programs: [createProgram(untypedReceiverCode)] } },
+      options: [{ schemaFile, typeAware: true, receiverTypes: ["Database"] }],
+    },
+  ],
+  invalid: [
+    {
+      name: "Project wrapper configured as a target",
+      code: `
+import type { RowDataPacket } from "mysql2/promise";
+
+const rows = await this.db.selectMany(options, "SELECT id FROM users");
+`,
+      output: `
+import type { RowDataPacket } from "mysql2/promise";
+
+const rows = await this.db.selectMany<(RowDataPacket & { id: number })[]>(options, "SELECT id FROM users");
+`,
+      options: [{ schemaFile, targets: [{ method: "selectMany", sqlArgument: 1 }] }],
+      errors: [{ messageId: "missingType" }],
+    },
+    {
+      name: "Receiver typed with one of receiverTypes",
+      code: typedReceiverCode,
+      output: typedReceiverCode.replace("{ id: string }", "{ id: number }"),
+      filename: programFilename,
+      languageOptions: { parserOptions: { programs: [createProgram(typedReceiverCode)] } },
+      options: [{ schemaFile, typeAware: true, receiverTypes: ["Database"] }],
+      errors: [{ messageId: "typeMismatch" }],
+    },
+  ],
+});
+
+// =============================================================================
+// Parameter values
+// =============================================================================
+
+const arrayParameterCode = `
+interface Array<T> { [index: number]: T; length: number; }
+declare const pool: { query<T>(sql: string, values: unknown[]): Promise<[T, unknown]> };
+declare const ids: number[];
+await pool.query<(RowDataPacket & { id: number })[]>("SELECT id FROM users WHERE id IN (?)", [ids]);
+`;
+
+const arrayComparisonCode = arrayParameterCode.replace("id IN (?)", "id = ?");
+
+ruleTester.run("check-sql (schemaFile, parameters)", checkSql, {
+  valid: [
+    {
+      name: "Arrays expanded into an IN list",
+      code: arrayParameterCode,
+      filename: programFilename,
+      languageOptions: { parserOptions: { programs: [createProgram(arrayParameterCode)] } },
+      options: [{ schemaFile }],
+    },
+  ],
+  invalid: [
+    {
+      name: "Arrays compared to a single value",
+      code: arrayComparisonCode,
+      filename: programFilename,
+      languageOptions: { parserOptions: { programs: [createProgram(arrayComparisonCode)] } },
+      options: [{ schemaFile }],
+      errors: [
+        {
+          messageId: "parameterType",
+          data: { parameter: "1", expected: "number", actual: "number[]" },
+        },
+      ],
+    },
+  ],
+});
+
+// =============================================================================
+// Other libraries
+// =============================================================================
+
+ruleTester.run("check-sql (schemaFile, libraries)", checkSql, {
+  valid: [
+    {
+      name: "mariadb rows array",
+      code: `
+        const rows = await conn.query<{ id: number; view_count: bigint }[]>("SELECT id, view_count FROM posts");
+      `,
+      options: [{ schemaFile, library: "mariadb" }],
+    },
+    {
+      name: "mysql callback results",
+      code: `
+        connection.query("SELECT id FROM users", (error, results: { id: number }[]) => {});
+      `,
+      options: [{ schemaFile, library: "mysql" }],
+    },
+    {
+      name: "TypeORM annotated variable",
+      code: `
+        const rows: { id: number; email: string | null }[] = await dataSource.query("SELECT id, email FROM users");
+      `,
+      options: [{ schemaFile, library: "typeorm" }],
+    },
+    {
+      name: "Drizzle fragments and column interpolations are skipped",
+      code: `
+        const rows = await db.select({
+          postCount: sql<number>\`(SELECT count(*) FROM posts WHERE posts.user_id = \${users.id})\`,
+        }).from(users);
+        const names = await db.execute(sql\`SELECT \${users.name} FROM users\`);
+      `,
+      options: [{ schemaFile, library: "drizzle" }],
+    },
+    {
+      name: "Data API SDK records with a command constant",
+      code: `
+        const command = new ExecuteStatementCommand({
+          resourceArn,
+          secretArn,
+          sql: "SELECT id, email FROM users WHERE id = :id",
+          formatRecordsAs: "JSON",
+        });
+        const output = await client.send(command);
+        const rows: { id: number; email: string | null }[] = JSON.parse(output.formattedRecords ?? "[]");
+      `,
+      options: [{ schemaFile, library: "data-api" }],
+    },
+    {
+      name: "Sequelize SELECT query",
+      code: `
+        const rows = await sequelize.query<{ id: number }>("SELECT id FROM users WHERE id = :id", {
+          type: QueryTypes.SELECT,
+          replacements: { id },
+        });
+      `,
+      options: [{ schemaFile, library: "sequelize" }],
+    },
+    {
+      name: "Prisma.join interpolations are skipped",
+      code: "const rows = await prisma.$queryRaw`SELECT id FROM users WHERE id IN (${Prisma.join(ids)})`;",
+      options: [{ schemaFile, library: "prisma" }],
+    },
+  ],
+  invalid: [
+    {
+      name: "mariadb BIGINT as bigint",
+      code: `
+        const rows = await conn.query<{ view_count: number }[]>("SELECT view_count FROM posts");
+      `,
+      output: `
+        const rows = await conn.query<{ view_count: bigint }[]>("SELECT view_count FROM posts");
+      `,
+      options: [{ schemaFile, library: "mariadb" }],
+      errors: [{ messageId: "typeMismatch" }],
+    },
+    {
+      name: "Prisma $queryRaw without type",
+      code: "const users = await prisma.$queryRaw`SELECT id, email FROM users WHERE id = ${id}`;",
+      output:
+        "const users = await prisma.$queryRaw<{ id: number; email: string | null }[]>`SELECT id, email FROM users WHERE id = ${id}`;",
+      options: [{ schemaFile, library: "prisma" }],
+      errors: [{ messageId: "missingType" }],
+    },
+    {
+      name: "Prisma.raw static SQL is inlined",
+      code: 'const rows = await prisma.$queryRaw`SELECT id FROM ${Prisma.raw("users")} WHERE id = ${id}`;',
+      output:
+        'const rows = await prisma.$queryRaw<{ id: number }[]>`SELECT id FROM ${Prisma.raw("users")} WHERE id = ${id}`;',
+      options: [{ schemaFile, library: "prisma" }],
+      errors: [{ messageId: "missingType" }],
+    },
+    {
+      name: "Prisma BIGINT, COUNT(*) and DECIMAL values",
+      code: "const rows = await prisma.$queryRaw<{ view_count: string; total: number; balance: string }[]>`SELECT p.view_count, COUNT(*) AS total, u.balance FROM posts p JOIN users u ON u.id = p.user_id GROUP BY p.view_count, u.balance`;",
+      output:
+        "const rows = await prisma.$queryRaw<{ view_count: bigint; total: bigint; balance: Prisma.Decimal }[]>`SELECT p.view_count, COUNT(*) AS total, u.balance FROM posts p JOIN users u ON u.id = p.user_id GROUP BY p.view_count, u.balance`;",
+      options: [{ schemaFile, library: "prisma" }],
+      errors: [
+        {
+          messageId: "typeMismatch",
+          data: { column: "view_count", expected: "bigint", actual: "string" },
+        },
+        {
+          messageId: "typeMismatch",
+          data: { column: "total", expected: "bigint", actual: "number" },
+        },
+        {
+          messageId: "typeMismatch",
+          data: { column: "balance", expected: "Prisma.Decimal", actual: "string" },
+        },
+      ],
+    },
+    {
+      name: "Knex raw without type",
+      code: `
+        const [rows] = await knex.raw("SELECT id FROM users WHERE id = ?", [id]);
+      `,
+      output: `
+        const [rows] = await knex.raw<[{ id: number }[], unknown]>("SELECT id FROM users WHERE id = ?", [id]);
+      `,
+      options: [{ schemaFile, library: "knex" }],
+      errors: [{ messageId: "missingType" }],
+    },
+    {
+      name: "Kysely sql tag with a wrong type",
+      code: "const { rows } = await sql<{ id: string }>`SELECT id FROM users WHERE id = ${id}`.execute(db);",
+      output:
+        "const { rows } = await sql<{ id: number }>`SELECT id FROM users WHERE id = ${id}`.execute(db);",
+      options: [{ schemaFile, library: "kysely" }],
+      errors: [{ messageId: "typeMismatch" }],
+    },
+    {
+      name: "Drizzle sql tag without type",
+      code: "const rows = await db.execute(sql`SELECT name FROM users WHERE id = ${id}`);",
+      output:
+        "const rows = await db.execute(sql<{ name: string }>`SELECT name FROM users WHERE id = ${id}`);",
+      options: [{ schemaFile, library: "drizzle" }],
+      errors: [{ messageId: "missingType" }],
+    },
+    {
+      name: "Data API wrapper without type",
+      code: `
+        const { records } = await data.query("SELECT id, created_at FROM users WHERE id = :id", { id });
+      `,
+      output: `
+        const { records } = await data.query<{ id: number; created_at: string }>("SELECT id, created_at FROM users WHERE id = :id", { id });
+      `,
+      options: [{ schemaFile, library: "data-api" }],
+      errors: [{ messageId: "missingType" }],
+    },
+  ],
+});
+
+/**
+ * Create a TypeScript program holding `code` as `programFilename`
+ */
+function createProgram(code: string): ts.Program {
+  const fileName = programFilename;
+  const options: ts.CompilerOptions = { noLib: true, target: ts.ScriptTarget.ESNext };
+  const host = ts.createCompilerHost(options);
+  host.getSourceFile = (requested, languageVersion) =>
+    requested === fileName ? ts.createSourceFile(requested, code, languageVersion) : undefined;
+  host.fileExists = (requested) => requested === fileName;
+  host.readFile = (requested) => (requested === fileName ? code : undefined);
+  return ts.createProgram([fileName], options, host);
+}
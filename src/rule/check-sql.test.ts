@@ -628,6 +628,51 @@ describeWithDb("check-sql", () => {
         `,
         options: [{ database: databaseConfig }],
       },
+
+      // =================================================================
+      // Valid Cases: Placeholder Values
+      // =================================================================
+
+      // -----------------------------------------------------------------
+      // Case: One value per placeholder
+      // -----------------------------------------------------------------
+      {
+        name: "Values array matching the placeholders",
+        code: `
+          import { pool } from './connection';
+          import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+          async function test(id: number, status: "active" | "inactive") {
+            const [rows] = await pool.execute<(RowDataPacket & { id: number })[]>(
+              "SELECT id FROM users WHERE id = ? AND status = ?",
+              [id, status]
+            );
+            await pool.execute<ResultSetHeader>("UPDATE users SET name = ? WHERE id = ?", ["Alice", id]);
+          }
+        `,
+        options: [{ database: databaseConfig }],
+      },
+
+      // -----------------------------------------------------------------
+      // Case: Result sets of statements not starting with SELECT
+      // -----------------------------------------------------------------
+      {
+        name: "WITH ... SELECT and parenthesized SELECT with correct types",
+        code: `
+          import { pool } from './connection';
+          import type { RowDataPacket } from 'mysql2/promise';
+
+          async function test() {
+            const [recent] = await pool.query<(RowDataPacket & { id: number })[]>(
+              "WITH recent AS (SELECT id FROM users) SELECT id FROM recent"
+            );
+            const [rows] = await pool.query<(RowDataPacket & { id: number })[]>(
+              "(SELECT id FROM users)"
+            );
+          }
+        `,
+        options: [{ database: databaseConfig }],
+      },
     ],
 
     invalid: [
@@ -1886,6 +1931,145 @@ import type { RowDataPacket } from 'mysql2/promise';
         options: [{ database: databaseConfig }],
         errors: [{ messageId: "missingType" }],
       },
+
+      // =================================================================
+      // Invalid Cases: Placeholder Values
+      // =================================================================
+
+      // -----------------------------------------------------------------
+      // Case: Too few values
+      // -----------------------------------------------------------------
+      {
+        name: "Values array shorter than the placeholders",
+        code: `
+          import { pool } from './connection';
+          import type { RowDataPacket } from 'mysql2/promise';
+
+          async function test(id: number) {
+            const [rows] = await pool.execute<(RowDataPacket & { id: number })[]>(
+              "SELECT id FROM users WHERE id = ? AND status = ?",
+              [id]
+            );
+          }
+        `,
+        options: [{ database: databaseConfig }],
+        errors: [{ messageId: "parameterCount", data: { expected: "2", actual: "1" } }],
+      },
+
+      // -----------------------------------------------------------------
+      // Case: Missing values for a DML statement
+      // -----------------------------------------------------------------
+      {
+        name: "UPDATE without values",
+        code: `
+          import { pool } from './connection';
+          import type { ResultSetHeader } from 'mysql2/promise';
+
+          async function test() {
+            await pool.query<ResultSetHeader>("UPDATE users SET name = ? WHERE id = ?");
+          }
+        `,
+        options: [{ database: databaseConfig }],
+        errors: [{ messageId: "parameterCount", data: { expected: "2", actual: "0" } }],
+      },
+
+      // -----------------------------------------------------------------
+      // Case: Named placeholder without a value
+      // -----------------------------------------------------------------
+      {
+        name: "Named placeholders with a missing and an extra value",
+        code: `
+          import { pool } from './connection';
+          import type { ResultSetHeader } from 'mysql2/promise';
+
+          async function test(id: number) {
+            await pool.execute<ResultSetHeader>(
+              { sql: "UPDATE users SET name = :name WHERE id = :id", namedPlaceholders: true },
+              { id, email: "a@example.com" }
+            );
+          }
+        `,
+        options: [{ database: databaseConfig }],
+        errors: [
+          { messageId: "missingParameter", data: { name: "name" } },
+          { messageId: "extraParameter", data: { name: "email" } },
+        ],
+      },
+
+      // =================================================================
+      // Invalid Cases: Write Statements
+      // =================================================================
+
+      // -----------------------------------------------------------------
+      // Case: INSERT without type
+      // -----------------------------------------------------------------
+      {
+        name: "INSERT without type should expect ResultSetHeader",
+        code: `
+          import { pool } from './connection';
+
+          async function test() {
+            await pool.execute("INSERT INTO users (name) VALUES (?)", ["Alice"]);
+          }
+        `,
+        output: `
+          import { pool } from './connection';
+import type { ResultSetHeader } from 'mysql2/promise';
+
+          async function test() {
+            await pool.execute<ResultSetHeader>("INSERT INTO users (name) VALUES (?)", ["Alice"]);
+          }
+        `,
+        options: [{ database: databaseConfig }],
+        errors: [{ messageId: "missingType" }],
+      },
+
+      // -----------------------------------------------------------------
+      // Case: Rows type for a write statement
+      // -----------------------------------------------------------------
+      {
+        name: "DELETE typed as rows should expect ResultSetHeader",
+        code: `
+          import { pool } from './connection';
+          import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+          async function test(id: number) {
+            const [result] = await pool.execute<RowDataPacket[]>("DELETE FROM users WHERE id = ?", [id]);
+          }
+        `,
+        output: `
+          import { pool } from './connection';
+          import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+          async function test(id: number) {
+            const [result] = await pool.execute<ResultSetHeader>("DELETE FROM users WHERE id = ?", [id]);
+          }
+        `,
+        options: [{ database: databaseConfig }],
+        errors: [
+          {
+            messageId: "resultTypeMismatch",
+            data: { statement: "DELETE", expected: "ResultSetHeader", actual: "RowDataPacket[]" },
+          },
+        ],
+      },
+
+      // -----------------------------------------------------------------
+      // Case: Unknown column in a write statement
+      // -----------------------------------------------------------------
+      {
+        name: "UPDATE of an unknown column should error",
+        code: `
+          import { pool } from './connection';
+          import type { ResultSetHeader } from 'mysql2/promise';
+
+          async function test(id: number) {
+            await pool.execute<ResultSetHeader>("UPDATE users SET nmae = ? WHERE id = ?", ["Alice", id]);
+          }
+        `,
+        options: [{ database: databaseConfig }],
+        errors: [{ messageId: "invalidStatement" }],
+      },
     ],
   });
 });
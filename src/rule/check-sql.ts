@@ -1,14 +1,34 @@
-import { AST_NODE_TYPES, ESLintUtils, type TSESTree } from "@typescript-eslint/utils";
+import { resolve } from "node:path";
 
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  type TSESLint,
+  type TSESTree,
+} from "@typescript-eslint/utils";
+
+import { createConstantResolver } from "../adapter/constant";
 import type {
-  DatabaseConfig,
+  ConnectionConfig,
   DatabaseEngine,
   LibraryType,
   PluginOptions,
+  SchemaSourceConfig,
 } from "../adapter/db/config.i";
-import { getLibraryAdapter } from "../adapter/registry";
+import { setStaticSqlContext } from "../adapter/lib/helpers";
+import type {
+  ILibraryAdapter,
+  LibraryAdapterOptions,
+  NamedParameterValues,
+  QueryExpression,
+} from "../adapter/lib/lib.i";
+import { isAssignableToParameter } from "../adapter/parameter-type";
+import { getReceiverTypes, isReceiverType } from "../adapter/receiver-type";
+import { getLibraryAdapter, getSchemaSourceStamp } from "../adapter/registry";
+import { createSqlFileReader } from "../adapter/sql-file";
+import { type ResolvedTarget, resolveTarget } from "../adapter/target";
 import { memoize } from "../cache/memoize";
-import type { ColumnTypeInfo, ColumnTypeRegistry } from "../types/column.i";
+import type { ColumnTypeInfo, ParameterTypeInfo, QueryTypeInfo } from "../types/column.i";
 
 import { workers } from "./private/worker";
 
@@ -19,16 +39,21 @@ import { workers } from "./private/worker";
 /**
  * Cache for library adapters to avoid re-creating them
  */
-const libraryAdapterCache = new Map<LibraryType, ReturnType<typeof getLibraryAdapter>>();
+const libraryAdapterCache = new Map<string, ILibraryAdapter>();
 
 /**
  * Get or create library adapter
  */
-function getOrCreateLibraryAdapter(library: LibraryType) {
-  let adapter = libraryAdapterCache.get(library);
+function getOrCreateLibraryAdapter(
+  library: LibraryType,
+  dbEngine: DatabaseEngine,
+  options: LibraryAdapterOptions,
+) {
+  const key = `${library}:${dbEngine}:${JSON.stringify(options)}`;
+  let adapter = libraryAdapterCache.get(key);
   if (!adapter) {
-    adapter = getLibraryAdapter(library);
-    libraryAdapterCache.set(library, adapter);
+    adapter = getLibraryAdapter(library, dbEngine, options);
+    libraryAdapterCache.set(key, adapter);
   }
   return adapter;
 }
@@ -40,33 +65,116 @@ function getOrCreateLibraryAdapter(library: LibraryType) {
 /**
  * Generate cache key for SQL query and database config
  */
-function getCacheKey(sql: string, config: DatabaseConfig, dbEngine: DatabaseEngine): string {
-  return `${dbEngine}:${sql}:${JSON.stringify(config)}`;
+function getCacheKey(
+  sql: string,
+  config: ConnectionConfig,
+  dbEngine: DatabaseEngine,
+  typeOverrides: Record<string, string> | null,
+  sourceStamp: string | null,
+): string {
+  return `${dbEngine}:${sql}:${JSON.stringify(config)}:${JSON.stringify(typeOverrides)}:${sourceStamp ?? ""}`;
 }
 
 /**
- * Get inferred types for SQL query with memoization
+ * Get inferred result columns and placeholder types for SQL query with memoization
+ *
+ * `sourceStamp` identifies the version of an offline schema source's files.
  */
 function getInferredTypes(
   sql: string,
-  config: DatabaseConfig,
+  config: ConnectionConfig,
   dbEngine: DatabaseEngine,
-): ColumnTypeRegistry | null {
+  typeOverrides: Record<string, string> | null,
+  sourceStamp: string | null,
+): QueryTypeInfo | null {
   return memoize({
-    key: getCacheKey(sql, config, dbEngine),
-    value: () => workers.checkSql(sql, config, dbEngine),
+    key: getCacheKey(sql, config, dbEngine, typeOverrides, sourceStamp),
+    value: () => workers.checkSql(sql, config, dbEngine, typeOverrides),
   });
 }
 
+/** Database engines whose types offline schema sources describe */
+const SCHEMA_SOURCE_ENGINES = new Set<DatabaseEngine>(["mysql", "mariadb"]);
+
+/**
+ * Get offline schema source from rule options (paths are resolved against cwd)
+ */
+function getSchemaSource(options: PluginOptions, cwd: string): SchemaSourceConfig | null {
+  const source = getSchemaSourceOption(options, cwd);
+  // Schema sources are parsed with the MySQL grammar and describe columns with MySQL types
+  const dbEngine = options.dbEngine ?? "mysql";
+  if (source && !SCHEMA_SOURCE_ENGINES.has(dbEngine)) {
+    throw new Error(
+      `Offline schema sources support the 'mysql' and 'mariadb' database engines, not '${dbEngine}'`,
+    );
+  }
+  return source;
+}
+
+/**
+ * Get the first offline schema source set in the rule options
+ */
+function getSchemaSourceOption(options: PluginOptions, cwd: string): SchemaSourceConfig | null {
+  if (options.schemaSnapshot) {
+    return { source: "snapshot", path: resolve(cwd, options.schemaSnapshot) };
+  }
+  if (options.schemaFile) {
+    return { source: "ddl", path: resolve(cwd, options.schemaFile) };
+  }
+  if (options.migrationsDir) {
+    return { source: "migrations", path: resolve(cwd, options.migrationsDir) };
+  }
+  if (options.prismaSchema) {
+    return { source: "prisma", path: resolve(cwd, options.prismaSchema) };
+  }
+  return null;
+}
+
+/**
+ * Get live database config from rule options (SQLite filenames are resolved against cwd)
+ */
+function getDatabaseConfig(options: PluginOptions, cwd: string): ConnectionConfig | null {
+  const database = options.database;
+  if (!database) return null;
+  if ("filename" in database) {
+    return { filename: resolve(cwd, database.filename) };
+  }
+  return database;
+}
+
 // =============================================================================
 // Types
 // =============================================================================
 
+/** Library types accepted by the `library` options */
+const LIBRARY_TYPES: LibraryType[] = [
+  "mysql2",
+  "prisma",
+  "typeorm",
+  "data-api",
+  "knex",
+  "kysely",
+  "drizzle",
+  "sequelize",
+  "mariadb",
+  "mysql",
+];
+
 /** Rule options */
 type Options = [PluginOptions?];
 
 /** Message IDs for rule errors */
-type MessageIds = "missingType" | "typeMismatch" | "missingColumn" | "extraColumn";
+type MessageIds =
+  | "missingType"
+  | "typeMismatch"
+  | "missingColumn"
+  | "extraColumn"
+  | "parameterCount"
+  | "parameterType"
+  | "missingParameter"
+  | "extraParameter"
+  | "resultTypeMismatch"
+  | "invalidStatement";
 
 // =============================================================================
 // Type Generation
@@ -95,15 +203,52 @@ function formatTypeString(typeInfo: ColumnTypeInfo): string {
 }
 
 /**
- * Generate full type annotation string
+ * Generate full type annotation string in the result shape of the library
  */
-function generateTypeAnnotation(columns: { name: string; typeInfo: ColumnTypeInfo }[]): string {
-  const props = columns.map(({ name, typeInfo }) => {
-    const typeStr = formatTypeString(typeInfo);
-    return `${name}: ${typeStr}`;
-  });
+function generateTypeAnnotation(
+  columns: { name: string; typeInfo: ColumnTypeInfo }[],
+  libraryAdapter: ILibraryAdapter,
+  node: QueryExpression,
+): string {
+  const { nest = false } = libraryAdapter.getQueryOptions(node);
+  return libraryAdapter.formatRowsType(formatRowType(columns, nest), node);
+}
+
+/** Row object type being built: property name to type string or nested object */
+type RowTypeLevel = Map<string, string | RowTypeLevel>;
 
-  return `(RowDataPacket & { ${props.join("; ")} })[]`;
+/**
+ * Format a row object type, grouping dotted names into nested objects when `nest` is set
+ */
+function formatRowType(
+  columns: { name: string; typeInfo: ColumnTypeInfo }[],
+  nest: boolean,
+): string {
+  const root: RowTypeLevel = new Map();
+
+  for (const { name, typeInfo } of columns) {
+    const path = nest ? name.split(".") : [name];
+    const property = path.pop() ?? name;
+
+    let level = root;
+    for (const part of path) {
+      let child = level.get(part);
+      if (typeof child !== "object") {
+        child = new Map();
+        level.set(part, child);
+      }
+      level = child;
+    }
+    level.set(property, formatTypeString(typeInfo));
+  }
+
+  const render = (level: RowTypeLevel): string => {
+    const props = [...level].map(
+      ([name, type]) => `${name}: ${typeof type === "string" ? type : render(type)}`,
+    );
+    return `{ ${props.join("; ")} }`;
+  };
+  return render(root);
 }
 
 // =============================================================================
@@ -129,26 +274,60 @@ export const checkSql = ESLintUtils.RuleCreator(
         properties: {
           dbEngine: {
             type: "string",
-            enum: ["mysql", "mariadb", "postgresql"],
+            enum: ["mysql", "mariadb", "postgresql", "sqlite"],
             default: "mysql",
           },
           library: {
             type: "string",
-            enum: ["mysql2", "prisma", "typeorm", "data-api"],
+            enum: LIBRARY_TYPES,
             default: "mysql2",
           },
           database: {
-            type: "object",
-            properties: {
-              host: { type: "string" },
-              port: { type: "number" },
-              user: { type: "string" },
-              password: { type: "string" },
-              database: { type: "string" },
+            oneOf: [
+              {
+                type: "object",
+                properties: {
+                  host: { type: "string" },
+                  port: { type: "number" },
+                  user: { type: "string" },
+                  password: { type: "string" },
+                  database: { type: "string" },
+                },
+                required: ["host", "user", "password", "database"],
+                additionalProperties: false,
+              },
+              {
+                type: "object",
+                properties: {
+                  filename: { type: "string" },
+                },
+                required: ["filename"],
+                additionalProperties: false,
+              },
+            ],
+          },
+          schemaSnapshot: { type: "string" },
+          schemaFile: { type: "string" },
+          migrationsDir: { type: "string" },
+          prismaSchema: { type: "string" },
+          targets: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                method: { type: "string" },
+                tag: { type: "string" },
+                receiver: { type: "string" },
+                sqlArgument: { type: "integer", minimum: 0 },
+                library: { type: "string", enum: LIBRARY_TYPES },
+              },
+              additionalProperties: false,
             },
-            required: ["host", "user", "password", "database"],
-            additionalProperties: false,
           },
+          typeAware: { type: "boolean", default: false },
+          receiverTypes: { type: "array", items: { type: "string" } },
+          interpolations: { type: "string", enum: ["skip", "placeholder"], default: "skip" },
+          namedPlaceholders: { type: "boolean", default: false },
         },
         additionalProperties: false,
       },
@@ -159,6 +338,14 @@ export const checkSql = ESLintUtils.RuleCreator(
         "Type mismatch for column '{{ column }}': expected {{ expected }}, got {{ actual }}",
       missingColumn: "Missing column '{{ column }}' in type annotation",
       extraColumn: "Extra column '{{ column }}' in type annotation not in query",
+      parameterCount: "Expected {{ expected }} values for the query placeholders, got {{ actual }}",
+      parameterType:
+        "Type mismatch for parameter {{ parameter }}: expected {{ expected }}, got {{ actual }}",
+      missingParameter: "Missing value for placeholder ':{{ name }}'",
+      extraParameter: "Value '{{ name }}' does not match any placeholder",
+      resultTypeMismatch:
+        "Type mismatch for {{ statement }} result: expected {{ expected }}, got {{ actual }}",
+      invalidStatement: "Invalid {{ statement }} statement: {{ error }}",
     },
   },
   defaultOptions: [{ dbEngine: "mysql" as DatabaseEngine, library: "mysql2" as LibraryType }],
@@ -167,182 +354,427 @@ export const checkSql = ESLintUtils.RuleCreator(
     const options = context.options[0] ?? {};
     const dbEngine = options.dbEngine ?? "mysql";
     const library = options.library ?? "mysql2";
-    const databaseConfig = options.database;
+    // Offline schema sources take priority over a live database connection
+    const schemaSource = getSchemaSource(options, context.cwd);
+    const connectionConfig = schemaSource ?? getDatabaseConfig(options, context.cwd);
+    // Types cached for a schema source are not reused once its files change
+    const sourceStamp = schemaSource && getSchemaSourceStamp(schemaSource);
 
     // Get the appropriate library adapter
-    const libraryAdapter = getOrCreateLibraryAdapter(library);
+    const adapterOptions: LibraryAdapterOptions = {
+      namedPlaceholders: options.namedPlaceholders ?? false,
+    };
+    const libraryAdapter = getOrCreateLibraryAdapter(library, dbEngine, adapterOptions);
+    const targets = options.targets;
+
+    /**
+     * Match a node against the configured targets, or the library defaults without targets
+     */
+    const findTarget = (node: QueryExpression): ResolvedTarget | null => {
+      if (targets) {
+        return resolveTarget(node, targets, (targetLibrary) =>
+          getOrCreateLibraryAdapter(targetLibrary ?? library, dbEngine, adapterOptions),
+        );
+      }
+      if (!libraryAdapter.isTargetMethod(node)) {
+        return null;
+      }
+      return { adapter: libraryAdapter, sql: libraryAdapter.extractSql(node) };
+    };
 
-    // Skip if no database config provided
-    if (!databaseConfig) {
+    // Type-aware mode: the receiver must be a connection type (throws without type information).
+    // Libraries without connection types are only filtered by the configured `receiverTypes`.
+    const receiverTypes = options.typeAware ? getReceiverTypes(library, options.receiverTypes) : [];
+    const parserServices = receiverTypes.length > 0 ? ESLintUtils.getParserServices(context) : null;
+
+    /**
+     * Check the receiver type of a call / tagged template (`sql`...`` without receiver passes)
+     */
+    const hasReceiverType = (node: QueryExpression): boolean => {
+      const callee = node.type === AST_NODE_TYPES.CallExpression ? node.callee : node.tag;
+      if (!parserServices || callee.type !== AST_NODE_TYPES.MemberExpression) {
+        return true;
+      }
+      return isReceiverType(
+        parserServices.getTypeAtLocation(callee.object),
+        parserServices.program.getTypeChecker(),
+        receiverTypes,
+      );
+    };
+
+    // Skip if neither a schema source nor database config is provided
+    if (!connectionConfig) {
       return {};
     }
 
-    return {
-      CallExpression(node) {
-        // Check if this is a target method call
-        if (!libraryAdapter.isTargetMethod(node)) return;
-
-        // Extract SQL from arguments
-        const sql = libraryAdapter.extractSql(node);
-        if (!sql) return;
-
-        // Get inferred types from database (memoized)
-        const inferredTypes = getInferredTypes(sql, databaseConfig, dbEngine);
-        if (!inferredTypes) return;
-
-        // Convert to expected columns format
-        const expectedColumns: { name: string; typeInfo: ColumnTypeInfo }[] = Object.entries(
-          inferredTypes,
-        ).map(([name, typeInfo]) => ({
-          name,
-          typeInfo: typeInfo,
-        }));
-
-        // Get existing type annotation
-        const existingType = libraryAdapter.getExistingTypeAnnotation(node, sourceCode);
-
-        // Get type arguments for fix range
-        const typeArgs = (
-          node as TSESTree.CallExpression & {
-            typeArguments?: TSESTree.TSTypeParameterInstantiation;
-          }
-        ).typeArguments;
-
-        // Check for missing type annotation
-        if (!existingType) {
+    // Resolve SQL held in constants (imported ones through type information when available)
+    // and `.sql` files, and dynamic template values to placeholders in "placeholder" mode
+    // (counted per query: their values are in the SQL, not in a values array)
+    let substitutedValues = 0;
+    const readSqlFile = createSqlFileReader(context.filename);
+    setStaticSqlContext(context.sourceCode.ast, {
+      resolveConstant: createConstantResolver(
+        context.sourceCode,
+        context.sourceCode.parserServices ?? null,
+        readSqlFile,
+      ),
+      valuePlaceholder:
+        options.interpolations === "placeholder"
+          ? (index) => {
+              substitutedValues++;
+              return dbEngine === "postgresql" ? `$${String(index + 1)}` : "?";
+            }
+          : null,
+      readSqlFile,
+      getScope: (node) => context.sourceCode.getScope(node),
+    });
+
+    // Values are type-checked when the file has type information
+    const typeServices = context.sourceCode.parserServices?.program
+      ? ESLintUtils.getParserServices(context)
+      : null;
+
+    /**
+     * Check a value against the inferred type of its placeholder (false when reported)
+     */
+    const checkParameterType = (
+      value: TSESTree.Node,
+      parameter: ColumnTypeInfo | null | undefined,
+      list: boolean | undefined,
+      name: string,
+    ): boolean => {
+      if (!typeServices || !parameter) return true;
+
+      const typeChecker = typeServices.program.getTypeChecker();
+      const type = typeServices.getTypeAtLocation(value);
+      if (!isAssignableToParameter(type, typeChecker, parameter, list)) {
+        context.report({
+          node: value,
+          messageId: "parameterType",
+          data: {
+            parameter: name,
+            expected: formatTypeString(parameter),
+            actual: typeChecker.typeToString(type),
+          },
+        });
+        return false;
+      }
+      return true;
+    };
+
+    /**
+     * Check the values object of a query against its named placeholders
+     */
+    const checkNamedParameters = (
+      node: QueryExpression,
+      values: NamedParameterValues,
+      parameters: ParameterTypeInfo,
+    ) => {
+      const names = new Set(values.names);
+      for (const name of names) {
+        if (!values.properties.has(name)) {
           context.report({
-            node,
-            messageId: "missingType",
-            data: { sql: sql.replace(/\s+/g, " ").trim() },
-            fix: (fixer) => {
-              const fixes: ReturnType<typeof fixer.insertTextAfter>[] = [];
-
-              // Generate type annotation
-              const typeAnnotation = generateTypeAnnotation(expectedColumns);
-
-              // Insert type parameter after method name
-              const callee = node.callee;
-              if (callee.type === AST_NODE_TYPES.MemberExpression) {
-                fixes.push(fixer.insertTextAfter(callee, `<${typeAnnotation}>`));
-              }
-
-              // Add import if needed
-              if (!sourceCode.includes("RowDataPacket")) {
-                const importStatement = libraryAdapter.getRequiredImport() + "\n";
-                // Find first import or top of file
-                const firstToken = context.sourceCode.ast.body[0];
-                if (firstToken) {
-                  // Find last import
-                  let lastImport: TSESTree.Node | null = null;
-                  for (const statement of context.sourceCode.ast.body) {
-                    if (statement.type === AST_NODE_TYPES.ImportDeclaration) {
-                      lastImport = statement;
-                    }
-                  }
-                  if (lastImport) {
-                    fixes.push(fixer.insertTextAfter(lastImport, "\n" + importStatement.trim()));
-                  } else {
-                    fixes.push(fixer.insertTextBefore(firstToken, importStatement));
-                  }
-                }
-              }
-
-              return fixes;
-            },
+            node: values.object ?? node,
+            messageId: "missingParameter",
+            data: { name },
           });
-          return;
         }
+      }
+      for (const [name, property] of values.properties) {
+        if (!names.has(name)) {
+          context.report({ node: property, messageId: "extraParameter", data: { name } });
+        }
+      }
+
+      // A name used twice is checked against each placeholder, reported once
+      if (values.names.length !== parameters.count) return;
+      const mismatched = new Set<string>();
+      values.names.forEach((name, index) => {
+        const property = values.properties.get(name);
+        if (
+          property &&
+          !mismatched.has(name) &&
+          !checkParameterType(
+            property.value,
+            parameters.types[index],
+            parameters.lists[index],
+            `':${name}'`,
+          )
+        ) {
+          mismatched.add(name);
+        }
+      });
+    };
+
+    /**
+     * Check the values array (or object) of a query against its placeholders
+     */
+    const checkParameters = (
+      node: QueryExpression,
+      adapter: ILibraryAdapter,
+      parameters: ParameterTypeInfo,
+    ) => {
+      const values = adapter.getParameterValues(node);
+      if (!values) return;
+      if (!Array.isArray(values)) {
+        checkNamedParameters(node, values, parameters);
+        return;
+      }
+
+      if (values.length !== parameters.count) {
+        context.report({
+          node,
+          messageId: "parameterCount",
+          data: { expected: String(parameters.count), actual: String(values.length) },
+        });
+        return;
+      }
+
+      values.forEach((value, index) =>
+        checkParameterType(
+          value,
+          parameters.types[index],
+          parameters.lists[index],
+          String(index + 1),
+        ),
+      );
+    };
+
+    /**
+     * Insert an import after the last import (or at the top of the file) unless `typeName`
+     * already appears in the file
+     */
+    const fixImport = (
+      fixer: TSESLint.RuleFixer,
+      importStatement: string,
+      typeName: string,
+    ): TSESLint.RuleFix | null => {
+      const firstToken = context.sourceCode.ast.body[0];
+      if (sourceCode.includes(typeName) || !firstToken) return null;
+
+      let lastImport: TSESTree.Node | null = null;
+      for (const statement of context.sourceCode.ast.body) {
+        if (statement.type === AST_NODE_TYPES.ImportDeclaration) {
+          lastImport = statement;
+        }
+      }
+      return lastImport
+        ? fixer.insertTextAfter(lastImport, "\n" + importStatement)
+        : fixer.insertTextBefore(firstToken, importStatement + "\n");
+    };
 
-        // Compare types
-        const expectedMap = new Map(expectedColumns.map((c) => [c.name, c.typeInfo]));
-        const actualMap = new Map(Object.entries(existingType.columns));
-
-        // Check for missing columns in type annotation
-        for (const [name, typeInfo] of expectedMap) {
-          if (!actualMap.has(name)) {
-            context.report({
-              node,
-              messageId: "missingColumn",
-              data: { column: name },
-              fix: (fixer) => {
-                // Add the missing column to the type
-                const newType = generateTypeAnnotation([
+    /**
+     * Check the type argument of a write statement against the library's write result type
+     */
+    const checkWriteResult = (node: QueryExpression, adapter: ILibraryAdapter, sql: string) => {
+      const resultType = adapter.getWriteResultType(node);
+      if (!resultType) return;
+
+      const fix = (fixer: TSESLint.RuleFixer): TSESLint.RuleFix[] => {
+        const typeFix = adapter.generateFix(node, resultType.type);
+        if (!typeFix) return [];
+        const fixes = [fixer.replaceTextRange(typeFix.range, typeFix.text)];
+        // `UpsertResult & { insertId: number }` is declared by `UpsertResult`
+        const typeName = /^\w+/.exec(resultType.type)?.[0] ?? resultType.type;
+        const importFix =
+          resultType.importStatement && fixImport(fixer, resultType.importStatement, typeName);
+        if (importFix) fixes.push(importFix);
+        return fixes;
+      };
+
+      const existingType = adapter.getExistingTypeAnnotation(node, sourceCode);
+      if (!existingType) {
+        context.report({
+          node,
+          messageId: "missingType",
+          data: { sql: sql.replace(/\s+/g, " ").trim() },
+          fix,
+        });
+        return;
+      }
+
+      const actual = existingType.text.replace(/\s+/g, " ").trim();
+      if (actual !== resultType.type) {
+        context.report({
+          node,
+          messageId: "resultTypeMismatch",
+          data: { statement: getStatementKeyword(sql), expected: resultType.type, actual },
+          fix,
+        });
+      }
+    };
+
+    /**
+     * Check the type annotation and values of a query call / tagged template
+     */
+    const checkQuery = (node: QueryExpression) => {
+      // Check if this is a target method call and extract SQL from arguments
+      substitutedValues = 0;
+      const target = findTarget(node);
+      if (!target?.sql || !hasReceiverType(node)) return;
+      const { adapter, sql } = target;
+
+      // Get inferred types from database (memoized)
+      const inferredTypes = getInferredTypes(
+        sql,
+        connectionConfig,
+        dbEngine,
+        adapter.getTypeOverrides(node),
+        sourceStamp,
+      );
+      if (!inferredTypes) return;
+
+      // Write statements are prepared only to validate them
+      if (inferredTypes.error !== null) {
+        context.report({
+          node,
+          messageId: "invalidStatement",
+          data: { statement: getStatementKeyword(sql), error: inferredTypes.error },
+        });
+        return;
+      }
+
+      if (substitutedValues === 0) {
+        checkParameters(node, adapter, inferredTypes.parameters);
+      }
+
+      if (inferredTypes.write) {
+        checkWriteResult(node, adapter, sql);
+        return;
+      }
+
+      // Other statements without a result set have no type annotation to check
+      if (!inferredTypes.columns) return;
+
+      // Convert to expected columns format
+      const expectedColumns: { name: string; typeInfo: ColumnTypeInfo }[] = Object.entries(
+        inferredTypes.columns,
+      ).map(([name, typeInfo]) => ({
+        name,
+        typeInfo: typeInfo,
+      }));
+
+      // Get existing type annotation
+      const existingType = adapter.getExistingTypeAnnotation(node, sourceCode);
+
+      // Check for missing type annotation
+      if (!existingType) {
+        context.report({
+          node,
+          messageId: "missingType",
+          data: { sql: sql.replace(/\s+/g, " ").trim() },
+          fix: (fixer) => {
+            const fixes: ReturnType<typeof fixer.insertTextAfter>[] = [];
+
+            // Insert type annotation where the library expects it
+            const typeAnnotation = generateTypeAnnotation(expectedColumns, adapter, node);
+            const typeFix = adapter.generateFix(node, typeAnnotation);
+            if (!typeFix) return fixes;
+            fixes.push(fixer.replaceTextRange(typeFix.range, typeFix.text));
+
+            // Add import if needed
+            const requiredImport = adapter.getRequiredImport();
+            const importFix = requiredImport && fixImport(fixer, requiredImport, "RowDataPacket");
+            if (importFix) {
+              fixes.push(importFix);
+            }
+
+            return fixes;
+          },
+        });
+        return;
+      }
+
+      // Compare types
+      const expectedMap = new Map(expectedColumns.map((c) => [c.name, c.typeInfo]));
+      const actualMap = new Map(Object.entries(existingType.columns));
+
+      // Check for missing columns in type annotation
+      for (const [name, typeInfo] of expectedMap) {
+        if (!actualMap.has(name)) {
+          context.report({
+            node,
+            messageId: "missingColumn",
+            data: { column: name },
+            fix: (fixer) => {
+              // Add the missing column to the type
+              const newType = generateTypeAnnotation(
+                [
                   ...Object.entries(existingType.columns).map(([n, t]) => ({
                     name: n,
                     typeInfo: t,
                   })),
                   { name, typeInfo },
-                ]);
-                if (typeArgs) {
-                  return fixer.replaceTextRange(
-                    [typeArgs.range[0], typeArgs.range[1]],
-                    `<${newType}>`,
-                  );
-                }
-                return null;
-              },
-            });
-          }
+                ],
+                adapter,
+                node,
+              );
+              const typeFix = adapter.generateFix(node, newType);
+              return typeFix && fixer.replaceTextRange(typeFix.range, typeFix.text);
+            },
+          });
         }
+      }
 
-        // Check for extra columns in type annotation
-        for (const name of actualMap.keys()) {
-          if (!expectedMap.has(name)) {
-            context.report({
-              node,
-              messageId: "extraColumn",
-              data: { column: name },
-              fix: (fixer) => {
-                // Remove the extra column from the type
-                const newColumns = Object.entries(existingType.columns)
-                  .filter(([n]) => n !== name)
-                  .map(([n, t]) => ({ name: n, typeInfo: t }));
-                const newType = generateTypeAnnotation(newColumns);
-                if (typeArgs) {
-                  return fixer.replaceTextRange(
-                    [typeArgs.range[0], typeArgs.range[1]],
-                    `<${newType}>`,
-                  );
-                }
-                return null;
-              },
-            });
-          }
+      // Check for extra columns in type annotation
+      for (const name of actualMap.keys()) {
+        if (!expectedMap.has(name)) {
+          context.report({
+            node,
+            messageId: "extraColumn",
+            data: { column: name },
+            fix: (fixer) => {
+              // Remove the extra column from the type
+              const newColumns = Object.entries(existingType.columns)
+                .filter(([n]) => n !== name)
+                .map(([n, t]) => ({ name: n, typeInfo: t }));
+              const newType = generateTypeAnnotation(newColumns, adapter, node);
+              const typeFix = adapter.generateFix(node, newType);
+              return typeFix && fixer.replaceTextRange(typeFix.range, typeFix.text);
+            },
+          });
         }
+      }
 
-        // Check for type mismatches
-        for (const [name, expectedType] of expectedMap) {
-          const actualType = actualMap.get(name);
-          if (!actualType) continue;
-
-          if (!typesMatch(expectedType, actualType)) {
-            context.report({
-              node,
-              messageId: "typeMismatch",
-              data: {
-                column: name,
-                expected: formatTypeString(expectedType),
-                actual: formatTypeString(actualType),
-              },
-              fix: (fixer) => {
-                // Replace the type annotation with correct types
-                const newType = generateTypeAnnotation(expectedColumns);
-                if (typeArgs) {
-                  return fixer.replaceTextRange(
-                    [typeArgs.range[0], typeArgs.range[1]],
-                    `<${newType}>`,
-                  );
-                }
-                return null;
-              },
-            });
-          }
+      // Check for type mismatches
+      for (const [name, expectedType] of expectedMap) {
+        const actualType = actualMap.get(name);
+        if (!actualType) continue;
+
+        if (!typesMatch(expectedType, actualType)) {
+          context.report({
+            node,
+            messageId: "typeMismatch",
+            data: {
+              column: name,
+              expected: formatTypeString(expectedType),
+              actual: formatTypeString(actualType),
+            },
+            fix: (fixer) => {
+              // Replace the type annotation with correct types
+              const newType = generateTypeAnnotation(expectedColumns, adapter, node);
+              const typeFix = adapter.generateFix(node, newType);
+              return typeFix && fixer.replaceTextRange(typeFix.range, typeFix.text);
+            },
+          });
         }
-      },
+      }
+    };
+
+    return {
+      CallExpression: checkQuery,
+      TaggedTemplateExpression: checkQuery,
     };
   },
 });
 
+/**
+ * Get the leading keyword of a statement (`INSERT`, `UPDATE`, ...)
+ */
+function getStatementKeyword(sql: string): string {
+  return /^\s*(\w+)/.exec(sql)?.[1]?.toUpperCase() ?? "SQL";
+}
+
 /**
  * Check if two types match
  */
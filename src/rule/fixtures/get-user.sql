@@ -0,0 +1 @@
+SELECT id, email FROM users WHERE id = ?
@@ -0,0 +1,168 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { describe, expect, it } from "vitest";
+
+import { parseSchemaDdl, splitSqlStatements } from "./ddl";
+import { resolveQueryMeta } from "./resolve";
+
+const EXAMPLE_SCHEMA = join(__dirname, "..", "..", "examples", "mysql2", "schema.sql");
+
+describe("DDL Schema Parser", () => {
+  describe("splitSqlStatements", () => {
+    it("should split statements on semicolons", () => {
+      // GIVEN
+      const sql = "CREATE TABLE a (id INT);\nCREATE TABLE b (id INT);";
+
+      // WHEN
+      const result = splitSqlStatements(sql);
+
+      // THEN
+      expect(result).toEqual(["CREATE TABLE a (id INT)", "CREATE TABLE b (id INT)"]);
+    });
+
+    it("should ignore semicolons in strings and comments", () => {
+      // GIVEN
+      const sql = `
+        -- comment; with semicolon
+        INSERT INTO a VALUES ('x;y', "it''s;");
+        /* block; comment */
+        CREATE TABLE b (id INT);
+      `;
+
+      // WHEN
+      const result = splitSqlStatements(sql);
+
+      // THEN
+      expect(result).toHaveLength(2);
+      expect(result[0]).toContain("'x;y'");
+      expect(result[1]).toBe("CREATE TABLE b (id INT)");
+    });
+  });
+
+  describe("parseSchemaDdl", () => {
+    it("should parse column types and nullability", () => {
+      // GIVEN
+      const sql = `
+        CREATE TABLE users (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          name VARCHAR(255) NOT NULL,
+          email VARCHAR(255),
+          balance DECIMAL(10, 2) UNSIGNED NOT NULL DEFAULT 0.00,
+          status ENUM('pending', 'active') NOT NULL DEFAULT 'pending'
+        );
+      `;
+
+      // WHEN
+      const catalog = parseSchemaDdl(sql);
+
+      // THEN
+      expect(catalog.tables["users"]?.columns).toEqual({
+        id: { type: "INT", nullable: false },
+        name: { type: "VARCHAR(255)", nullable: false },
+        email: { type: "VARCHAR(255)", nullable: true },
+        balance: { type: "DECIMAL(10,2) UNSIGNED", nullable: false },
+        status: { type: "ENUM", nullable: false, values: ["pending", "active"] },
+      });
+    });
+
+    it("should treat PRIMARY KEY constraint columns as NOT NULL", () => {
+      // GIVEN
+      const sql = "CREATE TABLE t (a INT, b INT, c INT, PRIMARY KEY (a, b))";
+
+      // WHEN
+      const catalog = parseSchemaDdl(sql);
+
+      // THEN
+      expect(catalog.tables["t"]?.columns["a"]?.nullable).toBe(false);
+      expect(catalog.tables["t"]?.columns["b"]?.nullable).toBe(false);
+      expect(catalog.tables["t"]?.columns["c"]?.nullable).toBe(true);
+    });
+
+    it("should copy columns for CREATE TABLE ... LIKE", () => {
+      // GIVEN
+      const sql = "CREATE TABLE a (id INT NOT NULL); CREATE TABLE b LIKE a;";
+
+      // WHEN
+      const catalog = parseSchemaDdl(sql);
+
+      // THEN
+      expect(catalog.tables["b"]?.columns).toEqual({ id: { type: "INT", nullable: false } });
+    });
+
+    it("should report unparsable CREATE TABLE statements", () => {
+      expect(() => parseSchemaDdl("CREATE TABLE t (id INT,,)")).toThrow(
+        "Failed to parse schema statement",
+      );
+    });
+
+    it("should apply ALTER TABLE column changes in order", () => {
+      // GIVEN
+      const sql = `
+        CREATE TABLE users (id INT NOT NULL, name VARCHAR(50), email VARCHAR(255));
+        ALTER TABLE users ADD COLUMN age INT NOT NULL AFTER id, DROP COLUMN email;
+        ALTER TABLE users MODIFY COLUMN name VARCHAR(100) NOT NULL FIRST;
+        ALTER TABLE users CHANGE COLUMN age years INT;
+        ALTER TABLE users RENAME COLUMN years TO age_years;
+      `;
+
+      // WHEN
+      const catalog = parseSchemaDdl(sql);
+
+      // THEN
+      expect(catalog.tables["users"]?.columns).toEqual({
+        name: { type: "VARCHAR(100)", nullable: false },
+        id: { type: "INT", nullable: false },
+        age_years: { type: "INT", nullable: true },
+      });
+      expect(Object.keys(catalog.tables["users"]?.columns ?? {})).toEqual([
+        "name",
+        "id",
+        "age_years",
+      ]);
+    });
+
+    it("should apply RENAME TABLE and DROP TABLE", () => {
+      // GIVEN
+      const sql = `
+        CREATE TABLE a (id INT);
+        CREATE TABLE b (id INT);
+        CREATE TABLE c (id INT);
+        RENAME TABLE a TO accounts;
+        ALTER TABLE b RENAME TO bills;
+        DROP TABLE IF EXISTS c;
+      `;
+
+      // WHEN
+      const catalog = parseSchemaDdl(sql);
+
+      // THEN
+      expect(Object.keys(catalog.tables)).toEqual(["accounts", "bills"]);
+    });
+
+    it("should throw when altering an unknown table", () => {
+      expect(() => parseSchemaDdl("ALTER TABLE missing ADD COLUMN id INT")).toThrow(
+        "Table 'missing' doesn't exist",
+      );
+    });
+
+    it("should parse the example schema and resolve queries against it", () => {
+      // GIVEN
+      const catalog = parseSchemaDdl(readFileSync(EXAMPLE_SCHEMA, "utf-8"));
+
+      // WHEN
+      const result = resolveQueryMeta(
+        catalog,
+        "SELECT u.name, p.title, p.view_count FROM users u LEFT JOIN posts p ON p.user_id = u.id",
+      );
+
+      // THEN
+      expect(Object.keys(catalog.tables)).toEqual(["users", "posts", "comments"]);
+      expect(result.columns).toMatchObject([
+        { name: "name", type: "VARCHAR", nullable: false },
+        { name: "title", type: "VARCHAR", nullable: true },
+        { name: "view_count", type: "BIGINT", nullable: true },
+      ]);
+    });
+  });
+});
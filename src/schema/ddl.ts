@@ -0,0 +1,459 @@
+import { readFileSync } from "fs";
+
+import sqlParser from "node-sql-parser";
+
+import type { ColumnSchema, SchemaCatalog } from "../types/schema.i";
+
+const { Parser } = sqlParser;
+
+/** Type definitions for node-sql-parser DDL AST */
+interface DdlValue {
+  type?: string;
+  value?: unknown;
+}
+
+interface DdlDataType {
+  dataType: string;
+  length?: number | null;
+  scale?: number | null;
+  parentheses?: boolean;
+  suffix?: string[] | null;
+  expr?: { value?: DdlValue[] };
+}
+
+interface DdlColumnRef {
+  column: string | { expr?: { value?: string } };
+}
+
+interface DdlColumnDefinition {
+  resource: "column";
+  column: DdlColumnRef;
+  definition: DdlDataType;
+  nullable?: { type: string } | null;
+  primary_key?: string | null;
+}
+
+interface DdlConstraintDefinition {
+  resource: "constraint" | "index";
+  constraint_type?: string;
+  definition?: DdlColumnRef[];
+}
+
+interface DdlTableRef {
+  table: string;
+}
+
+interface DdlColumnPosition {
+  keyword?: string;
+  expr?: DdlColumnRef;
+}
+
+interface DdlAlterAction {
+  action: string;
+  resource?: string;
+  column?: DdlColumnRef;
+  old_column?: DdlColumnRef;
+  definition?: DdlDataType;
+  nullable?: { type: string } | null;
+  primary_key?: string | null;
+  suffix?: DdlColumnPosition | null;
+  table?: string;
+  create_definitions?: DdlConstraintDefinition;
+}
+
+interface DdlAlterTable {
+  type: "alter";
+  table: DdlTableRef[];
+  expr: DdlAlterAction[];
+}
+
+interface DdlRenameTable {
+  type: "rename";
+  table: DdlTableRef[][];
+}
+
+interface DdlDropTable {
+  type: "drop";
+  keyword: string;
+  name: DdlTableRef[];
+}
+
+interface DdlCreateTable {
+  type: "create";
+  keyword: string;
+  table: DdlTableRef[];
+  create_definitions?: (DdlColumnDefinition | DdlConstraintDefinition)[] | null;
+  like?: { table?: DdlTableRef[] } | null;
+}
+
+const parser = new Parser();
+
+/**
+ * Load a DDL schema file (CREATE TABLE statements) as a schema catalog
+ */
+export function loadSchemaFile(path: string): SchemaCatalog {
+  let sql: string;
+  try {
+    sql = readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new Error(`Failed to read schema file: ${path}`, { cause: error });
+  }
+
+  return parseSchemaDdl(sql);
+}
+
+/** Statements that change the table catalog */
+const DDL_STATEMENT_PATTERN =
+  /^\s*(CREATE\s+(TEMPORARY\s+)?TABLE|ALTER\s+TABLE|RENAME\s+TABLE|DROP\s+(TEMPORARY\s+)?TABLE)\b/i;
+
+/**
+ * Build a schema catalog from DDL statements
+ *
+ * Statements other than CREATE / ALTER / RENAME / DROP TABLE (INSERT, SET, etc.) are ignored.
+ */
+export function parseSchemaDdl(sql: string): SchemaCatalog {
+  const catalog: SchemaCatalog = { tables: {} };
+
+  for (const statement of splitSqlStatements(sql)) {
+    applyDdlStatement(catalog, statement);
+  }
+
+  return catalog;
+}
+
+/**
+ * Apply a single DDL statement to the catalog
+ */
+export function applyDdlStatement(catalog: SchemaCatalog, statement: string): void {
+  if (!DDL_STATEMENT_PATTERN.test(statement)) {
+    return;
+  }
+
+  const ast = astifyStatement(statement) as
+    | DdlCreateTable
+    | DdlAlterTable
+    | DdlRenameTable
+    | DdlDropTable
+    | null;
+
+  switch (ast?.type) {
+    case "create":
+      if (ast.keyword === "table") applyCreateTable(catalog, ast);
+      break;
+    case "alter":
+      applyAlterTable(catalog, ast);
+      break;
+    case "rename":
+      for (const [from, to] of ast.table) {
+        if (from && to) renameTable(catalog, from.table, to.table);
+      }
+      break;
+    case "drop":
+      if (ast.keyword === "table") {
+        for (const ref of ast.name) {
+          catalog.tables = omitKey(catalog.tables, ref.table);
+        }
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Parse a single statement, reporting the statement text on failure
+ */
+function astifyStatement(statement: string): unknown {
+  try {
+    const ast = parser.astify(statement, { database: "MySQL" }) as unknown;
+    return Array.isArray(ast) ? (ast[0] as unknown) : ast;
+  } catch (error) {
+    const preview = statement.replace(/\s+/g, " ").trim().slice(0, 80);
+    throw new Error(`Failed to parse schema statement: ${preview}`, { cause: error });
+  }
+}
+
+/**
+ * Add a table from a CREATE TABLE statement
+ */
+function applyCreateTable(catalog: SchemaCatalog, ast: DdlCreateTable): void {
+  const tableName = ast.table[0]?.table;
+  if (!tableName) return;
+
+  // CREATE TABLE new_table LIKE existing_table
+  const likeTable = ast.like?.table?.[0]?.table;
+  if (likeTable) {
+    const source = catalog.tables[likeTable];
+    if (!source) {
+      throw new Error(`Table '${likeTable}' doesn't exist`);
+    }
+    catalog.tables[tableName] = { columns: structuredClone(source.columns) };
+    return;
+  }
+
+  const columns: Record<string, ColumnSchema> = {};
+  const definitions = ast.create_definitions ?? [];
+
+  for (const definition of definitions) {
+    if (definition.resource === "column") {
+      columns[getColumnName(definition.column)] = toColumnSchema(definition);
+    }
+  }
+
+  // PRIMARY KEY (a, b) implies NOT NULL
+  for (const definition of definitions) {
+    if (
+      definition.resource !== "column" &&
+      definition.constraint_type?.toLowerCase() === "primary key"
+    ) {
+      for (const ref of definition.definition ?? []) {
+        const column = columns[getColumnName(ref)];
+        if (column) column.nullable = false;
+      }
+    }
+  }
+
+  catalog.tables[tableName] = { columns };
+}
+
+/**
+ * Apply ALTER TABLE actions (ADD / DROP / MODIFY / CHANGE / RENAME COLUMN, RENAME TO)
+ */
+function applyAlterTable(catalog: SchemaCatalog, ast: DdlAlterTable): void {
+  let tableName = ast.table[0]?.table;
+  if (!tableName) return;
+
+  for (const action of ast.expr) {
+    const table = catalog.tables[tableName];
+    if (!table) {
+      throw new Error(`Table '${tableName}' doesn't exist`);
+    }
+
+    const actionName = action.action.toLowerCase();
+
+    if (action.resource === "table" && actionName === "rename" && action.table) {
+      renameTable(catalog, tableName, action.table);
+      tableName = action.table;
+      continue;
+    }
+
+    // ADD PRIMARY KEY (a, b)
+    if (actionName === "add" && action.create_definitions) {
+      const constraint = action.create_definitions;
+      if (constraint.constraint_type?.toLowerCase() === "primary key") {
+        for (const ref of constraint.definition ?? []) {
+          const column = table.columns[getColumnName(ref)];
+          if (column) column.nullable = false;
+        }
+      }
+      continue;
+    }
+
+    if (action.resource !== "column" || !action.column) continue;
+
+    const columnName = getColumnName(action.column);
+
+    switch (actionName) {
+      case "add":
+      case "modify":
+      case "change": {
+        if (!action.definition) break;
+        const oldName = action.old_column ? getColumnName(action.old_column) : columnName;
+        if (actionName !== "add" && !(oldName in table.columns)) {
+          throw new Error(`Unknown column '${oldName}' in '${tableName}'`);
+        }
+        const column = toColumnSchema({
+          resource: "column",
+          column: action.column,
+          definition: action.definition,
+          nullable: action.nullable ?? null,
+          primary_key: action.primary_key ?? null,
+        });
+        table.columns = placeColumn(table.columns, oldName, columnName, column, action.suffix);
+        break;
+      }
+      case "drop":
+        table.columns = omitKey(table.columns, columnName);
+        break;
+      case "rename": {
+        const oldName = action.old_column ? getColumnName(action.old_column) : columnName;
+        const column = table.columns[oldName];
+        if (!column) {
+          throw new Error(`Unknown column '${oldName}' in '${tableName}'`);
+        }
+        table.columns = placeColumn(table.columns, oldName, columnName, column, null);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Insert or replace a column, honoring FIRST / AFTER positions
+ */
+function placeColumn(
+  columns: Record<string, ColumnSchema>,
+  oldName: string,
+  newName: string,
+  column: ColumnSchema,
+  position: DdlColumnPosition | null | undefined,
+): Record<string, ColumnSchema> {
+  const entries = Object.entries(columns);
+  const keyword = position?.keyword?.toUpperCase();
+
+  // Without a position, the column stays in place (or is appended when new)
+  if (keyword !== "FIRST" && keyword !== "AFTER") {
+    const index = entries.findIndex(([name]) => name === oldName);
+    if (index === -1) {
+      entries.push([newName, column]);
+    } else {
+      entries[index] = [newName, column];
+    }
+    return Object.fromEntries(entries);
+  }
+
+  const remaining = entries.filter(([name]) => name !== oldName);
+  if (keyword === "FIRST") {
+    return Object.fromEntries([[newName, column], ...remaining]);
+  }
+
+  const afterName = position?.expr ? getColumnName(position.expr) : "";
+  const afterIndex = remaining.findIndex(([name]) => name === afterName);
+  if (afterIndex === -1) {
+    throw new Error(`Unknown column '${afterName}'`);
+  }
+  remaining.splice(afterIndex + 1, 0, [newName, column]);
+  return Object.fromEntries(remaining);
+}
+
+/**
+ * Rename a table in the catalog
+ */
+function renameTable(catalog: SchemaCatalog, from: string, to: string): void {
+  const table = catalog.tables[from];
+  if (!table) {
+    throw new Error(`Table '${from}' doesn't exist`);
+  }
+  catalog.tables = omitKey(catalog.tables, from);
+  catalog.tables[to] = table;
+}
+
+/**
+ * Copy a record without the given key (preserving key order)
+ */
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([name]) => name !== key));
+}
+
+/**
+ * Convert a column definition to a catalog column
+ */
+function toColumnSchema(definition: DdlColumnDefinition): ColumnSchema {
+  const nullable = definition.nullable?.type !== "not null" && !definition.primary_key;
+  const dataType = definition.definition.dataType.toUpperCase();
+
+  if (dataType === "ENUM") {
+    const values = (definition.definition.expr?.value ?? []).map((v) => String(v.value));
+    return { type: "ENUM", nullable, values };
+  }
+
+  return { type: formatDataType(definition.definition), nullable };
+}
+
+/**
+ * Format a data type definition as a column type string (e.g. "DECIMAL(10,2) UNSIGNED")
+ */
+function formatDataType(definition: DdlDataType): string {
+  let type = definition.dataType.toUpperCase();
+
+  if (definition.length !== undefined && definition.length !== null) {
+    const scale =
+      definition.scale !== undefined && definition.scale !== null
+        ? `,${String(definition.scale)}`
+        : "";
+    type += `(${String(definition.length)}${scale})`;
+  }
+
+  for (const suffix of definition.suffix ?? []) {
+    type += ` ${suffix.toUpperCase()}`;
+  }
+
+  return type;
+}
+
+/**
+ * Get column name from a column reference
+ */
+function getColumnName(ref: DdlColumnRef): string {
+  if (typeof ref.column === "string") return ref.column;
+  return ref.column.expr?.value ?? "";
+}
+
+/**
+ * Split SQL text into statements, respecting quotes and comments
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i] ?? "";
+    const next = sql[i + 1] ?? "";
+
+    // Line comments: -- and #
+    if ((char === "-" && next === "-") || char === "#") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+      current += "\n";
+      continue;
+    }
+
+    // Block comments
+    if (char === "/" && next === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += " ";
+      continue;
+    }
+
+    // Quoted strings and identifiers
+    if (char === "'" || char === '"' || char === "`") {
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === "\\" && char !== "`") {
+          end += 2;
+          continue;
+        }
+        if (sql[end] === char) {
+          // Doubled quote is an escaped quote
+          if (sql[end + 1] === char) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if (char === ";") {
+      if (current.trim()) statements.push(current.trim());
+      current = "";
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+
+  return statements;
+}
@@ -0,0 +1,80 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { listMigrationFiles, loadMigrationsDir } from "./migrations";
+
+describe("Migrations Schema Source", () => {
+  let migrationsDir: string;
+
+  beforeEach(() => {
+    migrationsDir = mkdtempSync(join(tmpdir(), "sql-typing-migrations-"));
+  });
+
+  afterEach(() => {
+    rmSync(migrationsDir, { recursive: true, force: true });
+  });
+
+  it("should list .sql files in filename order", () => {
+    // GIVEN
+    for (const file of ["10_c.sql", "2_b.sql", "001_a.sql", "README.md", "2_b.down.sql"]) {
+      writeFileSync(join(migrationsDir, file), "");
+    }
+
+    // WHEN
+    const files = listMigrationFiles(migrationsDir);
+
+    // THEN
+    expect(files).toEqual(["001_a.sql", "2_b.sql", "10_c.sql"]);
+  });
+
+  it("should replay migrations to build the catalog", () => {
+    // GIVEN
+    writeFileSync(
+      join(migrationsDir, "001_create_users.sql"),
+      "CREATE TABLE users (id INT PRIMARY KEY, name VARCHAR(255) NOT NULL);",
+    );
+    writeFileSync(
+      join(migrationsDir, "002_add_status.sql"),
+      "ALTER TABLE users ADD COLUMN status ENUM('pending', 'active') NOT NULL;",
+    );
+    writeFileSync(
+      join(migrationsDir, "003_rename_users.sql"),
+      "CREATE TABLE legacy (id INT);\nDROP TABLE legacy;\nRENAME TABLE users TO members;",
+    );
+
+    // WHEN
+    const catalog = loadMigrationsDir(migrationsDir);
+
+    // THEN
+    expect(catalog).toEqual({
+      tables: {
+        members: {
+          columns: {
+            id: { type: "INT", nullable: false },
+            name: { type: "VARCHAR(255)", nullable: false },
+            status: { type: "ENUM", nullable: false, values: ["pending", "active"] },
+          },
+        },
+      },
+    });
+  });
+
+  it("should report the failing migration file", () => {
+    // GIVEN
+    writeFileSync(join(migrationsDir, "001_alter.sql"), "ALTER TABLE users ADD COLUMN id INT;");
+
+    // WHEN / THEN
+    expect(() => loadMigrationsDir(migrationsDir)).toThrow(
+      "Failed to apply migration 001_alter.sql: Table 'users' doesn't exist",
+    );
+  });
+
+  it("should throw when directory does not exist", () => {
+    expect(() => loadMigrationsDir(join(migrationsDir, "missing"))).toThrow(
+      "Failed to read migrations directory",
+    );
+  });
+});
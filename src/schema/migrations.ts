@@ -0,0 +1,48 @@
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+
+import type { SchemaCatalog } from "../types/schema.i";
+
+import { applyDdlStatement, splitSqlStatements } from "./ddl";
+
+/** Rollback migrations are not part of the applied schema */
+const DOWN_MIGRATION_PATTERN = /[._-]down\.sql$/i;
+
+/**
+ * List migration files in the order they are applied
+ *
+ * Files are sorted by name with numeric awareness (`2_x.sql` before `10_x.sql`).
+ */
+export function listMigrationFiles(dir: string): string[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(dir);
+  } catch (error) {
+    throw new Error(`Failed to read migrations directory: ${dir}`, { cause: error });
+  }
+
+  return entries
+    .filter((name) => name.toLowerCase().endsWith(".sql") && !DOWN_MIGRATION_PATTERN.test(name))
+    .sort((a, b) => a.localeCompare(b, "en", { numeric: true }));
+}
+
+/**
+ * Build a schema catalog by replaying migration files in filename order
+ */
+export function loadMigrationsDir(dir: string): SchemaCatalog {
+  const catalog: SchemaCatalog = { tables: {} };
+
+  for (const file of listMigrationFiles(dir)) {
+    const sql = readFileSync(join(dir, file), "utf-8");
+    try {
+      for (const statement of splitSqlStatements(sql)) {
+        applyDdlStatement(catalog, statement);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to apply migration ${file}: ${message}`, { cause: error });
+    }
+  }
+
+  return catalog;
+}
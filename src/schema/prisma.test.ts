@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+
+import { parsePrismaSchema } from "./prisma";
+import { resolveQueryMeta } from "./resolve";
+
+const SCHEMA = `
+datasource db {
+  provider = "mysql"
+  url      = env("DATABASE_URL")
+}
+
+/// A user of the app
+model User {
+  id        Int       @id @default(autoincrement())
+  name      String    @db.VarChar(255)
+  email     String?   @unique
+  status    Status    @default(pending)
+  balance   Decimal   @db.Decimal(10, 2)
+  createdAt DateTime  @default(now()) @map("created_at")
+  posts     Post[]
+  legacy    String?   @ignore
+
+  @@map("users")
+}
+
+model Post {
+  id       Int     @id
+  authorId Int     @map("author_id") @db.UnsignedInt
+  author   User    @relation(fields: [authorId], references: [id])
+  title    String  // inline comment
+  body     String? @db.Text
+
+  @@map(name: "posts")
+}
+
+model Ignored {
+  id Int @id
+
+  @@ignore
+}
+
+enum Status {
+  pending
+  active   @map("ACTIVE")
+  inactive
+}
+`;
+
+describe("Prisma Schema Source", () => {
+  it("should map models to tables with @@map names", () => {
+    // WHEN
+    const catalog = parsePrismaSchema(SCHEMA);
+
+    // THEN
+    expect(Object.keys(catalog.tables)).toEqual(["users", "posts"]);
+  });
+
+  it("should map scalar fields, native types and nullability", () => {
+    // WHEN
+    const catalog = parsePrismaSchema(SCHEMA);
+
+    // THEN
+    expect(catalog.tables["users"]?.columns).toEqual({
+      id: { type: "INT", nullable: false },
+      name: { type: "VARCHAR(255)", nullable: false },
+      email: { type: "VARCHAR(191)", nullable: true },
+      status: { type: "ENUM", nullable: false, values: ["pending", "ACTIVE", "inactive"] },
+      balance: { type: "DECIMAL(10,2)", nullable: false },
+      created_at: { type: "DATETIME(3)", nullable: false },
+    });
+  });
+
+  it("should skip relation fields and apply @map on columns", () => {
+    // WHEN
+    const catalog = parsePrismaSchema(SCHEMA);
+
+    // THEN
+    expect(catalog.tables["posts"]?.columns).toEqual({
+      id: { type: "INT", nullable: false },
+      author_id: { type: "INT UNSIGNED", nullable: false },
+      title: { type: "VARCHAR(191)", nullable: false },
+      body: { type: "TEXT", nullable: true },
+    });
+  });
+
+  it("should resolve raw queries against the mapped names", () => {
+    // GIVEN
+    const catalog = parsePrismaSchema(SCHEMA);
+
+    // WHEN
+    const result = resolveQueryMeta(
+      catalog,
+      "SELECT u.created_at, p.body FROM users u JOIN posts p ON p.author_id = u.id",
+    );
+
+    // THEN
+    expect(result.columns).toMatchObject([
+      { name: "created_at", type: "DATETIME", nullable: false },
+      { name: "body", type: "TEXT", nullable: true },
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+import { readFileSync } from "fs";
+
+import type { ColumnSchema, SchemaCatalog } from "../types/schema.i";
+
+/** Prisma scalar types mapped to the MySQL column types Prisma creates */
+const PRISMA_SCALAR_TYPES: Record<string, string> = {
+  String: "VARCHAR(191)",
+  Boolean: "TINYINT(1)",
+  Int: "INT",
+  BigInt: "BIGINT",
+  Float: "DOUBLE",
+  Decimal: "DECIMAL(65,30)",
+  DateTime: "DATETIME(3)",
+  Json: "JSON",
+  Bytes: "LONGBLOB",
+};
+
+/** Parsed Prisma block (model, view or enum) */
+interface PrismaBlock {
+  kind: "model" | "view" | "enum";
+  name: string;
+  lines: string[];
+}
+
+/** Parsed Prisma field line */
+interface PrismaField {
+  name: string;
+  type: string;
+  isList: boolean;
+  isOptional: boolean;
+  attributes: string;
+}
+
+/**
+ * Load a Prisma schema file as a schema catalog
+ */
+export function loadPrismaSchema(path: string): SchemaCatalog {
+  let source: string;
+  try {
+    source = readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new Error(`Failed to read Prisma schema: ${path}`, { cause: error });
+  }
+
+  return parsePrismaSchema(source);
+}
+
+/**
+ * Build a schema catalog from Prisma models
+ *
+ * - `@@map` / `@map` names become the table / column names
+ * - Enums become ENUM columns (honoring `@map` on enum values)
+ * - Relation fields and `@ignore` / `@@ignore` entries are skipped
+ */
+export function parsePrismaSchema(source: string): SchemaCatalog {
+  const blocks = parseBlocks(source);
+
+  // Collect enum values first so models can reference them
+  const enums = new Map<string, string[]>();
+  for (const block of blocks) {
+    if (block.kind === "enum") {
+      enums.set(block.name, parseEnumValues(block.lines));
+    }
+  }
+
+  const modelNames = new Set(blocks.filter((b) => b.kind !== "enum").map((b) => b.name));
+  const catalog: SchemaCatalog = { tables: {} };
+
+  for (const block of blocks) {
+    if (block.kind === "enum") continue;
+    if (block.lines.some((line) => /^@@ignore\b/.test(line))) continue;
+
+    const columns: Record<string, ColumnSchema> = {};
+    for (const line of block.lines) {
+      const field = parseField(line);
+      if (!field || modelNames.has(field.type) || /@ignore\b/.test(field.attributes)) continue;
+
+      // Scalar lists are not supported by MySQL
+      if (field.isList) continue;
+
+      const columnName = getMapAttribute(field.attributes, "@map") ?? field.name;
+      columns[columnName] = toColumnSchema(field, enums);
+    }
+
+    const tableName = getBlockMapAttribute(block.lines) ?? block.name;
+    catalog.tables[tableName] = { columns };
+  }
+
+  return catalog;
+}
+
+/**
+ * Split schema source into model / view / enum blocks
+ */
+function parseBlocks(source: string): PrismaBlock[] {
+  const blocks: PrismaBlock[] = [];
+  const lines = source.split(/\r?\n/).map(stripComment);
+
+  let current: PrismaBlock | null = null;
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (!current) {
+      const match = /^(model|view|enum)\s+(\w+)\s*\{$/.exec(line);
+      if (match?.[1] && match[2]) {
+        current = { kind: match[1] as PrismaBlock["kind"], name: match[2], lines: [] };
+      }
+      continue;
+    }
+
+    if (line === "}") {
+      blocks.push(current);
+      current = null;
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+
+  return blocks;
+}
+
+/**
+ * Remove `//` comments outside of string literals
+ */
+function stripComment(line: string): string {
+  let inString = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === '"') {
+      inString = !inString;
+    } else if (!inString && char === "/" && line[i + 1] === "/") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Parse a field line: `name Type[]? @attr(...)`
+ */
+function parseField(line: string): PrismaField | null {
+  if (line.startsWith("@@")) return null;
+
+  const match = /^(\w+)\s+(\w+(?:\("[^"]*"\))?)(\[\])?(\?)?\s*(.*)$/.exec(line);
+  if (!match?.[1] || !match[2]) return null;
+
+  return {
+    name: match[1],
+    type: match[2],
+    isList: match[3] !== undefined,
+    isOptional: match[4] !== undefined,
+    attributes: match[5] ?? "",
+  };
+}
+
+/**
+ * Convert a Prisma field to a catalog column
+ */
+function toColumnSchema(field: PrismaField, enums: Map<string, string[]>): ColumnSchema {
+  const nullable = field.isOptional;
+
+  const enumValues = enums.get(field.type);
+  if (enumValues) {
+    return { type: "ENUM", nullable, values: enumValues };
+  }
+
+  const nativeType = getNativeType(field.attributes);
+  if (nativeType) {
+    return { type: nativeType, nullable };
+  }
+
+  return { type: PRISMA_SCALAR_TYPES[field.type] ?? "UNKNOWN", nullable };
+}
+
+/**
+ * Convert a `@db.*` native type attribute to a MySQL column type
+ *
+ * e.g. `@db.VarChar(255)` -> "VARCHAR(255)", `@db.UnsignedInt` -> "INT UNSIGNED"
+ */
+function getNativeType(attributes: string): string | null {
+  const match = /@db\.(\w+)(\(([^)]*)\))?/.exec(attributes);
+  if (!match?.[1]) return null;
+
+  const args = match[3] ? `(${match[3].replace(/\s+/g, "")})` : "";
+  const unsigned = /^Unsigned(\w+)$/.exec(match[1]);
+  if (unsigned?.[1]) {
+    return `${unsigned[1].toUpperCase()}${args} UNSIGNED`;
+  }
+
+  return `${match[1].toUpperCase()}${args}`;
+}
+
+/**
+ * Parse enum values, using `@map` values when present
+ */
+function parseEnumValues(lines: string[]): string[] {
+  const values: string[] = [];
+  for (const line of lines) {
+    if (line.startsWith("@@")) continue;
+    const match = /^(\w+)\s*(.*)$/.exec(line);
+    if (!match?.[1]) continue;
+    values.push(getMapAttribute(match[2] ?? "", "@map") ?? match[1]);
+  }
+  return values;
+}
+
+/**
+ * Get the `@@map("name")` value of a block
+ */
+function getBlockMapAttribute(lines: string[]): string | null {
+  for (const line of lines) {
+    const value = getMapAttribute(line, "@@map");
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+/**
+ * Get the string argument of a map attribute: `@map("x")` or `@map(name: "x")`
+ */
+function getMapAttribute(text: string, attribute: "@map" | "@@map"): string | null {
+  const prefix = attribute === "@map" ? "(?<!@)@map" : "@@map";
+  const match = new RegExp(`${prefix}\\(\\s*(?:name:\\s*)?"([^"]*)"`).exec(text);
+  return match?.[1] ?? null;
+}
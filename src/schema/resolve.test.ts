@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+
+import type { SchemaCatalog } from "../types/schema.i";
+
+import { normalizeColumnType, parseEnumValues, resolveQueryMeta } from "./resolve";
+
+const CATALOG: SchemaCatalog = {
+  tables: {
+    users: {
+      columns: {
+        id: { type: "INT", nullable: false },
+        name: { type: "VARCHAR(255)", nullable: false },
+        email: { type: "VARCHAR(255)", nullable: true },
+        status: { type: "ENUM", nullable: false, values: ["pending", "active", "inactive"] },
+      },
+    },
+    posts: {
+      columns: {
+        id: { type: "INT", nullable: false },
+        user_id: { type: "INT", nullable: false },
+        title: { type: "VARCHAR(255)", nullable: false },
+        view_count: { type: "BIGINT UNSIGNED", nullable: false },
+      },
+    },
+  },
+};
+
+describe("Schema Resolver", () => {
+  describe("normalizeColumnType", () => {
+    it("should strip length and modifiers", () => {
+      expect(normalizeColumnType("varchar(255)")).toBe("VARCHAR");
+      expect(normalizeColumnType("DECIMAL(10, 2) UNSIGNED")).toBe("DECIMAL");
+      expect(normalizeColumnType("int unsigned zerofill")).toBe("INT");
+    });
+
+    it("should map type aliases", () => {
+      expect(normalizeColumnType("INTEGER")).toBe("INT");
+      expect(normalizeColumnType("BOOLEAN")).toBe("TINYINT");
+      expect(normalizeColumnType("DOUBLE PRECISION")).toBe("DOUBLE");
+    });
+  });
+
+  describe("parseEnumValues", () => {
+    it("should parse ENUM values from column type", () => {
+      expect(parseEnumValues("enum('a','b','it''s')")).toEqual(["a", "b", "it's"]);
+    });
+
+    it("should return null for non-ENUM types", () => {
+      expect(parseEnumValues("varchar(255)")).toBeNull();
+    });
+  });
+
+  describe("resolveQueryMeta", () => {
+    it("should resolve simple columns", () => {
+      // GIVEN
+      const sql = "SELECT id, email FROM users";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns).toEqual([
+        { name: "id", table: "users", type: "INT", typeCode: -1, nullable: false },
+        { name: "email", table: "users", type: "VARCHAR", typeCode: -1, nullable: true },
+      ]);
+    });
+
+    it("should resolve column aliases and ENUM values", () => {
+      // GIVEN
+      const sql = "SELECT u.id AS user_id, u.status FROM users u";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns[0]).toMatchObject({ name: "id", alias: "user_id", table: "u" });
+      expect(result.columns[1]).toMatchObject({
+        name: "status",
+        type: "ENUM",
+        enumValues: ["pending", "active", "inactive"],
+      });
+    });
+
+    it("should expand SELECT * and t.*", () => {
+      // GIVEN
+      const sql = "SELECT p.*, u.name FROM posts p JOIN users u ON p.user_id = u.id";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns.map((c) => c.name)).toEqual([
+        "id",
+        "user_id",
+        "title",
+        "view_count",
+        "name",
+      ]);
+      expect(resolveQueryMeta(CATALOG, "SELECT * FROM users").columns).toHaveLength(4);
+    });
+
+    it("should make LEFT JOIN columns nullable", () => {
+      // GIVEN
+      const sql = "SELECT u.id, p.title FROM users u LEFT JOIN posts p ON u.id = p.user_id";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns[0]?.nullable).toBe(false);
+      expect(result.columns[1]?.nullable).toBe(true);
+    });
+
+    it("should resolve aggregate functions", () => {
+      // GIVEN
+      const sql = "SELECT COUNT(*) AS total, MAX(id) AS max_id FROM users";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns[0]).toMatchObject({
+        name: "total",
+        type: "BIGINT",
+        nullable: false,
+        isAggregate: true,
+      });
+      expect(result.columns[1]).toMatchObject({ name: "max_id", type: "INT", nullable: true });
+    });
+
+    it("should resolve COALESCE as non-nullable", () => {
+      // GIVEN
+      const sql = "SELECT COALESCE(email, '') AS email FROM users";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns[0]).toMatchObject({ name: "email", type: "VARCHAR", nullable: false });
+    });
+
+    it("should resolve derived tables", () => {
+      // GIVEN
+      const sql = "SELECT t.email FROM (SELECT id, email FROM users) t";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns[0]).toMatchObject({ name: "email", table: "t", nullable: true });
+    });
+
+    it("should throw for unknown tables and columns", () => {
+      expect(() => resolveQueryMeta(CATALOG, "SELECT id FROM missing")).toThrow(
+        "Table 'missing' doesn't exist",
+      );
+      expect(() => resolveQueryMeta(CATALOG, "SELECT missing FROM users")).toThrow(
+        "Unknown column 'missing'",
+      );
+    });
+
+    it("should throw for ambiguous columns", () => {
+      expect(() =>
+        resolveQueryMeta(CATALOG, "SELECT id FROM users u JOIN posts p ON u.id = p.user_id"),
+      ).toThrow("ambiguous");
+    });
+
+    it("should check the table and written columns of write statements", () => {
+      expect(resolveQueryMeta(CATALOG, "INSERT INTO users (id, name) VALUES (?, ?)")).toEqual({
+        columns: [],
+      });
+      expect(resolveQueryMeta(CATALOG, "UPDATE users u SET u.email = ? WHERE id = ?")).toEqual({
+        columns: [],
+      });
+      expect(resolveQueryMeta(CATALOG, "DELETE FROM posts WHERE id = ?")).toEqual({ columns: [] });
+
+      expect(() =>
+        resolveQueryMeta(CATALOG, "INSERT INTO users (id, emial) VALUES (?, ?)"),
+      ).toThrow("Unknown column 'emial'");
+      expect(() => resolveQueryMeta(CATALOG, "REPLACE INTO missing (id) VALUES (1)")).toThrow(
+        "Table 'missing' doesn't exist",
+      );
+    });
+
+    it("should resolve unqualified keyword-like columns", () => {
+      // GIVEN
+      const sql = "SELECT id, name, email, status FROM users";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns.map((column) => column.name)).toEqual([
+        "id",
+        "name",
+        "email",
+        "status",
+      ]);
+    });
+
+    it("should resolve RETURNING columns of write statements", () => {
+      // GIVEN
+      const sql = "INSERT INTO users (name) VALUES (?) RETURNING id AS user_id, email";
+
+      // WHEN
+      const result = resolveQueryMeta(CATALOG, sql);
+
+      // THEN
+      expect(result.columns).toMatchObject([
+        { name: "id", alias: "user_id", type: "INT", nullable: false },
+        { name: "email", type: "VARCHAR", nullable: true },
+      ]);
+      expect(
+        resolveQueryMeta(CATALOG, "DELETE FROM posts WHERE id = ? RETURNING *").columns,
+      ).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,485 @@
+import sqlParser from "node-sql-parser";
+
+import type { ColumnMeta, QueryMeta } from "../types/meta.i";
+import type { ColumnSchema, SchemaCatalog, TableSchema } from "../types/schema.i";
+
+const { Parser } = sqlParser;
+
+/** Offline catalogs carry no protocol type code */
+const UNKNOWN_TYPE_CODE = -1;
+
+/** Column type aliases normalized to the names used by TYPE_MAPPING */
+const TYPE_ALIASES: Record<string, string> = {
+  INTEGER: "INT",
+  BOOL: "TINYINT",
+  BOOLEAN: "TINYINT",
+  NUMERIC: "DECIMAL",
+  DEC: "DECIMAL",
+  FIXED: "DECIMAL",
+  REAL: "DOUBLE",
+  "DOUBLE PRECISION": "DOUBLE",
+  NCHAR: "CHAR",
+  NVARCHAR: "VARCHAR",
+};
+
+/** Type modifiers that do not affect the TypeScript type */
+const TYPE_MODIFIERS = new Set(["UNSIGNED", "SIGNED", "ZEROFILL"]);
+
+/** Result types of aggregate functions (null means "type of the argument") */
+const AGGREGATE_RESULT_TYPES: Record<string, { type: string | null; nullable: boolean }> = {
+  COUNT: { type: "BIGINT", nullable: false },
+  SUM: { type: "DECIMAL", nullable: true },
+  AVG: { type: "DECIMAL", nullable: true },
+  MIN: { type: null, nullable: true },
+  MAX: { type: null, nullable: true },
+  GROUP_CONCAT: { type: "TEXT", nullable: true },
+  BIT_AND: { type: "BIGINT", nullable: false },
+  BIT_OR: { type: "BIGINT", nullable: false },
+  BIT_XOR: { type: "BIGINT", nullable: false },
+  STD: { type: "DOUBLE", nullable: true },
+  STDDEV: { type: "DOUBLE", nullable: true },
+  STDDEV_POP: { type: "DOUBLE", nullable: true },
+  STDDEV_SAMP: { type: "DOUBLE", nullable: true },
+  VAR_POP: { type: "DOUBLE", nullable: true },
+  VAR_SAMP: { type: "DOUBLE", nullable: true },
+  VARIANCE: { type: "DOUBLE", nullable: true },
+};
+
+/** Type definitions for node-sql-parser AST */
+interface SqlExpr {
+  type?: string;
+  table?: string | null;
+  column?: string | { expr?: { value?: string } };
+  name?: string | { name?: { value?: string }[] };
+  value?: unknown;
+  args?: { value?: SqlExpr[]; expr?: SqlExpr };
+  ast?: SqlSelectAst;
+}
+
+interface SqlColumn {
+  expr: SqlExpr;
+  as?: string | null;
+}
+
+interface SqlFrom {
+  table?: string;
+  as?: string | null;
+  join?: string;
+  expr?: { ast?: SqlSelectAst };
+}
+
+interface SqlWith {
+  name: { value: string };
+  stmt: { ast?: SqlSelectAst };
+}
+
+interface SqlSelectAst {
+  type: string;
+  with?: SqlWith[] | null;
+  columns: SqlColumn[] | "*";
+  from?: SqlFrom[] | null;
+}
+
+/** INSERT / REPLACE / UPDATE / DELETE statement */
+interface SqlWriteAst {
+  type: "insert" | "replace" | "update" | "delete";
+  table?: SqlFrom[] | null;
+  from?: SqlFrom[] | null;
+  columns?: string[] | null;
+  set?: { table?: string | null; column: string }[] | null;
+  returning?: { columns: SqlColumn[] } | null;
+}
+
+/** Table visible in a SELECT statement's scope */
+interface ScopeSource {
+  /** Name used to reference the table (alias or table name) */
+  name: string;
+  /** Columns in definition order */
+  columns: Record<string, ColumnSchema>;
+  /** Whether rows may be missing (outer join) */
+  nullable: boolean;
+}
+
+/** Statement types validated without a result set */
+const WRITE_STATEMENTS = new Set(["insert", "replace", "update", "delete"]);
+
+const parser = new Parser();
+
+/**
+ * Resolve column metadata for a SELECT query against a schema catalog
+ *
+ * INSERT / REPLACE / UPDATE / DELETE statements have columns only with a RETURNING clause;
+ * their target table and the columns they write are checked against the catalog.
+ */
+export function resolveQueryMeta(catalog: SchemaCatalog, sql: string): QueryMeta {
+  const ast = parseStatement(sql);
+  const selectAst: SqlSelectAst | undefined = Array.isArray(ast) ? ast[0] : ast;
+
+  if (selectAst && WRITE_STATEMENTS.has(selectAst.type)) {
+    const writeAst = selectAst as unknown as SqlWriteAst;
+    const sources = checkWrite(catalog, writeAst);
+    const returning = writeAst.returning?.columns ?? [];
+    return { columns: returning.flatMap((col) => resolveColumn(sources, col)) };
+  }
+  if (selectAst?.type !== "select") {
+    throw new Error("Only SELECT statements can be resolved against a schema catalog");
+  }
+
+  return { columns: resolveSelect(catalog, selectAst) };
+}
+
+/**
+ * Parse a statement with the MySQL grammar
+ *
+ * Statements it rejects (RETURNING clauses) are parsed with the MariaDB grammar, which is not
+ * a superset: it rejects unqualified keyword-like columns such as `status`.
+ */
+function parseStatement(sql: string): SqlSelectAst | SqlSelectAst[] {
+  try {
+    return parser.astify(sql, { database: "MySQL" }) as SqlSelectAst | SqlSelectAst[];
+  } catch (error) {
+    try {
+      return parser.astify(sql, { database: "MariaDB" }) as SqlSelectAst | SqlSelectAst[];
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Normalize a column type to the base type name used by TYPE_MAPPING
+ *
+ * e.g. "varchar(255)" -> "VARCHAR", "int unsigned" -> "INT"
+ */
+export function normalizeColumnType(type: string): string {
+  const baseType = type
+    .toUpperCase()
+    .replace(/\(.*\)/, "")
+    .split(/\s+/)
+    .filter((token) => token && !TYPE_MODIFIERS.has(token))
+    .join(" ");
+
+  return TYPE_ALIASES[baseType] ?? baseType.split(" ")[0] ?? baseType;
+}
+
+/**
+ * Extract ENUM values from a column type such as "enum('a','b')"
+ */
+export function parseEnumValues(type: string): string[] | null {
+  const match = /^\s*enum\s*\((.*)\)\s*$/is.exec(type);
+  if (!match?.[1]) return null;
+
+  const values: string[] = [];
+  const regex = /'((?:[^']|'')*)'/g;
+  let valueMatch;
+  while ((valueMatch = regex.exec(match[1])) !== null) {
+    values.push((valueMatch[1] ?? "").replace(/''/g, "'"));
+  }
+  return values;
+}
+
+/**
+ * Resolve the column list of a SELECT statement
+ */
+function resolveSelect(catalog: SchemaCatalog, ast: SqlSelectAst): ColumnMeta[] {
+  const scopedCatalog = withCommonTableExpressions(catalog, ast.with);
+  const sources = resolveSources(scopedCatalog, ast.from ?? []);
+
+  if (ast.columns === "*") {
+    return expandStar(sources, null);
+  }
+
+  return ast.columns.flatMap((col) => resolveColumn(sources, col));
+}
+
+/**
+ * Check the tables of a write statement and the columns it inserts or assigns
+ * (returns the tables as scope sources)
+ */
+function checkWrite(catalog: SchemaCatalog, ast: SqlWriteAst): ScopeSource[] {
+  const sources = resolveSources(catalog, (ast.type === "delete" ? ast.from : ast.table) ?? []);
+
+  for (const column of ast.columns ?? []) {
+    findColumn(sources, null, column);
+  }
+  for (const item of ast.set ?? []) {
+    findColumn(sources, item.table ?? null, item.column);
+  }
+  return sources;
+}
+
+/**
+ * Add WITH clause results to the catalog as virtual tables
+ */
+function withCommonTableExpressions(
+  catalog: SchemaCatalog,
+  withClause: SqlWith[] | null | undefined,
+): SchemaCatalog {
+  if (!withClause?.length) return catalog;
+
+  const scoped: SchemaCatalog = { tables: { ...catalog.tables } };
+  for (const cte of withClause) {
+    if (!cte.stmt.ast) continue;
+    scoped.tables[cte.name.value] = {
+      columns: toColumnSchemas(resolveSelect(scoped, cte.stmt.ast)),
+    };
+  }
+  return scoped;
+}
+
+/**
+ * Resolve FROM clause items to scope sources
+ */
+function resolveSources(catalog: SchemaCatalog, from: SqlFrom[]): ScopeSource[] {
+  const sources: ScopeSource[] = [];
+
+  for (const item of from) {
+    const join = item.join?.toUpperCase() ?? "";
+
+    // RIGHT JOIN makes every preceding table nullable
+    if (join.startsWith("RIGHT")) {
+      for (const source of sources) {
+        source.nullable = true;
+      }
+    }
+
+    const nullable = join.startsWith("LEFT");
+
+    // Derived table: FROM (SELECT ...) alias
+    if (item.expr?.ast) {
+      sources.push({
+        name: item.as ?? "",
+        columns: toColumnSchemas(resolveSelect(catalog, item.expr.ast)),
+        nullable,
+      });
+      continue;
+    }
+
+    if (!item.table) continue;
+
+    const table = findTable(catalog, item.table);
+    if (!table) {
+      throw new Error(`Table '${item.table}' doesn't exist`);
+    }
+
+    sources.push({ name: item.as ?? item.table, columns: table.columns, nullable });
+  }
+
+  return sources;
+}
+
+/**
+ * Find a table in the catalog (exact match first, then case-insensitive)
+ */
+function findTable(catalog: SchemaCatalog, name: string): TableSchema | null {
+  const exact = catalog.tables[name];
+  if (exact) return exact;
+
+  const lowerName = name.toLowerCase();
+  for (const [tableName, table] of Object.entries(catalog.tables)) {
+    if (tableName.toLowerCase() === lowerName) return table;
+  }
+  return null;
+}
+
+/**
+ * Resolve a single item of the SELECT list (may expand to several columns)
+ */
+function resolveColumn(sources: ScopeSource[], col: SqlColumn): ColumnMeta[] {
+  const expr = col.expr;
+  const alias = col.as ?? null;
+
+  if (expr.type === "column_ref") {
+    const columnName = getColumnName(expr);
+    if (columnName === "*") {
+      return expandStar(sources, expr.table ?? null);
+    }
+
+    const { source, column } = findColumn(sources, expr.table ?? null, columnName);
+    return [{ ...toColumnMeta(columnName, source, column), ...(alias && { alias }) }];
+  }
+
+  const name = alias ?? exprToName(expr);
+  const inferred = inferExpression(sources, expr);
+  return [
+    {
+      name,
+      table: null,
+      type: inferred.type,
+      typeCode: UNKNOWN_TYPE_CODE,
+      nullable: inferred.nullable,
+      ...(inferred.values && { enumValues: inferred.values }),
+      ...(expr.type === "aggr_func" && { isAggregate: true }),
+    },
+  ];
+}
+
+/**
+ * Expand `*` or `t.*` into column metadata
+ */
+function expandStar(sources: ScopeSource[], tableRef: string | null): ColumnMeta[] {
+  const targets = tableRef === null ? sources : sources.filter((s) => s.name === tableRef);
+  if (tableRef !== null && targets.length === 0) {
+    throw new Error(`Unknown table '${tableRef}'`);
+  }
+
+  return targets.flatMap((source) =>
+    Object.entries(source.columns).map(([name, column]) => toColumnMeta(name, source, column)),
+  );
+}
+
+/**
+ * Build column metadata for a catalog column
+ */
+function toColumnMeta(name: string, source: ScopeSource, column: ColumnSchema): ColumnMeta {
+  const enumValues = column.values ?? parseEnumValues(column.type);
+  return {
+    name,
+    table: source.name,
+    type: normalizeColumnType(column.type),
+    typeCode: UNKNOWN_TYPE_CODE,
+    nullable: column.nullable || source.nullable,
+    ...(enumValues && { enumValues }),
+  };
+}
+
+/**
+ * Find a column by optional table qualifier
+ */
+function findColumn(
+  sources: ScopeSource[],
+  tableRef: string | null,
+  columnName: string,
+): { source: ScopeSource; column: ColumnSchema } {
+  const candidates = tableRef === null ? sources : sources.filter((s) => s.name === tableRef);
+  if (tableRef !== null && candidates.length === 0) {
+    throw new Error(`Unknown table '${tableRef}'`);
+  }
+
+  const matches = candidates.flatMap((source) => {
+    const column = findColumnInSource(source, columnName);
+    return column ? [{ source, column }] : [];
+  });
+
+  const match = matches[0];
+  if (!match) {
+    const qualified = tableRef ? `${tableRef}.${columnName}` : columnName;
+    throw new Error(`Unknown column '${qualified}' in 'field list'`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Column '${columnName}' in field list is ambiguous`);
+  }
+
+  return match;
+}
+
+/**
+ * Find a column in a source (column names are case-insensitive in MySQL)
+ */
+function findColumnInSource(source: ScopeSource, columnName: string): ColumnSchema | null {
+  const exact = source.columns[columnName];
+  if (exact) return exact;
+
+  const lowerName = columnName.toLowerCase();
+  for (const [name, column] of Object.entries(source.columns)) {
+    if (name.toLowerCase() === lowerName) return column;
+  }
+  return null;
+}
+
+/**
+ * Infer type and nullability of a non-column expression
+ */
+function inferExpression(
+  sources: ScopeSource[],
+  expr: SqlExpr,
+): { type: string; nullable: boolean; values?: string[] } {
+  switch (expr.type) {
+    case "column_ref": {
+      const { source, column } = findColumn(sources, expr.table ?? null, getColumnName(expr));
+      const meta = toColumnMeta("", source, column);
+      return {
+        type: meta.type,
+        nullable: meta.nullable,
+        ...(meta.enumValues && { values: meta.enumValues }),
+      };
+    }
+    case "number":
+      return { type: Number.isInteger(expr.value) ? "BIGINT" : "DECIMAL", nullable: false };
+    case "single_quote_string":
+    case "double_quote_string":
+    case "string":
+      return { type: "VARCHAR", nullable: false };
+    case "bool":
+      return { type: "INT", nullable: false };
+    case "null":
+      return { type: "UNKNOWN", nullable: true };
+    case "aggr_func": {
+      const result = AGGREGATE_RESULT_TYPES[getFunctionName(expr)];
+      if (!result) return { type: "UNKNOWN", nullable: true };
+
+      const arg = expr.args?.expr;
+      const argType = arg && arg.type !== "star" ? inferExpression(sources, arg) : null;
+      return { type: result.type ?? argType?.type ?? "UNKNOWN", nullable: result.nullable };
+    }
+    case "function": {
+      const functionName = getFunctionName(expr);
+      if (functionName === "COALESCE" || functionName === "IFNULL") {
+        const args = (expr.args?.value ?? []).map((arg) => inferExpression(sources, arg));
+        const first = args.find((arg) => arg.type !== "UNKNOWN");
+        return {
+          type: first?.type ?? "UNKNOWN",
+          nullable: args.every((arg) => arg.nullable),
+        };
+      }
+      return { type: "UNKNOWN", nullable: true };
+    }
+    default:
+      return { type: "UNKNOWN", nullable: true };
+  }
+}
+
+/**
+ * Get column name from a column_ref expression
+ */
+function getColumnName(expr: SqlExpr): string {
+  if (typeof expr.column === "string") return expr.column;
+  return expr.column?.expr?.value ?? "";
+}
+
+/**
+ * Get upper-cased function name from a function expression
+ */
+function getFunctionName(expr: SqlExpr): string {
+  if (typeof expr.name === "string") return expr.name.toUpperCase();
+  return (expr.name?.name ?? [])
+    .map((part) => part.value ?? "")
+    .join(".")
+    .toUpperCase();
+}
+
+/**
+ * Build the column name MySQL reports for an unaliased expression
+ */
+function exprToName(expr: SqlExpr): string {
+  try {
+    return parser.exprToSQL(expr as never, { database: "MySQL" }).replace(/`/g, "");
+  } catch {
+    return "?";
+  }
+}
+
+/**
+ * Convert resolved columns into a virtual table definition
+ */
+function toColumnSchemas(columns: ColumnMeta[]): Record<string, ColumnSchema> {
+  const result: Record<string, ColumnSchema> = {};
+  for (const column of columns) {
+    result[column.alias ?? column.name] = {
+      type: column.type,
+      nullable: column.nullable,
+      ...(column.enumValues && { values: column.enumValues }),
+    };
+  }
+  return result;
+}
@@ -0,0 +1,134 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { loadSchemaSnapshot, parseSchemaSnapshot, serializeSchemaSnapshot } from "./snapshot";
+
+describe("Schema Snapshot", () => {
+  describe("parseSchemaSnapshot", () => {
+    it("should parse a valid snapshot", () => {
+      // GIVEN
+      const data = {
+        version: "1.0",
+        generatedAt: "2024-01-15T10:00:00Z",
+        tables: {
+          users: {
+            columns: {
+              id: { type: "INT", nullable: false },
+              status: { type: "ENUM", values: ["pending", "active"], nullable: false },
+            },
+          },
+        },
+      };
+
+      // WHEN
+      const result = parseSchemaSnapshot(data);
+
+      // THEN
+      expect(result).toEqual({
+        tables: {
+          users: {
+            columns: {
+              id: { type: "INT", nullable: false },
+              status: { type: "ENUM", nullable: false, values: ["pending", "active"] },
+            },
+          },
+        },
+      });
+    });
+
+    it("should reject unsupported versions", () => {
+      expect(() => parseSchemaSnapshot({ version: "2.0", tables: {} })).toThrow(
+        "Unsupported schema snapshot version",
+      );
+    });
+
+    it("should reject columns without type", () => {
+      // GIVEN
+      const data = { version: "1.0", tables: { users: { columns: { id: { nullable: false } } } } };
+
+      // WHEN / THEN
+      expect(() => parseSchemaSnapshot(data)).toThrow("column 'users.id'");
+    });
+  });
+
+  describe("serializeSchemaSnapshot", () => {
+    it("should sort tables and keep column order", () => {
+      // GIVEN
+      const catalog = {
+        tables: {
+          users: {
+            columns: {
+              id: { type: "INT", nullable: false },
+              email: { type: "VARCHAR(255)", nullable: true },
+            },
+          },
+          comments: { columns: { id: { type: "INT", nullable: false } } },
+        },
+      };
+
+      // WHEN
+      const json = serializeSchemaSnapshot(catalog);
+      const parsed = JSON.parse(json) as { version: string; tables: object };
+
+      // THEN
+      expect(parsed.version).toBe("1.0");
+      expect(Object.keys(parsed.tables)).toEqual(["comments", "users"]);
+      expect(json.indexOf('"id"', json.indexOf('"users"'))).toBeLessThan(json.indexOf('"email"'));
+      expect(json.endsWith("\n")).toBe(true);
+    });
+
+    it("should round-trip through parseSchemaSnapshot", () => {
+      // GIVEN
+      const catalog = {
+        tables: {
+          users: { columns: { status: { type: "ENUM", nullable: false, values: ["a", "b"] } } },
+        },
+      };
+
+      // WHEN
+      const result = parseSchemaSnapshot(JSON.parse(serializeSchemaSnapshot(catalog)));
+
+      // THEN
+      expect(result).toEqual(catalog);
+    });
+  });
+
+  describe("loadSchemaSnapshot", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "sql-typing-snapshot-"));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should load snapshot from file", () => {
+      // GIVEN
+      const path = join(tempDir, ".sql-typing-schema.json");
+      writeFileSync(
+        path,
+        JSON.stringify({
+          version: "1.0",
+          tables: { users: { columns: { id: { type: "INT", nullable: false } } } },
+        }),
+      );
+
+      // WHEN
+      const result = loadSchemaSnapshot(path);
+
+      // THEN
+      expect(result.tables["users"]?.columns["id"]).toEqual({ type: "INT", nullable: false });
+    });
+
+    it("should throw when file does not exist", () => {
+      expect(() => loadSchemaSnapshot(join(tempDir, "missing.json"))).toThrow(
+        "Failed to read schema snapshot",
+      );
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+
+import type { ColumnSchema, SchemaCatalog, SchemaSnapshot, TableSchema } from "../types/schema.i";
+
+/** Current schema snapshot format version */
+export const SCHEMA_SNAPSHOT_VERSION = "1.0";
+
+/**
+ * Load and validate a schema snapshot file
+ */
+export function loadSchemaSnapshot(path: string): SchemaCatalog {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read schema snapshot: ${path}`, { cause: error });
+  }
+
+  return parseSchemaSnapshot(data);
+}
+
+/**
+ * Validate parsed snapshot JSON and convert it to a schema catalog
+ */
+export function parseSchemaSnapshot(data: unknown): SchemaCatalog {
+  if (!isRecord(data)) {
+    throw new Error("Invalid schema snapshot: expected an object");
+  }
+
+  const version = data["version"];
+  if (
+    typeof version !== "string" ||
+    version.split(".")[0] !== SCHEMA_SNAPSHOT_VERSION.split(".")[0]
+  ) {
+    throw new Error(
+      `Unsupported schema snapshot version: ${String(version)} (expected ${SCHEMA_SNAPSHOT_VERSION})`,
+    );
+  }
+
+  const tables = data["tables"];
+  if (!isRecord(tables)) {
+    throw new Error("Invalid schema snapshot: 'tables' must be an object");
+  }
+
+  const catalog: SchemaCatalog = { tables: {} };
+  for (const [tableName, table] of Object.entries(tables)) {
+    catalog.tables[tableName] = parseTable(tableName, table);
+  }
+
+  return catalog;
+}
+
+/**
+ * Validate a single table entry
+ */
+function parseTable(tableName: string, table: unknown): TableSchema {
+  if (!isRecord(table) || !isRecord(table["columns"])) {
+    throw new Error(`Invalid schema snapshot: table '${tableName}' must have 'columns'`);
+  }
+
+  const columns: Record<string, ColumnSchema> = {};
+  for (const [columnName, column] of Object.entries(table["columns"])) {
+    if (
+      !isRecord(column) ||
+      typeof column["type"] !== "string" ||
+      typeof column["nullable"] !== "boolean"
+    ) {
+      throw new Error(
+        `Invalid schema snapshot: column '${tableName}.${columnName}' must have 'type' and 'nullable'`,
+      );
+    }
+
+    const values = column["values"];
+    columns[columnName] = {
+      type: column["type"],
+      nullable: column["nullable"],
+      ...(Array.isArray(values) && { values: values.map(String) }),
+    };
+  }
+
+  return { columns };
+}
+
+/**
+ * Serialize a schema catalog as a deterministic snapshot
+ *
+ * Tables are sorted by name so that diffs stay reviewable. Columns keep their
+ * definition order because `SELECT *` results depend on it.
+ */
+export function serializeSchemaSnapshot(catalog: SchemaCatalog): string {
+  const snapshot: SchemaSnapshot = { version: SCHEMA_SNAPSHOT_VERSION, tables: {} };
+
+  for (const tableName of Object.keys(catalog.tables).sort()) {
+    const table = catalog.tables[tableName];
+    if (!table) continue;
+
+    const columns: Record<string, ColumnSchema> = {};
+    for (const [columnName, column] of Object.entries(table.columns)) {
+      columns[columnName] = {
+        type: column.type,
+        nullable: column.nullable,
+        ...(column.values && { values: column.values }),
+      };
+    }
+    snapshot.tables[tableName] = { columns };
+  }
+
+  return JSON.stringify(snapshot, null, 2) + "\n";
+}
+
+/**
+ * Check if value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
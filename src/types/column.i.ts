@@ -16,3 +16,28 @@ export interface ColumnTypeInfo {
  * Map of column names to type information
  */
 export type ColumnTypeRegistry = Record<string, ColumnTypeInfo>;
+
+/**
+ * Inferred placeholders of a query
+ */
+export interface ParameterTypeInfo {
+  /** Number of values the query expects */
+  count: number;
+  /** Accepted type of each value (null when the placeholder is not bound to a column) */
+  types: (ColumnTypeInfo | null)[];
+  /** Whether each value is an item of an `IN (...)` list (drivers expanding arrays accept `T[]`) */
+  lists: boolean[];
+}
+
+/**
+ * Inferred result columns and placeholders of a query
+ */
+export interface QueryTypeInfo {
+  /** Result columns (null for statements without a result set) */
+  columns: ColumnTypeRegistry | null;
+  /** INSERT / UPDATE / DELETE / REPLACE statement (its result describes the write, not rows) */
+  write: boolean;
+  /** Error preparing a write statement (e.g. an unknown column), null when it is valid */
+  error: string | null;
+  parameters: ParameterTypeInfo;
+}
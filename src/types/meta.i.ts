@@ -25,4 +25,6 @@ export interface ColumnMeta {
  */
 export interface QueryMeta {
   columns: ColumnMeta[];
+  /** Number of placeholders reported by the prepared statement */
+  parameterCount?: number;
 }
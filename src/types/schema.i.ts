@@ -0,0 +1,36 @@
+/**
+ * Column definition in an offline schema catalog
+ */
+export interface ColumnSchema {
+  /** MySQL column type (INT, VARCHAR(255), etc.) */
+  type: string;
+  /** Whether NULL is allowed */
+  nullable: boolean;
+  /** List of values for ENUM type */
+  values?: string[];
+}
+
+/**
+ * Table definition in an offline schema catalog
+ */
+export interface TableSchema {
+  /** Columns in definition order */
+  columns: Record<string, ColumnSchema>;
+}
+
+/**
+ * In-memory schema catalog used for offline type inference
+ */
+export interface SchemaCatalog {
+  tables: Record<string, TableSchema>;
+}
+
+/**
+ * Schema snapshot file contents (.sql-typing-schema.json)
+ */
+export interface SchemaSnapshot extends SchemaCatalog {
+  /** Snapshot format version */
+  version: string;
+  /** ISO 8601 timestamp of snapshot generation */
+  generatedAt?: string;
+}
@@ -2,7 +2,16 @@ import { describe, expect, it } from "vitest";
 
 import type { ColumnMeta, QueryMeta } from "../types/meta.i";
 
-import { genColumnTypeRegistry, getPropertyName, inferColumnType, TYPE_MAPPING } from "./worker";
+import {
+  genColumnTypeRegistry,
+  getPropertyName,
+  inferColumnType,
+  inferParameterType,
+  MARIADB_TYPE_MAPPING,
+  PG_TYPE_MAPPING,
+  SQLITE_TYPE_MAPPING,
+  TYPE_MAPPING,
+} from "./worker";
 
 describe("Worker", () => {
   describe("TYPE_MAPPING", () => {
@@ -29,6 +38,7 @@ describe("Worker", () => {
       expect(TYPE_MAPPING["MEDIUMTEXT"]).toBe("string");
       expect(TYPE_MAPPING["LONGTEXT"]).toBe("string");
       expect(TYPE_MAPPING["TIME"]).toBe("string");
+      expect(TYPE_MAPPING["SET"]).toBe("string");
     });
 
     it("should map date types to Date", () => {
@@ -55,6 +65,48 @@ describe("Worker", () => {
     });
   });
 
+  describe("MARIADB_TYPE_MAPPING", () => {
+    it("should map MariaDB-only types to string", () => {
+      expect(MARIADB_TYPE_MAPPING["UUID"]).toBe("string");
+      expect(MARIADB_TYPE_MAPPING["INET4"]).toBe("string");
+      expect(MARIADB_TYPE_MAPPING["INET6"]).toBe("string");
+    });
+
+    it("should keep MySQL types", () => {
+      expect(MARIADB_TYPE_MAPPING["INT"]).toBe("number");
+      expect(MARIADB_TYPE_MAPPING["JSON"]).toBe("unknown");
+    });
+  });
+
+  describe("PG_TYPE_MAPPING", () => {
+    it("should map PostgreSQL number types", () => {
+      expect(PG_TYPE_MAPPING["INT2"]).toBe("number");
+      expect(PG_TYPE_MAPPING["INT4"]).toBe("number");
+      expect(PG_TYPE_MAPPING["FLOAT8"]).toBe("number");
+      expect(PG_TYPE_MAPPING["INT8"]).toBe("string");
+      expect(PG_TYPE_MAPPING["NUMERIC"]).toBe("string");
+    });
+
+    it("should map PostgreSQL specific types", () => {
+      expect(PG_TYPE_MAPPING["BOOL"]).toBe("boolean");
+      expect(PG_TYPE_MAPPING["UUID"]).toBe("string");
+      expect(PG_TYPE_MAPPING["TIMESTAMPTZ"]).toBe("Date");
+      expect(PG_TYPE_MAPPING["JSONB"]).toBe("unknown");
+      expect(PG_TYPE_MAPPING["BYTEA"]).toBe("Buffer");
+      expect(PG_TYPE_MAPPING["_TEXT"]).toBe("string[]");
+    });
+  });
+
+  describe("SQLITE_TYPE_MAPPING", () => {
+    it("should map SQLite declared types by affinity", () => {
+      expect(SQLITE_TYPE_MAPPING["INTEGER"]).toBe("number");
+      expect(SQLITE_TYPE_MAPPING["REAL"]).toBe("number");
+      expect(SQLITE_TYPE_MAPPING["VARCHAR"]).toBe("string");
+      expect(SQLITE_TYPE_MAPPING["DATETIME"]).toBe("string");
+      expect(SQLITE_TYPE_MAPPING["BLOB"]).toBe("Buffer");
+    });
+  });
+
   describe("getPropertyName", () => {
     it("should return alias when present", () => {
       // GIVEN
@@ -250,6 +302,23 @@ describe("Worker", () => {
       // THEN
       expect(result).toEqual({ type: "number", nullable: false });
     });
+
+    it("should use the given type mapping", () => {
+      // GIVEN
+      const column: ColumnMeta = {
+        name: "is_active",
+        table: "users",
+        type: "bool",
+        typeCode: 16,
+        nullable: false,
+      };
+
+      // WHEN
+      const result = inferColumnType(column, PG_TYPE_MAPPING);
+
+      // THEN
+      expect(result).toEqual({ type: "boolean", nullable: false });
+    });
   });
 
   describe("genColumnTypeRegistry", () => {
@@ -436,4 +505,55 @@ describe("Worker", () => {
       });
     });
   });
+
+  describe("inferParameterType", () => {
+    it("should accept strings for date columns and numbers for large number columns", () => {
+      // GIVEN
+      const createdAt: ColumnMeta = {
+        name: "created_at",
+        table: "users",
+        type: "DATETIME",
+        typeCode: 12,
+        nullable: true,
+      };
+      const balance: ColumnMeta = {
+        name: "balance",
+        table: "users",
+        type: "DECIMAL",
+        typeCode: 246,
+        nullable: false,
+      };
+
+      // WHEN / THEN
+      expect(inferParameterType(createdAt)).toEqual({ type: "Date | string", nullable: true });
+      expect(inferParameterType(balance)).toEqual({ type: "number | string", nullable: false });
+    });
+
+    it("should keep enum values and other column types", () => {
+      // GIVEN
+      const status: ColumnMeta = {
+        name: "status",
+        table: "users",
+        type: "ENUM",
+        typeCode: 247,
+        nullable: false,
+        enumValues: ["active", "inactive"],
+      };
+      const email: ColumnMeta = {
+        name: "email",
+        table: "users",
+        type: "VARCHAR",
+        typeCode: 253,
+        nullable: false,
+      };
+
+      // WHEN / THEN
+      expect(inferParameterType(status)).toEqual({
+        type: "enum",
+        nullable: false,
+        enumValues: ["active", "inactive"],
+      });
+      expect(inferParameterType(email)).toEqual({ type: "string", nullable: false });
+    });
+  });
 });
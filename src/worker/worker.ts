@@ -1,10 +1,21 @@
 import { runAsWorker } from "synckit";
 
-import type { DatabaseConfig, DatabaseEngine } from "../adapter/db/config.i";
+import type { ConnectionConfig, DatabaseEngine } from "../adapter/db/config.i";
 import type { IDatabaseAdapter } from "../adapter/db/db.i";
 import { MySQLAdapter } from "../adapter/db/mysql";
-import { getDatabaseAdapter } from "../adapter/registry";
-import type { ColumnTypeInfo, ColumnTypeRegistry } from "../types/column.i";
+import {
+  getDatabaseAdapter,
+  getSchemaSourceAdapter,
+  getSchemaSourceStamp,
+  isSchemaSourceConfig,
+} from "../adapter/registry";
+import { parseParameters } from "../parser/parameters";
+import type {
+  ColumnTypeInfo,
+  ColumnTypeRegistry,
+  ParameterTypeInfo,
+  QueryTypeInfo,
+} from "../types/column.i";
 import type { ColumnMeta, QueryMeta } from "../types/meta.i";
 
 /** MySQL type to TypeScript type mapping */
@@ -30,6 +41,7 @@ export const TYPE_MAPPING: Record<string, string> = {
   MEDIUMTEXT: "string",
   LONGTEXT: "string",
   TIME: "string",
+  SET: "string",
 
   // Date types
   DATE: "Date",
@@ -51,6 +63,132 @@ export const TYPE_MAPPING: Record<string, string> = {
   ENUM: "enum",
 };
 
+/** MariaDB type to TypeScript type mapping (MySQL types plus MariaDB-only types) */
+export const MARIADB_TYPE_MAPPING: Record<string, string> = {
+  ...TYPE_MAPPING,
+
+  // MariaDB-only string types
+  UUID: "string",
+  INET4: "string",
+  INET6: "string",
+};
+
+/** PostgreSQL type (pg_type.typname) to TypeScript type mapping */
+export const PG_TYPE_MAPPING: Record<string, string> = {
+  // Integer types
+  INT2: "number",
+  INT4: "number",
+  FLOAT4: "number",
+  FLOAT8: "number",
+  OID: "number",
+
+  // Large number types (use string for precision)
+  INT8: "string",
+  NUMERIC: "string",
+  MONEY: "string",
+
+  // String types
+  TEXT: "string",
+  VARCHAR: "string",
+  BPCHAR: "string",
+  CHAR: "string",
+  NAME: "string",
+  CITEXT: "string",
+  UUID: "string",
+  TIME: "string",
+  TIMETZ: "string",
+  INTERVAL: "string",
+  INET: "string",
+  CIDR: "string",
+  MACADDR: "string",
+  XML: "string",
+
+  // Boolean type
+  BOOL: "boolean",
+
+  // Date types
+  DATE: "Date",
+  TIMESTAMP: "Date",
+  TIMESTAMPTZ: "Date",
+
+  // Binary types
+  BYTEA: "Buffer",
+
+  // JSON types
+  JSON: "unknown",
+  JSONB: "unknown",
+
+  // Array types
+  _INT2: "number[]",
+  _INT4: "number[]",
+  _FLOAT4: "number[]",
+  _FLOAT8: "number[]",
+  _INT8: "string[]",
+  _NUMERIC: "string[]",
+  _TEXT: "string[]",
+  _VARCHAR: "string[]",
+  _UUID: "string[]",
+  _BOOL: "boolean[]",
+
+  // ENUM is handled separately
+  ENUM: "enum",
+};
+
+/** SQLite declared type to TypeScript type mapping (values as returned by better-sqlite3) */
+export const SQLITE_TYPE_MAPPING: Record<string, string> = {
+  // INTEGER / REAL / NUMERIC affinity
+  INTEGER: "number",
+  INT: "number",
+  TINYINT: "number",
+  SMALLINT: "number",
+  MEDIUMINT: "number",
+  BIGINT: "number",
+  INT2: "number",
+  INT8: "number",
+  REAL: "number",
+  DOUBLE: "number",
+  "DOUBLE PRECISION": "number",
+  FLOAT: "number",
+  NUMERIC: "number",
+  DECIMAL: "number",
+  BOOLEAN: "number",
+
+  // TEXT affinity (dates are stored as ISO-8601 strings)
+  TEXT: "string",
+  CHARACTER: "string",
+  VARCHAR: "string",
+  "VARYING CHARACTER": "string",
+  NCHAR: "string",
+  "NATIVE CHARACTER": "string",
+  NVARCHAR: "string",
+  CLOB: "string",
+  DATE: "string",
+  DATETIME: "string",
+  TIMESTAMP: "string",
+  TIME: "string",
+  JSON: "string",
+
+  // BLOB affinity
+  BLOB: "Buffer",
+};
+
+/** Type mapping used for each database engine */
+const TYPE_MAPPINGS: Record<DatabaseEngine, Record<string, string>> = {
+  mysql: TYPE_MAPPING,
+  mariadb: MARIADB_TYPE_MAPPING,
+  postgresql: PG_TYPE_MAPPING,
+  sqlite: SQLITE_TYPE_MAPPING,
+};
+
+/** Database types that drivers also accept numbers (and booleans for TINYINT) for */
+const NUMERIC_PARAMETER_TYPES: Record<string, string> = {
+  TINYINT: "number | boolean",
+  BIGINT: "number | bigint | string",
+  DECIMAL: "number | string",
+  INT8: "number | bigint | string",
+  NUMERIC: "number | string",
+};
+
 /** Cached database adapter */
 let cachedAdapter: IDatabaseAdapter | null = null;
 let cachedConfigHash: string | null = null;
@@ -60,9 +198,11 @@ let cachedConfigHash: string | null = null;
  */
 async function getAdapter(
   dbEngine: DatabaseEngine,
-  config: DatabaseConfig,
+  config: ConnectionConfig,
 ): Promise<IDatabaseAdapter> {
-  const configHash = `${dbEngine}:${JSON.stringify(config)}`;
+  // Offline catalogs are rebuilt when the schema source files change
+  const sourceStamp = isSchemaSourceConfig(config) ? getSchemaSourceStamp(config) : "";
+  const configHash = `${dbEngine}:${JSON.stringify(config)}:${sourceStamp}`;
 
   if (cachedAdapter && cachedConfigHash === configHash) {
     return cachedAdapter;
@@ -73,7 +213,9 @@ async function getAdapter(
     await cachedAdapter.disconnect();
   }
 
-  const adapter = getDatabaseAdapter(dbEngine, config);
+  const adapter = isSchemaSourceConfig(config)
+    ? getSchemaSourceAdapter(config)
+    : getDatabaseAdapter(dbEngine, config);
   await adapter.connect();
 
   cachedAdapter = adapter;
@@ -86,22 +228,49 @@ async function getAdapter(
 export type CheckSQLWorkerHandler = typeof getQueryTypes;
 
 /**
- * Get inferred types for a SQL query
+ * Get inferred result columns and placeholder types for a SQL query
  */
 async function getQueryTypes(
   sql: string,
-  config: DatabaseConfig,
+  config: ConnectionConfig,
   dbEngine: DatabaseEngine = "mysql",
-): Promise<ColumnTypeRegistry | null> {
-  // Skip non-SELECT queries
-  if (!MySQLAdapter.isSelectQuery(sql)) {
-    return null;
-  }
-
+  typeOverrides: Record<string, string> | null = null,
+): Promise<QueryTypeInfo | null> {
   try {
     const adapter = await getAdapter(dbEngine, config);
-    const metadata = await adapter.getQueryMetadata(sql);
-    return genColumnTypeRegistry(metadata);
+    // Offline schema sources describe columns with MySQL types
+    const typeMapping = {
+      ...(isSchemaSourceConfig(config) ? TYPE_MAPPING : TYPE_MAPPINGS[dbEngine]),
+      // Libraries that decode values differently (e.g. Data API) override the mapping
+      ...typeOverrides,
+    };
+
+    // Statements producing a result set have columns; writes are prepared to validate them
+    const write = MySQLAdapter.isWriteQuery(sql);
+    let metadata: QueryMeta | null = null;
+    let error: string | null = null;
+    if (MySQLAdapter.isSelectQuery(sql)) {
+      metadata = await adapter.getQueryMetadata(sql);
+    } else if (write) {
+      try {
+        metadata = await adapter.getQueryMetadata(sql);
+      } catch (prepareError) {
+        error = prepareError instanceof Error ? prepareError.message : String(prepareError);
+      }
+    }
+
+    return {
+      columns: metadata && !write ? genColumnTypeRegistry(metadata, typeMapping) : null,
+      write,
+      error,
+      parameters: await getParameterTypes(
+        adapter,
+        sql,
+        dbEngine,
+        typeMapping,
+        metadata?.parameterCount,
+      ),
+    };
   } catch (error) {
     // Return null on error (e.g., invalid SQL, connection issues)
     console.error("[eslint-plugin-sql-typing] Error fetching query metadata:", error);
@@ -109,15 +278,52 @@ async function getQueryTypes(
   }
 }
 
+/**
+ * Infer the placeholder types of a query from the columns they are bound to
+ *
+ * The bound columns are described by preparing `SELECT <columns> FROM <tables>`, so any
+ * adapter (including offline schema sources) can type them without running the query.
+ */
+async function getParameterTypes(
+  adapter: IDatabaseAdapter,
+  sql: string,
+  dbEngine: DatabaseEngine,
+  typeMapping: Record<string, string>,
+  parameterCount: number | undefined,
+): Promise<ParameterTypeInfo> {
+  const probe = parseParameters(sql, dbEngine);
+  const count = parameterCount ?? probe.count;
+
+  let columns: ColumnMeta[] = [];
+  if (probe.sql && probe.count === count) {
+    try {
+      columns = (await adapter.getQueryMetadata(probe.sql)).columns;
+    } catch {
+      // Unknown columns (e.g. aliases of derived tables): values are only counted
+    }
+  }
+
+  const types = Array.from({ length: count }, (_, index) => {
+    const columnIndex = probe.columns[index];
+    const column = columnIndex === null || columnIndex === undefined ? null : columns[columnIndex];
+    return column ? inferParameterType(column, typeMapping) : null;
+  });
+  const lists = Array.from({ length: count }, (_, index) => probe.lists[index] ?? false);
+  return { count, types, lists };
+}
+
 /**
  * Generate column type registry from query metadata
  */
-export function genColumnTypeRegistry(metadata: QueryMeta): ColumnTypeRegistry {
+export function genColumnTypeRegistry(
+  metadata: QueryMeta,
+  typeMapping: Record<string, string> = TYPE_MAPPING,
+): ColumnTypeRegistry {
   const result: ColumnTypeRegistry = {};
 
   for (const column of metadata.columns) {
     const propertyName = getPropertyName(column);
-    const typeInfo = inferColumnType(column);
+    const typeInfo = inferColumnType(column, typeMapping);
     result[propertyName] = typeInfo;
   }
 
@@ -134,9 +340,12 @@ export function getPropertyName(column: ColumnMeta): string {
 /**
  * Infer TypeScript type for a single column
  */
-export function inferColumnType(column: ColumnMeta): ColumnTypeInfo {
-  const mysqlType = column.type.toUpperCase();
-  const tsType = TYPE_MAPPING[mysqlType] ?? "unknown";
+export function inferColumnType(
+  column: ColumnMeta,
+  typeMapping: Record<string, string> = TYPE_MAPPING,
+): ColumnTypeInfo {
+  const dbType = column.type.toUpperCase();
+  const tsType = typeMapping[dbType] ?? "unknown";
 
   // Handle ENUM type
   if (tsType === "enum" && column.enumValues) {
@@ -153,4 +362,26 @@ export function inferColumnType(column: ColumnMeta): ColumnTypeInfo {
   };
 }
 
+/**
+ * Infer the TypeScript type of values accepted for a column
+ *
+ * Drivers accept more than they return: dates as strings, large numbers as numbers and
+ * booleans for TINYINT flags.
+ */
+export function inferParameterType(
+  column: ColumnMeta,
+  typeMapping: Record<string, string> = TYPE_MAPPING,
+): ColumnTypeInfo {
+  const typeInfo = inferColumnType(column, typeMapping);
+  const numericType = NUMERIC_PARAMETER_TYPES[column.type.toUpperCase()];
+
+  if (typeInfo.type === "Date") {
+    return { ...typeInfo, type: "Date | string" };
+  }
+  if (numericType) {
+    return { ...typeInfo, type: numericType };
+  }
+  return typeInfo;
+}
+
 runAsWorker(getQueryTypes);
@@ -1,7 +1,7 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
-  entry: ["src/index.ts", "src/worker/worker.ts"],
+  entry: ["src/index.ts", "src/worker/worker.ts", "src/cli/bin.ts"],
   outDir: "dist",
   clean: true,
   format: ["esm", "cjs"],